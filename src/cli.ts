@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+import * as path from 'node:path';
+import { parseArgs } from 'node:util';
+import { getEnvProviderInputs, loadConfig, mergeWithActionInputs } from './config/index.js';
+import { ReviewModeSchema } from './config/schema.js';
+import { buildBaseline, writeBaselineFile } from './engine/index.js';
+import { buildSarifLog, writeReportFile, writeSarifFile } from './output/index.js';
+import { LocalGitAdapter } from './platforms/index.js';
+import { reviewPullRequest } from './review.js';
+
+const USAGE = `Usage: code-sentinel <review|baseline> [options]
+
+Commands:
+  review            Review the changes between a base branch and HEAD in the
+                    current git repository
+  baseline          Review the changes and write every reported issue to the
+                    baseline file (baseline.path), so they are not reported again
+
+Options:
+  --base <ref>      Branch or commit to compare against (default: main)
+  --head <ref>      Branch or commit to review (default: HEAD)
+  --config <path>   Path to .sentinel.yml (default: .sentinel.yml)
+  --mode <mode>     Review mode: quick or deep (default: from config)
+  --cwd <dir>       Repository directory (default: current directory)
+  --sarif <path>    Also write the findings as a SARIF 2.1.0 report
+  --report <path>   Also write a JSON report of the review
+  -h, --help        Show this help
+
+Provider credentials are read from OPENAI_API_KEY, ANTHROPIC_API_KEY,
+GEMINI_API_KEY or OLLAMA_BASE_URL (plus the matching *_MODEL variables).`;
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      base: { type: 'string', default: 'main' },
+      head: { type: 'string', default: 'HEAD' },
+      config: { type: 'string', default: '.sentinel.yml' },
+      mode: { type: 'string' },
+      cwd: { type: 'string' },
+      sarif: { type: 'string' },
+      report: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const [command] = positionals;
+
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  if (command !== 'review' && command !== 'baseline') {
+    console.error(`Unknown command: ${command}\n\n${USAGE}`);
+    return 1;
+  }
+
+  const workingDir = values.cwd || process.cwd();
+  const inputs = getEnvProviderInputs();
+
+  const { config: baseConfig, contextFiles } = await loadConfig(values.config, workingDir);
+  const config = mergeWithActionInputs(baseConfig, inputs);
+
+  if (values.mode) {
+    config.review = { ...config.review, mode: ReviewModeSchema.parse(values.mode) };
+  }
+
+  const platform = new LocalGitAdapter({ base: values.base, head: values.head, workingDir });
+
+  const { result, output, report } = await reviewPullRequest({
+    platform,
+    config,
+    contextFiles,
+    workingDir,
+    inputs,
+  });
+
+  if (values.sarif) {
+    const sarifFile = path.resolve(workingDir, values.sarif);
+    writeSarifFile(sarifFile, buildSarifLog(result.filteredIssues));
+    console.error(`SARIF report written to ${sarifFile}`);
+  }
+
+  if (values.report) {
+    const reportFile = path.resolve(workingDir, values.report);
+    writeReportFile(reportFile, report);
+    console.error(`JSON report written to ${reportFile}`);
+  }
+
+  if (command === 'baseline') {
+    // A skipped review found nothing, which must not wipe the existing baseline
+    if (result.skipped) {
+      console.error(`Review skipped: ${result.skipReason}; baseline not written`);
+      return 1;
+    }
+
+    const baselineFile = path.resolve(workingDir, config.baseline.path);
+    const baseline = buildBaseline([
+      ...result.filteredIssues,
+      ...(result.suppressed?.baseline ?? []),
+    ]);
+    writeBaselineFile(baselineFile, baseline);
+    console.log(`Baseline with ${baseline.issues.length} issue(s) written to ${baselineFile}`);
+    return 0;
+  }
+
+  if (result.skipped || !output) {
+    console.log(`Review skipped: ${result.skipReason}`);
+    return 0;
+  }
+
+  console.log('');
+  console.log(output.summary);
+
+  return 0;
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
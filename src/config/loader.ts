@@ -4,6 +4,7 @@ import * as core from '@actions/core';
 import { parse as parseYaml } from 'yaml';
 import {
   DEFAULT_CONTEXT_FILES,
+  type LLMProvider,
   type SentinelConfig,
   SentinelConfigSchema,
   defaultConfig,
@@ -143,16 +144,65 @@ function findContextFile(fileName: string, workingDir: string): string[] {
   return foundPaths;
 }
 
-export function mergeWithActionInputs(config: SentinelConfig): SentinelConfig {
-  // Get all provider API keys and models from action inputs
-  const openaiApiKey = core.getInput('openai_api_key');
-  const openaiModel = core.getInput('openai_model');
-  const anthropicApiKey = core.getInput('anthropic_api_key');
-  const anthropicModel = core.getInput('anthropic_model');
-  const geminiApiKey = core.getInput('gemini_api_key');
-  const geminiModel = core.getInput('gemini_model');
-  const ollamaBaseUrl = core.getInput('ollama_base_url');
-  const ollamaModel = core.getInput('ollama_model');
+/** Provider credentials and model overrides supplied outside of .sentinel.yml */
+export interface ProviderInputs {
+  openaiApiKey?: string;
+  openaiModel?: string;
+  anthropicApiKey?: string;
+  anthropicModel?: string;
+  geminiApiKey?: string;
+  geminiModel?: string;
+  ollamaBaseUrl?: string;
+  ollamaModel?: string;
+}
+
+/** Read provider inputs from the GitHub Action inputs */
+export function getActionProviderInputs(): ProviderInputs {
+  return {
+    openaiApiKey: core.getInput('openai_api_key'),
+    openaiModel: core.getInput('openai_model'),
+    anthropicApiKey: core.getInput('anthropic_api_key'),
+    anthropicModel: core.getInput('anthropic_model'),
+    geminiApiKey: core.getInput('gemini_api_key'),
+    geminiModel: core.getInput('gemini_model'),
+    ollamaBaseUrl: core.getInput('ollama_base_url'),
+    ollamaModel: core.getInput('ollama_model'),
+  };
+}
+
+/** Read provider inputs from conventional environment variables (CLI usage) */
+export function getEnvProviderInputs(env: NodeJS.ProcessEnv = process.env): ProviderInputs {
+  return {
+    openaiApiKey: env.OPENAI_API_KEY,
+    openaiModel: env.OPENAI_MODEL,
+    anthropicApiKey: env.ANTHROPIC_API_KEY,
+    anthropicModel: env.ANTHROPIC_MODEL,
+    geminiApiKey: env.GEMINI_API_KEY,
+    geminiModel: env.GEMINI_MODEL,
+    ollamaBaseUrl: env.OLLAMA_BASE_URL,
+    ollamaModel: env.OLLAMA_MODEL,
+  };
+}
+
+export function mergeWithActionInputs(
+  config: SentinelConfig,
+  inputs: ProviderInputs = getActionProviderInputs()
+): SentinelConfig {
+  const {
+    openaiApiKey,
+    openaiModel,
+    anthropicApiKey,
+    anthropicModel,
+    geminiApiKey,
+    geminiModel,
+    ollamaBaseUrl,
+    ollamaModel,
+  } = inputs;
+
+  // An explicit fallback chain or custom endpoint already defines which provider to use
+  if (config.llm.fallbacks.length > 0 || isCustomEndpoint(config.llm.provider)) {
+    return config;
+  }
 
   // Determine provider based on available credentials (priority order)
   let provider = config.llm.provider;
@@ -183,3 +233,8 @@ export function mergeWithActionInputs(config: SentinelConfig): SentinelConfig {
     },
   };
 }
+
+/** Providers pointing at a self-hosted or Azure endpoint, configured explicitly in .sentinel.yml */
+function isCustomEndpoint(provider: LLMProvider): boolean {
+  return provider === 'openai-compatible' || provider === 'azure-openai';
+}
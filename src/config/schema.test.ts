@@ -94,6 +94,77 @@ describe('SentinelConfigSchema', () => {
       ).toThrow();
     });
 
+    it('should parse fail_on gate rules', () => {
+      const result = SentinelConfigSchema.parse({
+        output: {
+          fail_on: {
+            rules: [
+              { severity: 'critical', category: 'security' },
+              { severity: 'warning', max: 3 },
+            ],
+            request_changes: true,
+          },
+        },
+      });
+
+      expect(result.output.fail_on.rules).toEqual([
+        { severity: 'critical', category: 'security', max: 0 },
+        { severity: 'warning', max: 3 },
+      ]);
+      expect(result.output.fail_on.request_changes).toBe(true);
+    });
+
+    it('should default to an empty gate', () => {
+      const result = SentinelConfigSchema.parse({});
+
+      expect(result.output.fail_on).toEqual({ rules: [], request_changes: false });
+    });
+
+    it('should parse an ordered list of LLM providers as a fallback chain', () => {
+      const result = SentinelConfigSchema.parse({
+        llm: [
+          { provider: 'openai', model: 'gpt-4o' },
+          { provider: 'anthropic' },
+          { provider: 'ollama', base_url: 'http://ollama:11434' },
+        ],
+      });
+
+      expect(result.llm.provider).toBe('openai');
+      expect(result.llm.model).toBe('gpt-4o');
+      expect(result.llm.fallbacks).toEqual([
+        { provider: 'anthropic' },
+        { provider: 'ollama', base_url: 'http://ollama:11434' },
+      ]);
+      expect(result.llm.retry.max_attempts).toBe(4);
+    });
+
+    it('should default to no fallbacks', () => {
+      const result = SentinelConfigSchema.parse({ llm: { provider: 'gemini' } });
+
+      expect(result.llm.fallbacks).toEqual([]);
+    });
+
+    it('should parse rules with defaults', () => {
+      const result = SentinelConfigSchema.parse({
+        rules: [{ id: 'no-console', pattern: 'console\\.log\\(', message: 'Remove console.log' }],
+      });
+
+      expect(result.rules[0]).toMatchObject({
+        paths: ['**'],
+        exclude: [],
+        severity: 'warning',
+        category: 'best-practices',
+      });
+    });
+
+    it('should reject rules with an invalid regular expression', () => {
+      expect(() =>
+        SentinelConfigSchema.parse({
+          rules: [{ id: 'broken', pattern: '(unclosed', message: 'Broken' }],
+        })
+      ).toThrow('Invalid regular expression');
+    });
+
     it('should accept max_inline_comments at boundary', () => {
       const result = SentinelConfigSchema.parse({
         output: { max_inline_comments: 50 },
@@ -137,6 +208,8 @@ describe('LLMProviderSchema', () => {
     expect(LLMProviderSchema.parse('ollama')).toBe('ollama');
     expect(LLMProviderSchema.parse('anthropic')).toBe('anthropic');
     expect(LLMProviderSchema.parse('gemini')).toBe('gemini');
+    expect(LLMProviderSchema.parse('openai-compatible')).toBe('openai-compatible');
+    expect(LLMProviderSchema.parse('azure-openai')).toBe('azure-openai');
   });
 
   it('should reject invalid providers', () => {
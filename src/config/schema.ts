@@ -6,6 +6,7 @@ export const ReviewCategorySchema = z.enum([
   'performance',
   'best-practices',
   'bugs',
+  'testing',
 ]);
 
 export type ReviewCategory = z.infer<typeof ReviewCategorySchema>;
@@ -14,7 +15,14 @@ export const SeveritySchema = z.enum(['critical', 'warning', 'suggestion', 'nitp
 
 export type Severity = z.infer<typeof SeveritySchema>;
 
-export const LLMProviderSchema = z.enum(['openai', 'ollama', 'anthropic', 'gemini']);
+export const LLMProviderSchema = z.enum([
+  'openai',
+  'ollama',
+  'anthropic',
+  'gemini',
+  'openai-compatible',
+  'azure-openai',
+]);
 
 export type LLMProvider = z.infer<typeof LLMProviderSchema>;
 
@@ -26,6 +34,36 @@ export const PatternSchema = z.object({
 
 export type Pattern = z.infer<typeof PatternSchema>;
 
+const isValidRegex = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** A deterministic check run over the added lines of the diff */
+export const RuleSchema = z.object({
+  id: z.string().regex(/^[\w.-]+$/, 'Rule ids may only contain letters, digits, _, . and -'),
+  /** Regular expression matched against each added line */
+  pattern: z.string().refine(isValidRegex, 'Invalid regular expression'),
+  /** Files the rule applies to, as glob patterns */
+  paths: z.array(z.string()).default(['**']),
+  /** Files excluded from the rule, as glob patterns */
+  exclude: z.array(z.string()).default([]),
+  severity: SeveritySchema.default('warning'),
+  category: ReviewCategorySchema.default('best-practices'),
+  /** Shown as the issue title */
+  message: z.string(),
+  /** How to fix it, shown as the issue suggestion */
+  fix: z.string().optional(),
+  /** Replacement for the matched text (with $1 references), offered as a one-click suggestion */
+  replace: z.string().optional(),
+});
+
+export type Rule = z.infer<typeof RuleSchema>;
+
 export const LabelConfigSchema = z.object({
   enabled: z.boolean().default(true),
   security_issue: z.string().default('security'),
@@ -33,11 +71,29 @@ export const LabelConfigSchema = z.object({
   effort_prefix: z.string().default('effort:'),
 });
 
+export const GateRuleSchema = z.object({
+  /** Only count issues with this severity (any severity if omitted) */
+  severity: SeveritySchema.optional(),
+  /** Only count issues in this category (any category if omitted) */
+  category: ReviewCategorySchema.optional(),
+  /** Fail when more than this many issues match */
+  max: z.number().int().min(0).default(0),
+});
+
+export type GateRule = z.infer<typeof GateRuleSchema>;
+
+export const FailOnConfigSchema = z.object({
+  rules: z.array(GateRuleSchema).default([]),
+  /** Submit the review as REQUEST_CHANGES instead of COMMENT when the gate fails */
+  request_changes: z.boolean().default(false),
+});
+
 export const OutputConfigSchema = z.object({
   summary: z.boolean().default(true),
   inline_comments: z.boolean().default(true),
   max_inline_comments: z.number().min(1).max(50).default(15),
   labels: LabelConfigSchema.default({}),
+  fail_on: FailOnConfigSchema.default({}),
 });
 
 export const IgnoreConfigSchema = z.object({
@@ -45,24 +101,183 @@ export const IgnoreConfigSchema = z.object({
   authors: z.array(z.string()).default([]),
 });
 
+export const SecretsConfigSchema = z.object({
+  /** Scan added lines for credentials before anything is sent to the model */
+  enabled: z.boolean().default(true),
+  /** Also flag long random-looking strings that match no known key format */
+  high_entropy: z.boolean().default(true),
+  /** Shannon entropy in bits per character above which a string counts as random */
+  entropy_threshold: z.number().min(0).max(8).default(4.5),
+  allowlist: z
+    .object({
+      /** Files never scanned, as glob patterns (e.g. test fixtures) */
+      paths: z.array(z.string()).default([]),
+      /** Regular expressions for values that are not secrets (e.g. documented example keys) */
+      patterns: z.array(z.string()).default([]),
+    })
+    .default({}),
+});
+
+export type SecretsConfig = z.infer<typeof SecretsConfigSchema>;
+
+export const TestsConfigSchema = z.object({
+  /** Send the tests of each changed source file to the model as context */
+  include: z.boolean().default(true),
+  /** Report source files whose logic changed while no test changed (when `testing` is a review category) */
+  report_missing: z.boolean().default(true),
+  severity: SeveritySchema.default('suggestion'),
+  /** Added lines of logic (not blank lines, comments or imports) before a file needs tests */
+  min_changed_lines: z.number().int().min(1).default(10),
+  /** Source files never expected to have tests, as glob patterns */
+  exclude: z.array(z.string()).default([]),
+});
+
+export type TestsConfig = z.infer<typeof TestsConfigSchema>;
+
+/** An issue a pack shows the model as an example of what to report */
+export const PromptExampleSchema = z.object({
+  /** Code that contains the issue */
+  code: z.string(),
+  /** Language of the code, used for the fence */
+  language: z.string().optional(),
+  issue: z.object({
+    severity: SeveritySchema,
+    category: ReviewCategorySchema,
+    title: z.string(),
+    description: z.string(),
+    suggestion: z.string().optional(),
+  }),
+});
+
+export type PromptExample = z.infer<typeof PromptExampleSchema>;
+
+/** Review guidance for one language, framework or kind of file, added to the system prompt */
+export const PromptPackSchema = z.object({
+  id: z.string().regex(/^[\w.-]+$/, 'Pack ids may only contain letters, digits, _, . and -'),
+  name: z.string(),
+  /** Files the pack applies to, as glob patterns */
+  files: z.array(z.string()).default(['**']),
+  /** Languages or frameworks the pack is for: one must be detected, and it replaces their stack checklists */
+  stack: z.array(z.string()).default([]),
+  checklist: z.array(z.string()).default([]),
+  examples: z.array(PromptExampleSchema).default([]),
+});
+
+export type PromptPack = z.infer<typeof PromptPackSchema>;
+
+export const PromptPacksConfigSchema = z.object({
+  /** Use the built-in packs */
+  builtin: z.boolean().default(true),
+  /** Built-in packs never used, by id */
+  disable: z.array(z.string()).default([]),
+  /** Team pack files (YAML) or directories of them, relative to the repository root */
+  paths: z.array(z.string()).default(['.sentinel/packs']),
+});
+
+export type PromptPacksConfig = z.infer<typeof PromptPacksConfigSchema>;
+
+/** Sections of the review prompt, in the order they are sent */
+export const PromptSectionSchema = z.enum([
+  'pull_request',
+  'context',
+  'stack',
+  'patterns',
+  'related_files',
+  'changed_files',
+  'incremental',
+  'diff',
+  'omitted_context',
+  'focus',
+  'instructions',
+]);
+
+export type PromptSection = z.infer<typeof PromptSectionSchema>;
+
+export const PromptsConfigSchema = z.object({
+  /** Template for the quick review system prompt, relative to the repository root */
+  system: z.string().optional(),
+  /** Template for the deep review system prompt */
+  deep_system: z.string().optional(),
+  /** Templates for sections of the review prompt */
+  sections: z.record(PromptSectionSchema, z.string()).default({}),
+});
+
+export type PromptsConfig = z.infer<typeof PromptsConfigSchema>;
+
+export const BaselineConfigSchema = z.object({
+  /** Committed file of accepted issue fingerprints, relative to the repository root */
+  path: z.string().default('.sentinel-baseline.json'),
+});
+
 export const ReviewModeSchema = z.enum(['quick', 'deep']);
 
 export type ReviewMode = z.infer<typeof ReviewModeSchema>;
 
+export const ChunkingConfigSchema = z.object({
+  /** Split large pull requests into groups of files that are reviewed separately */
+  enabled: z.boolean().default(true),
+  /** Pull requests with more changed files than this are split */
+  max_files_per_group: z.number().int().min(1).default(15),
+  /** Groups reviewed at the same time */
+  concurrency: z.number().int().min(1).max(10).default(3),
+});
+
 export const ReviewConfigSchema = z.object({
   categories: z.array(ReviewCategorySchema).default(['security', 'architecture', 'bugs']),
   min_severity: SeveritySchema.default('suggestion'),
   skip_if_effort_below: z.number().min(1).max(5).default(1),
   /** Review mode: 'quick' (single API call) or 'deep' (agentic with tool-use) */
   mode: ReviewModeSchema.default('quick'),
+  /** Only review commits pushed since the last Code Sentinel review */
+  incremental: z.boolean().default(true),
+  /** Upper bound for the prompt size in tokens, even when the model's context window is larger */
+  max_prompt_tokens: z.number().int().positive().default(60000),
+  chunking: ChunkingConfigSchema.default({}),
 });
 
-export const LLMConfigSchema = z.object({
+export const RetryConfigSchema = z.object({
+  /** Attempts per API call, retrying rate limits, overload and server errors */
+  max_attempts: z.number().int().min(1).default(4),
+  initial_delay_ms: z.number().int().min(0).default(1000),
+  max_delay_ms: z.number().int().min(0).default(30000),
+  /** Attempts per review when the model answers with invalid JSON */
+  parse_attempts: z.number().int().min(1).default(2),
+});
+
+export type RetryConfig = z.infer<typeof RetryConfigSchema>;
+
+export const LLMEntrySchema = z.object({
   provider: LLMProviderSchema.default('openai'),
   model: z.string().optional(),
   base_url: z.string().optional(),
+  /** Extra HTTP headers (openai-compatible, azure-openai) */
+  headers: z.record(z.string()).optional(),
+  /** How the API key is sent to an openai-compatible server */
+  auth: z.enum(['bearer', 'api-key', 'none']).optional(),
+  /** Environment variable holding the API key (openai-compatible, azure-openai) */
+  api_key_env: z.string().optional(),
+  /** Azure OpenAI deployment name; defaults to the model */
+  deployment: z.string().optional(),
+  /** Azure OpenAI API version */
+  api_version: z.string().optional(),
+  /** Whether the server supports tool calling for deep mode; detected when unset */
+  tools: z.boolean().optional(),
+  /** Context window in tokens, for models Code Sentinel does not know */
+  context_window: z.number().int().positive().optional(),
 });
 
+export type LLMEntry = z.infer<typeof LLMEntrySchema>;
+
+export const LLMConfigSchema = z.preprocess(
+  // `llm` may be an ordered list: the first entry is the primary, the rest are fallbacks
+  (value) => (Array.isArray(value) ? { ...(value[0] ?? {}), fallbacks: value.slice(1) } : value),
+  LLMEntrySchema.extend({
+    retry: RetryConfigSchema.default({}),
+    /** Tried in order when the primary provider fails */
+    fallbacks: z.array(LLMEntrySchema).default([]),
+  })
+);
+
 // Default AI context files to search for (provider-agnostic)
 export const DEFAULT_CONTEXT_FILES = [
   'CLAUDE.md',
@@ -95,7 +310,13 @@ export const SentinelConfigSchema = z.object({
   ignore: IgnoreConfigSchema.default({}),
   instructions: z.array(z.string()).default([]),
   patterns: z.array(PatternSchema).default([]),
+  rules: z.array(RuleSchema).default([]),
   output: OutputConfigSchema.default({}),
+  secrets: SecretsConfigSchema.default({}),
+  tests: TestsConfigSchema.default({}),
+  baseline: BaselineConfigSchema.default({}),
+  prompt_packs: PromptPacksConfigSchema.default({}),
+  prompts: PromptsConfigSchema.default({}),
   // New provider-agnostic context files config
   context_files: ContextFilesConfigSchema.default({}),
   // Deprecated: kept for backwards compatibility
@@ -1,27 +1,86 @@
 import * as core from '@actions/core';
 import type { ContextFile } from '../config/loader.js';
-import type { SentinelConfig } from '../config/schema.js';
+import type { PromptPack, SentinelConfig } from '../config/schema.js';
+import { getContextWindow } from '../llm/context-window.js';
 import type { LLMProvider, ReviewIssue, ReviewRequest, ReviewResponse } from '../llm/types.js';
-import type { PlatformAdapter, PullRequest } from '../platforms/types.js';
+import type { PlatformAdapter, PullRequest, SkippedFile } from '../platforms/types.js';
+import { selectPromptPacks } from '../prompts/packs.js';
+import type { PromptTemplates } from '../prompts/templates.js';
+import {
+  type FileGroup,
+  type GroupResponse,
+  buildGroupRequest,
+  groupFilesByDirectory,
+  mapWithConcurrency,
+  mergeResponses,
+} from './chunking.js';
 import { ContextCollector } from './context.js';
+import { fingerprintIssue } from './fingerprint.js';
+import {
+  type PackingOptions,
+  type PackingReport,
+  computeBudget,
+  estimateTokens,
+  packReviewRequest,
+  splitDiffByFile,
+} from './packer.js';
+import { runRules } from './rules.js';
+import { redactRequest, scanDiffForSecrets, toSecretIssue } from './secrets.js';
+import { type SuppressedIssues, applySuppressions } from './suppressions.js';
+import { findMissingTests } from './test-files.js';
+import { verifyIssues } from './verification.js';
+
+/** Share of a group's prompt budget used for diffs and changed files, leaving room for the rest */
+const GROUP_CONTENT_SHARE = 0.75;
 
 export interface AnalysisResult {
   response: ReviewResponse;
   filteredIssues: ReviewIssue[];
   skipped: boolean;
   skipReason?: string;
+  /** Head SHA of the previous review when only newer commits were reviewed */
+  incrementalSince?: string;
+  /** How the context was fitted into the model's context window */
+  packing?: PackingReport;
+  /** Changed files without a reviewable diff, e.g. binary files */
+  skippedFiles?: SkippedFile[];
+  /** File groups reviewed separately when the pull request was too large for one review */
+  groups?: FileGroup[];
+  /** Issues left out by `sentinel-ignore` comments or the baseline file */
+  suppressed?: SuppressedIssues;
+  /** Model issues dropped or moved because they did not match the pull request */
+  verification?: VerificationReport;
+}
+
+export interface VerificationReport {
+  /** Issues kept where the model reported them */
+  confirmed: number;
+  dropped: number;
+  relocated: number;
+}
+
+export interface AnalyzerOptions {
+  /** Fingerprints of accepted issues, which are not reported again */
+  baseline?: string[];
+  /** Built-in and team prompt packs to choose from for each review */
+  promptPacks?: PromptPack[];
+  /** Team templates for the system prompts and sections of the review prompt */
+  promptTemplates?: PromptTemplates;
 }
 
 export class ReviewAnalyzer {
   private contextCollector: ContextCollector;
+  private baseline: Set<string>;
 
   constructor(
     platform: PlatformAdapter,
     private llmProvider: LLMProvider,
     private config: SentinelConfig,
-    contextFiles: ContextFile[] = []
+    contextFiles: ContextFile[] = [],
+    private options: AnalyzerOptions = {}
   ) {
     this.contextCollector = new ContextCollector(platform, config, contextFiles);
+    this.baseline = new Set(options.baseline);
   }
 
   async analyze(pr: PullRequest): Promise<AnalysisResult> {
@@ -44,11 +103,46 @@ export class ReviewAnalyzer {
         filteredIssues: [],
         skipped: true,
         skipReason: 'No reviewable files in PR',
+        skippedFiles: context.skippedFiles,
       };
     }
 
+    // Credentials are found without the model and never sent to it
+    const secrets = this.config.secrets;
+    const secretIssues = secrets.enabled
+      ? scanDiffForSecrets(context.diff, secrets).map(toSecretIssue)
+      : [];
+    if (secretIssues.length > 0) {
+      core.warning(`Found ${secretIssues.length} possible secret(s) in added lines`);
+    }
+
+    // Team rules from .sentinel.yml, checked without the model
+    const ruleIssues = runRules(context.diff, this.config.rules);
+    if (ruleIssues.length > 0) {
+      core.info(`Configured rules matched ${ruleIssues.length} line(s)`);
+    }
+
+    // Logic changes without any test change in the pull request
+    const testIssues = findMissingTests(
+      context.diff,
+      pr.files.map((f) => f.filename),
+      context.testPairings,
+      this.config.tests,
+      this.config.review.categories
+    );
+
+    // Review guidance for the kinds of files changed
+    const packs = selectPromptPacks(
+      this.options.promptPacks ?? [],
+      context.changedFiles.map((f) => f.path),
+      context.reviewContext.stack
+    );
+    if (packs.length > 0) {
+      core.info(`Using prompt packs: ${packs.map((p) => p.id).join(', ')}`);
+    }
+
     // Build review request
-    const request: ReviewRequest = {
+    const collected: ReviewRequest = {
       pr: {
         title: pr.title,
         body: pr.body,
@@ -60,32 +154,223 @@ export class ReviewAnalyzer {
       context: context.reviewContext,
       categories: this.config.review.categories,
       reviewMode: this.config.review.mode,
+      incrementalSince: context.incrementalSince,
+      packs,
+      templates: this.options.promptTemplates,
+    };
+    const request = secrets.enabled ? redactRequest(collected, secrets) : collected;
+
+    // Fit the context into the model's context window
+    const packingOptions: PackingOptions = {
+      // A fallback chain reports the smallest window of its providers
+      contextWindow:
+        this.llmProvider.contextWindow ??
+        this.config.llm.context_window ??
+        getContextWindow(this.llmProvider.model),
+      maxPromptTokens: this.config.review.max_prompt_tokens,
+    };
+    const packed = packReviewRequest(request, packingOptions);
+    const groups = this.planGroups(request, packed.report, packingOptions);
+
+    let response: ReviewResponse;
+    let packing: PackingReport;
+
+    if (groups) {
+      ({ response, packing } = await this.analyzeGroups(request, groups, packingOptions));
+    } else {
+      core.info(
+        `Prompt size: ~${packed.report.usedTokens} of ${packed.report.budgetTokens} tokens, ${packed.report.omitted.length} item(s) omitted`
+      );
+
+      // Get LLM analysis
+      core.info(`Analyzing PR with ${this.llmProvider.name}...`);
+      response = await this.llmProvider.analyze(packed.request);
+      packing = packed.report;
+    }
+
+    for (const issue of response.issues) {
+      issue.source = 'llm';
+    }
+
+    // Issues on removed code may name a renamed file by its old path
+    const renamed = new Map(
+      pr.files.filter((f) => f.previousFilename).map((f) => [f.previousFilename, f.filename])
+    );
+    for (const issue of response.issues) {
+      issue.file = renamed.get(issue.file) || issue.file;
+    }
+
+    // Models report files outside the pull request and drift off the line they describe
+    const contents = new Map(context.changedFiles.map((f) => [f.path, f.content]));
+    const verified = verifyIssues(response.issues, {
+      paths: [...splitDiffByFile(context.diff).keys()],
+      contents,
+    });
+    for (const { issue, reason } of verified.dropped) {
+      core.info(`Dropped issue "${issue.title}": ${reason}`);
+    }
+    const verification: VerificationReport = {
+      confirmed: verified.issues.length - verified.relocated,
+      dropped: verified.dropped.length,
+      relocated: verified.relocated,
+    };
+    if (verification.dropped + verification.relocated > 0) {
+      core.info(
+        `Verified issues against the pull request: ${verification.confirmed} confirmed, ${verification.dropped} dropped, ${verification.relocated} relocated`
+      );
+    }
+
+    // The model only saw placeholders for secrets, so its own reports on those lines are dropped
+    const flagged = new Set(secretIssues.map((i) => `${i.file}:${i.line}`));
+    response = {
+      ...response,
+      issues: [
+        ...secretIssues,
+        ...ruleIssues,
+        ...testIssues,
+        ...verified.issues.filter(
+          (i) => i.category !== 'security' || !flagged.has(`${i.file}:${i.line}`)
+        ),
+      ],
     };
 
-    // Get LLM analysis
-    core.info(`Analyzing PR with ${this.llmProvider.name}...`);
-    const response = await this.llmProvider.analyze(request);
+    // Filter issues by severity
+    const reported = this.filterBySeverity(response.issues);
+
+    // Fingerprint issues so later runs can recognise them
+    for (const issue of reported) {
+      // The current content says nothing about removed lines
+      const content = issue.side === 'old' ? undefined : contents.get(issue.file);
+      issue.fingerprint = fingerprintIssue(issue, content);
+    }
+
+    // Findings the team has accepted, in the code or in the committed baseline
+    const { issues: filteredIssues, suppressed } = applySuppressions(
+      reported,
+      contents,
+      this.baseline
+    );
+    if (suppressed.inline.length + suppressed.baseline.length > 0) {
+      core.info(
+        `Suppressed ${suppressed.inline.length} issue(s) by sentinel-ignore comments and ${suppressed.baseline.length} by the baseline`
+      );
+    }
 
-    // Check effort threshold
-    if (response.effortScore < this.config.review.skip_if_effort_below) {
+    // Check effort threshold; deterministic findings are reported however small the PR
+    if (
+      response.effortScore < this.config.review.skip_if_effort_below &&
+      !filteredIssues.some((i) => i.source !== 'llm')
+    ) {
       return {
         response,
         filteredIssues: [],
         skipped: true,
         skipReason: `PR effort score (${response.effortScore}) below threshold (${this.config.review.skip_if_effort_below})`,
+        packing,
+        groups,
+        skippedFiles: context.skippedFiles,
+        suppressed,
+        verification,
       };
     }
 
-    // Filter issues by severity
-    const filteredIssues = this.filterBySeverity(response.issues);
-
     return {
       response,
       filteredIssues,
       skipped: false,
+      incrementalSince: context.incrementalSince,
+      packing,
+      groups,
+      skippedFiles: context.skippedFiles,
+      suppressed,
+      verification,
     };
   }
 
+  /**
+   * Split the pull request into file groups when it has too many files or its
+   * diff and changed files do not fit in one prompt.
+   * Returns undefined when a single review is enough.
+   */
+  private planGroups(
+    request: ReviewRequest,
+    report: PackingReport,
+    options: PackingOptions
+  ): FileGroup[] | undefined {
+    const chunking = this.config.review.chunking;
+    const overflows = report.omitted.some((o) => o.kind === 'diff' || o.kind === 'file');
+
+    if (
+      !chunking.enabled ||
+      (request.changedFiles.length <= chunking.max_files_per_group && !overflows)
+    ) {
+      return undefined;
+    }
+
+    const diffByPath = splitDiffByFile(request.diff);
+    const groups = groupFilesByDirectory(
+      request.changedFiles.map((f) => ({
+        path: f.path,
+        tokens: estimateTokens(diffByPath.get(f.path) || '') + estimateTokens(f.content),
+      })),
+      {
+        maxFiles: chunking.max_files_per_group,
+        maxTokens: Math.floor(computeBudget(request, options) * GROUP_CONTENT_SHARE),
+      }
+    );
+
+    return groups.length > 1 ? groups : undefined;
+  }
+
+  private async analyzeGroups(
+    request: ReviewRequest,
+    groups: FileGroup[],
+    options: PackingOptions
+  ): Promise<{ response: ReviewResponse; packing: PackingReport }> {
+    const diffByPath = splitDiffByFile(request.diff);
+    const concurrency = this.config.review.chunking.concurrency;
+
+    core.info(
+      `Analyzing PR with ${this.llmProvider.name} in ${groups.length} groups of files (${concurrency} at a time)...`
+    );
+
+    const results = await mapWithConcurrency(groups, concurrency, async (group, index) => {
+      const packed = packReviewRequest(buildGroupRequest(request, group, diffByPath), options);
+      core.info(
+        `Group ${index + 1}/${groups.length} (${group.label}): ~${packed.report.usedTokens} of ${packed.report.budgetTokens} tokens, ${packed.report.omitted.length} item(s) omitted`
+      );
+
+      return { group, packed, response: await this.llmProvider.analyze(packed.request) };
+    });
+
+    const packing: PackingReport = { budgetTokens: 0, usedTokens: 0, omitted: [] };
+    const reviewed: GroupResponse[] = [];
+
+    for (const [index, result] of results.entries()) {
+      if (result.status === 'fulfilled') {
+        const { group, packed, response } = result.value;
+        reviewed.push({ group, response });
+        packing.budgetTokens = Math.max(packing.budgetTokens, packed.report.budgetTokens);
+        packing.usedTokens += packed.report.usedTokens;
+        packing.omitted.push(...packed.report.omitted);
+      } else {
+        const group = groups[index];
+        core.warning(`Review of group ${group.label} failed: ${result.reason}`);
+        packing.omitted.push(
+          ...group.paths.map((p) => ({ kind: 'file' as const, path: p, detail: 'review failed' }))
+        );
+      }
+    }
+
+    // Nothing was reviewed: report the failure instead of an empty review
+    if (reviewed.length === 0) {
+      const failure = results.find((r) => r.status === 'rejected');
+      throw failure?.status === 'rejected' ? failure.reason : new Error('No file group reviewed');
+    }
+
+    return { response: mergeResponses(reviewed), packing };
+  }
+
   private filterBySeverity(issues: ReviewIssue[]): ReviewIssue[] {
     const severityOrder = ['critical', 'warning', 'suggestion', 'nitpick'];
     const minIndex = severityOrder.indexOf(this.config.review.min_severity);
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import type { ReviewIssue } from '../llm/types.js';
+import { buildBaseline, parseBaseline } from './baseline.js';
+
+const issue = (file: string, fingerprint?: string): ReviewIssue => ({
+  severity: 'warning',
+  category: 'bugs',
+  file,
+  line: 1,
+  title: `Issue in ${file}`,
+  description: 'Description',
+  fingerprint,
+});
+
+describe('buildBaseline', () => {
+  it('should list each fingerprint once, sorted by file', () => {
+    const baseline = buildBaseline(
+      [issue('src/b.ts', 'bbb'), issue('src/a.ts', 'aaa'), issue('src/b.ts', 'bbb')],
+      new Date('2026-01-01T00:00:00Z')
+    );
+
+    expect(baseline).toEqual({
+      version: 1,
+      generatedAt: '2026-01-01T00:00:00.000Z',
+      issues: [
+        { fingerprint: 'aaa', file: 'src/a.ts', title: 'Issue in src/a.ts' },
+        { fingerprint: 'bbb', file: 'src/b.ts', title: 'Issue in src/b.ts' },
+      ],
+    });
+  });
+
+  it('should skip issues without a fingerprint', () => {
+    expect(buildBaseline([issue('src/a.ts')]).issues).toEqual([]);
+  });
+});
+
+describe('parseBaseline', () => {
+  it('should read back the fingerprints of a built baseline', () => {
+    const baseline = buildBaseline([issue('src/a.ts', 'aaa'), issue('src/b.ts', 'bbb')]);
+
+    expect(parseBaseline(JSON.stringify(baseline))).toEqual(['aaa', 'bbb']);
+  });
+
+  it('should reject content that is not a baseline', () => {
+    expect(() => parseBaseline('[]')).toThrow('"issues" array');
+    expect(() => parseBaseline('not json')).toThrow();
+  });
+});
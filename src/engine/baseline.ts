@@ -0,0 +1,88 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as core from '@actions/core';
+import type { ReviewIssue } from '../llm/types.js';
+
+export const BASELINE_VERSION = 1;
+
+/**
+ * Issues a team has accepted, committed to the repository (`baseline.path`).
+ * Regenerated with `code-sentinel baseline`.
+ */
+export interface Baseline {
+  version: typeof BASELINE_VERSION;
+  /** ISO 8601 time the baseline was generated */
+  generatedAt: string;
+  issues: BaselineEntry[];
+}
+
+/** File and title are only there to make the baseline readable in diffs */
+export interface BaselineEntry {
+  fingerprint: string;
+  file: string;
+  title: string;
+}
+
+/**
+ * Build a baseline from fingerprinted issues, sorted so regenerating it gives small diffs.
+ */
+export function buildBaseline(issues: ReviewIssue[], generatedAt = new Date()): Baseline {
+  const entries = new Map<string, BaselineEntry>();
+
+  for (const issue of issues) {
+    if (issue.fingerprint && !entries.has(issue.fingerprint)) {
+      entries.set(issue.fingerprint, {
+        fingerprint: issue.fingerprint,
+        file: issue.file,
+        title: issue.title,
+      });
+    }
+  }
+
+  return {
+    version: BASELINE_VERSION,
+    generatedAt: generatedAt.toISOString(),
+    issues: [...entries.values()].sort(
+      (a, b) => a.file.localeCompare(b.file) || a.fingerprint.localeCompare(b.fingerprint)
+    ),
+  };
+}
+
+/**
+ * Read the fingerprints of a baseline file's content.
+ * Throws when the content is not a baseline.
+ */
+export function parseBaseline(content: string): string[] {
+  const parsed = JSON.parse(content) as Partial<Baseline>;
+
+  if (!parsed || !Array.isArray(parsed.issues)) {
+    throw new Error('expected an object with an "issues" array');
+  }
+
+  return parsed.issues
+    .map((entry) => entry?.fingerprint)
+    .filter((fingerprint): fingerprint is string => typeof fingerprint === 'string');
+}
+
+/**
+ * Read the fingerprints in a baseline file. A missing file is an empty baseline.
+ */
+export function readBaselineFile(filePath: string): string[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  try {
+    const fingerprints = parseBaseline(fs.readFileSync(filePath, 'utf-8'));
+    core.info(`Loaded ${fingerprints.length} baseline issue(s) from ${filePath}`);
+    return fingerprints;
+  } catch (error) {
+    core.warning(`Ignoring invalid baseline file ${filePath}: ${error}`);
+    return [];
+  }
+}
+
+export function writeBaselineFile(filePath: string, baseline: Baseline): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(baseline, null, 2)}\n`);
+}
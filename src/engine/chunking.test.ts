@@ -0,0 +1,218 @@
+import { describe, expect, it } from 'vitest';
+import type { ReviewIssue, ReviewRequest } from '../llm/types.js';
+import { BUILTIN_PROMPT_PACKS } from '../prompts/packs.js';
+import {
+  buildGroupRequest,
+  groupFilesByDirectory,
+  mapWithConcurrency,
+  mergeResponses,
+} from './chunking.js';
+import { splitDiffByFile } from './packer.js';
+
+const createIssue = (overrides: Partial<ReviewIssue> = {}): ReviewIssue => ({
+  severity: 'warning',
+  category: 'bugs',
+  file: 'src/a.ts',
+  line: 10,
+  title: 'Missing null check',
+  description: 'value may be null',
+  ...overrides,
+});
+
+describe('groupFilesByDirectory', () => {
+  const files = (paths: string[], tokens = 100) => paths.map((path) => ({ path, tokens }));
+
+  it('should keep files of a directory together', () => {
+    const groups = groupFilesByDirectory(
+      files(['src/api/a.ts', 'lib/x.ts', 'src/api/b.ts', 'lib/y.ts']),
+      { maxFiles: 2, maxTokens: 10_000 }
+    );
+
+    expect(groups.map((g) => g.paths)).toEqual([
+      ['lib/x.ts', 'lib/y.ts'],
+      ['src/api/a.ts', 'src/api/b.ts'],
+    ]);
+    expect(groups[0].label).toBe('lib');
+  });
+
+  it('should start a new group instead of splitting a directory that fits in one', () => {
+    const groups = groupFilesByDirectory(files(['a/1.ts', 'b/1.ts', 'b/2.ts']), {
+      maxFiles: 2,
+      maxTokens: 10_000,
+    });
+
+    expect(groups.map((g) => g.paths)).toEqual([['a/1.ts'], ['b/1.ts', 'b/2.ts']]);
+  });
+
+  it('should split directories that are larger than a group', () => {
+    const groups = groupFilesByDirectory(files(['a/1.ts', 'a/2.ts', 'a/3.ts'], 400), {
+      maxFiles: 10,
+      maxTokens: 1000,
+    });
+
+    expect(groups.map((g) => g.paths.length)).toEqual([2, 1]);
+  });
+
+  it('should summarise many directories in the label', () => {
+    const [group] = groupFilesByDirectory(files(['a/x.ts', 'b/x.ts', 'c/x.ts', 'd/x.ts']), {
+      maxFiles: 10,
+      maxTokens: 10_000,
+    });
+
+    expect(group.label).toBe('a, b, c +1 more');
+  });
+});
+
+describe('buildGroupRequest', () => {
+  it('should keep only the diff and files of the group', () => {
+    const diff = [
+      'diff --git a/src/a.ts b/src/a.ts',
+      '@@ -1,1 +1,1 @@',
+      '-old',
+      '+new a',
+      'diff --git a/lib/b.ts b/lib/b.ts',
+      '@@ -1,1 +1,1 @@',
+      '-old',
+      '+new b',
+    ].join('\n');
+    const request: ReviewRequest = {
+      pr: { title: 'Update', body: '', author: 'alice' },
+      diff,
+      changedFiles: [
+        { path: 'src/a.ts', content: 'a', role: 'changed' },
+        { path: 'lib/b.ts', content: 'b', role: 'changed' },
+      ],
+      relatedFiles: [
+        { path: 'src/c.ts', content: 'c', role: 'sibling' },
+        { path: 'lib/d.ts', content: 'd', role: 'sibling' },
+      ],
+      context: { contextFiles: [], instructions: [], patterns: [] },
+      categories: ['bugs'],
+      reviewMode: 'quick',
+      packs: BUILTIN_PROMPT_PACKS.filter((p) => ['typescript-react', 'terraform'].includes(p.id)),
+    };
+
+    const group = buildGroupRequest(
+      request,
+      { label: 'src', paths: ['src/a.ts'] },
+      splitDiffByFile(diff)
+    );
+
+    expect(group.diff).toContain('+new a');
+    expect(group.diff).not.toContain('+new b');
+    expect(group.changedFiles.map((f) => f.path)).toEqual(['src/a.ts']);
+    expect(group.relatedFiles.map((f) => f.path)).toEqual(['src/c.ts']);
+    expect(group.packs?.map((p) => p.id)).toEqual(['typescript-react']);
+  });
+
+  it('should keep related files with the changed files they were included for', () => {
+    const diff = ['diff --git a/src/a.ts b/src/a.ts', 'diff --git a/lib/b.ts b/lib/b.ts'].join(
+      '\n'
+    );
+    const request: ReviewRequest = {
+      pr: { title: 'Update', body: '', author: 'alice' },
+      diff,
+      changedFiles: [
+        { path: 'src/a.ts', content: 'a', role: 'changed' },
+        { path: 'lib/b.ts', content: 'b', role: 'changed' },
+      ],
+      relatedFiles: [
+        { path: 'db/client.ts', content: 'c', role: 'import', relatedTo: ['src/a.ts'] },
+        { path: 'src/util.ts', content: 'u', role: 'import', relatedTo: ['lib/b.ts'] },
+        { path: 'test/a.test.ts', content: 't', role: 'test', relatedTo: ['src/a.ts', 'lib/b.ts'] },
+      ],
+      context: { contextFiles: [], instructions: [], patterns: [] },
+      categories: ['bugs'],
+      reviewMode: 'quick',
+    };
+
+    const group = buildGroupRequest(
+      request,
+      { label: 'src', paths: ['src/a.ts'] },
+      splitDiffByFile(diff)
+    );
+
+    expect(group.relatedFiles.map((f) => f.path)).toEqual(['db/client.ts', 'test/a.test.ts']);
+  });
+});
+
+describe('mergeResponses', () => {
+  it('should deduplicate issues and keep the most severe', () => {
+    const merged = mergeResponses([
+      {
+        group: { label: 'src', paths: ['src/a.ts'] },
+        response: { summary: 'Looks fine.', effortScore: 2, issues: [createIssue()] },
+      },
+      {
+        group: { label: 'lib', paths: ['lib/b.ts', 'lib/c.ts'] },
+        response: {
+          summary: 'One bug.',
+          effortScore: 4,
+          issues: [
+            createIssue({ severity: 'critical', title: 'Missing null-check' }),
+            createIssue({ file: 'lib/b.ts' }),
+          ],
+        },
+      },
+    ]);
+
+    expect(merged.effortScore).toBe(4);
+    expect(merged.issues).toHaveLength(2);
+    expect(merged.issues[0].severity).toBe('critical');
+    expect(merged.summary).toContain('reviewed in 2 groups');
+    expect(merged.summary).toContain('- **src** (1 file): Looks fine.');
+    expect(merged.summary).toContain('- **lib** (2 files): One bug.');
+  });
+
+  it('should list each provider that answered a group once', () => {
+    const openai = { name: 'openai', model: 'gpt-4o' };
+    const ollama = { name: 'ollama', model: 'llama3' };
+    const answered = (label: string, providers: (typeof openai)[]) => ({
+      group: { label, paths: [`${label}/a.ts`] },
+      response: { summary: 'Done.', effortScore: 1 as const, issues: [], providers },
+    });
+
+    const merged = mergeResponses([
+      answered('src', [openai]),
+      answered('lib', [ollama]),
+      answered('app', [openai]),
+    ]);
+
+    expect(merged.providers).toEqual([openai, ollama]);
+  });
+
+  it('should return a single response unchanged', () => {
+    const response = { summary: 'Done.', effortScore: 1 as const, issues: [] };
+
+    expect(mergeResponses([{ group: { label: 'src', paths: [] }, response }])).toBe(response);
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('should limit the calls in flight and keep the order of results', async () => {
+    let active = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+
+      if (n === 3) {
+        throw new Error('boom');
+      }
+      return n * 10;
+    });
+
+    expect(peak).toBe(2);
+    expect(results.map((r) => r.status)).toEqual([
+      'fulfilled',
+      'fulfilled',
+      'rejected',
+      'fulfilled',
+      'fulfilled',
+    ]);
+    expect(results[4]).toEqual({ status: 'fulfilled', value: 50 });
+  });
+});
@@ -0,0 +1,206 @@
+import * as path from 'node:path';
+import type { ReviewIssue, ReviewRequest, ReviewResponse } from '../llm/types.js';
+import { packAppliesTo } from '../prompts/packs.js';
+
+export interface FileGroup {
+  /** Directories covered by the group, for the summary */
+  label: string;
+  paths: string[];
+}
+
+export interface GroupLimits {
+  maxFiles: number;
+  /** Estimated tokens of diff and file content per group */
+  maxTokens: number;
+}
+
+export interface GroupResponse {
+  group: FileGroup;
+  response: ReviewResponse;
+}
+
+const SEVERITY_ORDER = ['critical', 'warning', 'suggestion', 'nitpick'];
+
+/**
+ * Split files into groups that each fit the limits, keeping files of the same
+ * directory together where possible.
+ *
+ * @param files - Paths with their estimated token cost
+ */
+export function groupFilesByDirectory(
+  files: { path: string; tokens: number }[],
+  limits: GroupLimits
+): FileGroup[] {
+  const byDirectory = new Map<string, { path: string; tokens: number }[]>();
+
+  for (const file of files) {
+    const dir = path.posix.dirname(file.path);
+    byDirectory.set(dir, [...(byDirectory.get(dir) || []), file]);
+  }
+
+  const groups: { path: string; tokens: number }[][] = [];
+  let current: { path: string; tokens: number }[] = [];
+  let currentTokens = 0;
+
+  const fitsCurrent = (count: number, tokens: number) =>
+    current.length + count <= limits.maxFiles && currentTokens + tokens <= limits.maxTokens;
+
+  const closeCurrent = () => {
+    if (current.length > 0) {
+      groups.push(current);
+    }
+    current = [];
+    currentTokens = 0;
+  };
+
+  // Sorted so nested directories end up next to their parents
+  for (const dir of [...byDirectory.keys()].sort()) {
+    const dirFiles = (byDirectory.get(dir) || []).sort((a, b) => a.path.localeCompare(b.path));
+    const dirTokens = dirFiles.reduce((sum, f) => sum + f.tokens, 0);
+
+    // Start a new group rather than splitting a directory that would fit in one
+    if (
+      !fitsCurrent(dirFiles.length, dirTokens) &&
+      dirFiles.length <= limits.maxFiles &&
+      dirTokens <= limits.maxTokens
+    ) {
+      closeCurrent();
+    }
+
+    for (const file of dirFiles) {
+      if (!fitsCurrent(1, file.tokens)) {
+        closeCurrent();
+      }
+      current.push(file);
+      currentTokens += file.tokens;
+    }
+  }
+  closeCurrent();
+
+  return groups.map((group) => ({
+    label: describeDirectories(group.map((f) => f.path)),
+    paths: group.map((f) => f.path),
+  }));
+}
+
+/**
+ * Narrow a review request to the files of one group.
+ *
+ * @param diffByPath - Per-file diffs, see splitDiffByFile
+ */
+export function buildGroupRequest(
+  request: ReviewRequest,
+  group: FileGroup,
+  diffByPath: Map<string, string>
+): ReviewRequest {
+  const paths = new Set(group.paths);
+  const directories = new Set(group.paths.map((p) => path.posix.dirname(p)));
+
+  return {
+    ...request,
+    diff: group.paths
+      .map((p) => diffByPath.get(p))
+      .filter((d): d is string => !!d)
+      .join('\n'),
+    changedFiles: request.changedFiles.filter((f) => paths.has(f.path)),
+    // Related files are only useful next to the files they were included for
+    relatedFiles: request.relatedFiles.filter((f) =>
+      f.relatedTo
+        ? f.relatedTo.some((p) => paths.has(p))
+        : directories.has(path.posix.dirname(f.path))
+    ),
+    packs: request.packs?.filter((p) => group.paths.some((f) => packAppliesTo(p, f))),
+  };
+}
+
+/**
+ * Combine the reviews of all groups into one response: issues are deduplicated,
+ * the effort score is the highest of any group and the summary lists each group.
+ */
+export function mergeResponses(results: GroupResponse[]): ReviewResponse {
+  if (results.length === 1) {
+    return results[0].response;
+  }
+
+  const issues = new Map<string, ReviewIssue>();
+
+  for (const { response } of results) {
+    for (const issue of response.issues) {
+      const key = issueKey(issue);
+      const existing = issues.get(key);
+
+      if (
+        !existing ||
+        SEVERITY_ORDER.indexOf(issue.severity) < SEVERITY_ORDER.indexOf(existing.severity)
+      ) {
+        issues.set(key, issue);
+      }
+    }
+  }
+
+  const effortScore = Math.max(...results.map((r) => r.response.effortScore)) as 1 | 2 | 3 | 4 | 5;
+
+  const summary = [
+    `This pull request was reviewed in ${results.length} groups of files.`,
+    '',
+    ...results.map(
+      ({ group, response }) =>
+        `- **${group.label}** (${group.paths.length} file${group.paths.length === 1 ? '' : 's'}): ${response.summary}`
+    ),
+  ].join('\n');
+
+  // Groups may have been answered by different providers of a fallback chain
+  const providers = new Map(
+    results
+      .flatMap((r) => r.response.providers ?? [])
+      .map((p) => [`${p.name}\0${p.model ?? ''}`, p] as const)
+  );
+
+  return {
+    summary,
+    effortScore,
+    issues: [...issues.values()],
+    ...(providers.size > 0 ? { providers: [...providers.values()] } : {}),
+  };
+}
+
+/**
+ * Run `fn` over all items with at most `limit` calls in flight, collecting every outcome.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function issueKey(issue: ReviewIssue): string {
+  const title = issue.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+  return [issue.file, issue.line ?? '', issue.category, title].join('|');
+}
+
+function describeDirectories(paths: string[]): string {
+  const directories = [...new Set(paths.map((p) => path.posix.dirname(p)))];
+  const shown = directories.slice(0, 3).join(', ');
+
+  return directories.length > 3 ? `${shown} +${directories.length - 3} more` : shown;
+}
@@ -1,6 +1,6 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import type { ContextFile } from '../config/loader.js';
-import type { SentinelConfig } from '../config/schema.js';
+import { type SentinelConfig, TestsConfigSchema } from '../config/schema.js';
 import type { ChangedFile, PlatformAdapter, PullRequest } from '../platforms/types.js';
 import { ContextCollector } from './context.js';
 
@@ -38,6 +38,7 @@ const createMockConfig = (overrides: Partial<SentinelConfig> = {}): SentinelConf
       effort_prefix: 'effort:',
     },
   },
+  tests: TestsConfigSchema.parse({}),
   context_files: { enabled: true, search_defaults: true },
   claude_md: { enabled: true },
   ...overrides,
@@ -102,6 +103,37 @@ describe('ContextCollector', () => {
       expect(context.changedFiles).toHaveLength(1);
       expect(context.changedFiles[0].path).toBe('src/index.ts');
     });
+
+    it('should exclude files without a reviewable diff and report them', async () => {
+      const config = createMockConfig({ ignore: { paths: ['docs/**'], authors: [] } });
+      collector = new ContextCollector(mockPlatform, config);
+
+      const pr = {
+        ...createMockPR([
+          {
+            filename: 'src/index.ts',
+            status: 'modified',
+            additions: 1,
+            deletions: 0,
+            patch: '@@ -1,0 +1,1 @@\n+added',
+          },
+          { filename: 'assets/logo.png', status: 'modified', additions: 0, deletions: 0 },
+          { filename: 'docs/diagram.png', status: 'added', additions: 0, deletions: 0 },
+        ]),
+        skippedFiles: [
+          { path: 'assets/logo.png', reason: 'binary file' },
+          { path: 'docs/diagram.png', reason: 'binary file' },
+        ],
+      };
+
+      vi.mocked(mockPlatform.getFileContent).mockResolvedValue('const x = 1;');
+      vi.mocked(mockPlatform.getFilesInDirectory).mockResolvedValue([]);
+
+      const context = await collector.collect(pr);
+
+      expect(context.changedFiles.map((f) => f.path)).toEqual(['src/index.ts']);
+      expect(context.skippedFiles).toEqual([{ path: 'assets/logo.png', reason: 'binary file' }]);
+    });
   });
 
   describe('buildDiff', () => {
@@ -137,6 +169,78 @@ describe('ContextCollector', () => {
       expect(context.diff).toContain('+new');
       expect(context.diff).toContain('+added');
     });
+
+    it('should name the previous path of renamed files', async () => {
+      const config = createMockConfig({ ignore: { paths: [], authors: [] } });
+      collector = new ContextCollector(mockPlatform, config);
+
+      const pr = createMockPR([
+        {
+          filename: 'src/new-name.ts',
+          previousFilename: 'src/old-name.ts',
+          status: 'renamed',
+          additions: 1,
+          deletions: 1,
+          patch: '@@ -1,1 +1,1 @@\n-old\n+new',
+        },
+      ]);
+
+      vi.mocked(mockPlatform.getFileContent).mockResolvedValue('const x = 1;');
+      vi.mocked(mockPlatform.getFilesInDirectory).mockResolvedValue([]);
+
+      const context = await collector.collect(pr);
+
+      expect(context.diff).toContain('diff --git a/src/old-name.ts b/src/new-name.ts');
+    });
+  });
+
+  describe('incremental', () => {
+    it('should only send hunks changed since the last review', async () => {
+      const config = createMockConfig({ ignore: { paths: [], authors: [] } });
+      collector = new ContextCollector(mockPlatform, config);
+
+      const pr: PullRequest = {
+        ...createMockPR([
+          {
+            filename: 'src/a.ts',
+            status: 'modified',
+            additions: 1,
+            deletions: 1,
+            patch: '@@ -1,1 +1,1 @@\n-old\n+new',
+          },
+          {
+            filename: 'src/b.ts',
+            status: 'modified',
+            additions: 1,
+            deletions: 0,
+            patch: '@@ -1,0 +1,1 @@\n+added',
+          },
+        ]),
+        incremental: {
+          sinceRef: 'abc1234567',
+          files: [
+            {
+              filename: 'src/b.ts',
+              status: 'modified',
+              additions: 1,
+              deletions: 0,
+              patch: '@@ -1,1 +1,2 @@\n+latest',
+            },
+          ],
+        },
+      };
+
+      vi.mocked(mockPlatform.getFileContent).mockResolvedValue('const x = 1;');
+      vi.mocked(mockPlatform.getFilesInDirectory).mockResolvedValue([]);
+
+      const context = await collector.collect(pr);
+
+      expect(context.incrementalSince).toBe('abc1234567');
+      expect(context.changedFiles.map((f) => f.path)).toEqual(['src/b.ts']);
+      expect(context.diff).toContain('+latest');
+      expect(context.diff).not.toContain('src/a.ts');
+      expect(context.diff).not.toContain('+added');
+    });
   });
 
   describe('collectChangedFiles', () => {
@@ -178,6 +282,75 @@ describe('ContextCollector', () => {
     });
   });
 
+  describe('collectRelatedFiles', () => {
+    const repo: Record<string, string> = {
+      'src/api/users.ts': [
+        "import { findUser } from '../db/users.js';",
+        '',
+        'export function getUser(id: string) {',
+        '  return findUser(id);',
+        '}',
+      ].join('\n'),
+      'src/db/users.ts': [
+        "import { sql } from './client.js';",
+        '',
+        'export function findUser(id: string) {',
+        '  return sql`SELECT * FROM users WHERE id = ${id}`;',
+        '}',
+        '',
+        'export function deleteUser(id: string) {',
+        '  return sql`DELETE FROM users WHERE id = ${id}`;',
+        '}',
+      ].join('\n'),
+      'src/routes/profile.ts': [
+        "import { getUser } from '../api/users.js';",
+        '',
+        'export const profile = (id: string) => getUser(id);',
+      ].join('\n'),
+      'src/api/orders.ts': 'export const orders = [];',
+      'src/api/users.test.ts': "import { getUser } from './users.js';",
+    };
+
+    it('should add tests, imported definitions and dependents ranked before siblings', async () => {
+      const config = createMockConfig({ ignore: { paths: [], authors: [] } });
+      collector = new ContextCollector(mockPlatform, config);
+
+      const pr = createMockPR([
+        {
+          filename: 'src/api/users.ts',
+          status: 'modified',
+          additions: 1,
+          deletions: 1,
+          patch:
+            '@@ -3,3 +3,3 @@\n export function getUser(id: string) {\n-  return null;\n+  return findUser(id);\n }',
+        },
+      ]);
+
+      vi.mocked(mockPlatform.getFileContent).mockImplementation(async (p) => repo[p] ?? null);
+      vi.mocked(mockPlatform.getFilesInDirectory).mockImplementation(async (dir) =>
+        dir === '.' ? Object.keys(repo) : ['src/api/orders.ts', 'src/api/users.ts']
+      );
+
+      const context = await collector.collect(pr);
+
+      expect(context.testPairings).toEqual([
+        { source: 'src/api/users.ts', tests: ['src/api/users.test.ts'] },
+      ]);
+      expect(context.relatedFiles.map((f) => [f.path, f.role, f.reason])).toEqual([
+        ['src/api/users.test.ts', 'test', 'tests src/api/users.ts'],
+        ['src/db/users.ts', 'import', 'defines findUser used by src/api/users.ts'],
+        ['src/routes/profile.ts', 'import', 'uses getUser changed in src/api/users.ts'],
+        ['src/api/orders.ts', 'sibling', undefined],
+      ]);
+      expect(context.relatedFiles.every((f) => f.relatedTo?.[0] === 'src/api/users.ts')).toBe(true);
+      expect(context.relatedFiles[1].content).toContain('export function findUser');
+      expect(context.relatedFiles[1].content).not.toContain('deleteUser');
+      expect(context.relatedFiles[2].content).toContain(
+        '3: export const profile = (id: string) => getUser(id);'
+      );
+    });
+  });
+
   describe('reviewContext', () => {
     it('should include instructions and patterns from config', async () => {
       const config = createMockConfig({
@@ -208,5 +381,32 @@ describe('ContextCollector', () => {
       expect(context.reviewContext.patterns).toHaveLength(1);
       expect(context.reviewContext.patterns[0].pattern).toBe('Use camelCase');
     });
+
+    it('should detect the stack from manifests and file extensions', async () => {
+      const config = createMockConfig({ ignore: { paths: [], authors: [] } });
+      collector = new ContextCollector(mockPlatform, config);
+
+      const pr = createMockPR([
+        { filename: 'app/views.py', status: 'modified', additions: 3, deletions: 1 },
+      ]);
+      const repo: Record<string, string> = {
+        'app/views.py': 'def index(request): ...',
+        'app/models.py': 'class User: ...',
+        'requirements.txt': 'Django==5.0\npytest==8.0',
+      };
+
+      vi.mocked(mockPlatform.getFileContent).mockImplementation(async (p) => repo[p] ?? null);
+      vi.mocked(mockPlatform.getFilesInDirectory).mockImplementation(async (dir) =>
+        dir === '.' ? Object.keys(repo) : []
+      );
+
+      const context = await collector.collect(pr);
+
+      expect(context.reviewContext.stack).toEqual({
+        languages: ['Python'],
+        frameworks: ['Django'],
+        testRunners: ['pytest'],
+      });
+    });
   });
 });
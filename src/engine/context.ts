@@ -3,14 +3,54 @@ import * as core from '@actions/core';
 import { minimatch } from 'minimatch';
 import type { ContextFile } from '../config/loader.js';
 import type { SentinelConfig } from '../config/schema.js';
-import type { AIContextFile, FileContext, ReviewContext } from '../llm/types.js';
-import type { ChangedFile, PlatformAdapter, PullRequest } from '../platforms/types.js';
+import type { AIContextFile, CodebaseStack, FileContext, ReviewContext } from '../llm/types.js';
+import type { ChangedFile, PlatformAdapter, PullRequest, SkippedFile } from '../platforms/types.js';
+import { listAddedLines } from './diff-lines.js';
+import {
+  type ResolveOptions,
+  extractDefinitions,
+  extractUsages,
+  findChangedExports,
+  languageOf,
+  parseGoModule,
+  parseImports,
+  parseTsConfig,
+  resolveImport,
+} from './imports.js';
+import { detectStack, isManifest } from './stack.js';
+import { type TestPairing, findTestFiles } from './test-files.js';
+
+/** Related files sent to the model, most relevant first */
+const MAX_RELATED_FILES = 8;
+
+/** Same-directory files added as pattern references */
+const MAX_SIBLING_FILES = 5;
+
+/** Files read when looking for code that imports the changed files */
+const MAX_SCANNED_FILES = 400;
+
+// Relevance of each kind of related file: the tests of the changes rank first
+const TEST_SCORE = 4;
+const IMPORT_SCORE = 3;
+const DEPENDENT_SCORE = 2;
+const SIBLING_SCORE = 1;
+
+interface RelatedCandidate {
+  file: FileContext;
+  score: number;
+}
 
 export interface CollectedContext {
   changedFiles: FileContext[];
   relatedFiles: FileContext[];
   reviewContext: ReviewContext;
   diff: string;
+  /** Head SHA of the previous review when only newer commits are reviewed */
+  incrementalSince?: string;
+  /** Changed files without a reviewable diff */
+  skippedFiles: SkippedFile[];
+  /** Tests found for the changed source files */
+  testPairings: TestPairing[];
 }
 
 export class ContextCollector {
@@ -31,19 +71,42 @@ export class ContextCollector {
   async collect(pr: PullRequest): Promise<CollectedContext> {
     core.info('Collecting context for review...');
 
-    // Filter files based on ignore patterns
-    const relevantFiles = this.filterFiles(pr.files);
+    // Incremental reviews only look at files touched since the last review
+    const files = pr.incremental ? pr.incremental.files : pr.files;
+
+    // Filter files based on ignore patterns, then drop files without a reviewable diff
+    const skipReasons = new Map((pr.skippedFiles || []).map((f) => [f.path, f.reason]));
+    const filtered = this.filterFiles(files);
+    const relevantFiles = filtered.filter((f) => f.patch || !skipReasons.has(f.filename));
+    const skippedFiles = filtered
+      .filter((f) => !f.patch && skipReasons.has(f.filename))
+      .map((f) => ({ path: f.filename, reason: skipReasons.get(f.filename) as string }));
     core.info(`${relevantFiles.length} files to review (after filtering)`);
 
     // Collect changed file contents
     const changedFiles = await this.collectChangedFiles(relevantFiles);
 
-    // Collect related files for pattern reference
-    const relatedFiles = await this.collectRelatedFiles(relevantFiles);
-
     // Build diff from patches
     const diff = this.buildDiff(relevantFiles);
 
+    // Index the repository's files to follow imports, find tests and detect the stack
+    const repositoryFiles = await this.listRepositoryFiles();
+    const graph = await this.loadImportGraph(repositoryFiles);
+    const testPairings = graph
+      ? relevantFiles
+          .map((f) => ({ source: f.filename, tests: findTestFiles(f.filename, graph.files) }))
+          .filter((p) => p.tests.length > 0)
+      : [];
+
+    // Collect tests, what the changes import, what imports them, and pattern references
+    const relatedFiles = await this.collectRelatedFiles(
+      relevantFiles,
+      changedFiles,
+      diff,
+      graph,
+      testPairings
+    );
+
     // Build review context with all AI context files
     const reviewContext: ReviewContext = {
       contextFiles: this.aiContextFiles,
@@ -51,6 +114,10 @@ export class ContextCollector {
       conventions: this.aiContextFiles[0]?.content,
       instructions: this.config.instructions,
       patterns: this.config.patterns,
+      stack: await this.detectStack(
+        repositoryFiles,
+        relevantFiles.map((f) => f.filename)
+      ),
     };
 
     return {
@@ -58,6 +125,9 @@ export class ContextCollector {
       relatedFiles,
       reviewContext,
       diff,
+      incrementalSince: pr.incremental?.sinceRef,
+      skippedFiles,
+      testPairings,
     };
   }
 
@@ -100,23 +170,277 @@ export class ContextCollector {
     return results;
   }
 
-  private async collectRelatedFiles(changedFiles: ChangedFile[]): Promise<FileContext[]> {
-    const results: FileContext[] = [];
-    const seenPaths = new Set(changedFiles.map((f) => f.filename));
+  private async collectRelatedFiles(
+    files: ChangedFile[],
+    changedFiles: FileContext[],
+    diff: string,
+    graph: ResolveOptions | undefined,
+    testPairings: TestPairing[]
+  ): Promise<FileContext[]> {
+    const candidates = new Map<string, RelatedCandidate>();
+    const seenPaths = new Set(files.map((f) => f.filename));
+
+    // A file related to several changes is scored for each of them
+    const add = (file: FileContext, score: number) => {
+      const existing = candidates.get(file.path);
+      if (existing) {
+        existing.score += score;
+        existing.file = {
+          ...existing.file,
+          relatedTo: [...new Set([...(existing.file.relatedTo ?? []), ...(file.relatedTo ?? [])])],
+        };
+      } else {
+        candidates.set(file.path, { file, score });
+      }
+    };
+
+    if (graph) {
+      const contents = new Map<string, Promise<string | null>>();
+      const read = (filePath: string) => {
+        if (!contents.has(filePath)) {
+          contents.set(filePath, this.platform.getFileContent(filePath));
+        }
+        return contents.get(filePath) as Promise<string | null>;
+      };
+
+      if (this.config.tests.include) {
+        await this.addTestFiles(testPairings, seenPaths, read, add);
+      }
+      await this.addImportedFiles(changedFiles, graph, seenPaths, read, add);
+      await this.addDependentFiles(changedFiles, diff, graph, seenPaths, read, add);
+    }
+
+    let siblingCount = 0;
+    for (const file of files) {
+      if (siblingCount >= MAX_SIBLING_FILES) {
+        break;
+      }
 
-    for (const file of changedFiles) {
       // Find sibling files (same directory, same extension)
       const siblings = await this.findSiblingFiles(file.filename, seenPaths);
-      results.push(...siblings);
-
-      // Add sibling paths to seen set
-      for (const sibling of siblings) {
+      for (const sibling of siblings.slice(0, MAX_SIBLING_FILES - siblingCount)) {
+        add(sibling, SIBLING_SCORE);
         seenPaths.add(sibling.path);
+        siblingCount++;
       }
     }
 
     // Limit to avoid token overflow
-    return results.slice(0, 5);
+    return [...candidates.values()]
+      .sort((a, b) => b.score - a.score || a.file.path.localeCompare(b.file.path))
+      .slice(0, MAX_RELATED_FILES)
+      .map((c) => c.file);
+  }
+
+  /** Every file in the checkout, or none when it cannot be listed */
+  private async listRepositoryFiles(): Promise<string[]> {
+    try {
+      return await this.platform.getFilesInDirectory('.');
+    } catch (error) {
+      core.debug(`Failed to list repository files: ${error}`);
+      return [];
+    }
+  }
+
+  /**
+   * Index the repository's source files and read its module settings, so imports can be resolved.
+   * Returns undefined when there are no source files.
+   */
+  private async loadImportGraph(files: string[]): Promise<ResolveOptions | undefined> {
+    const sourceFiles = files.filter((f) => languageOf(f));
+    if (sourceFiles.length === 0) {
+      return undefined;
+    }
+
+    const tsconfig = await this.platform.getFileContent('tsconfig.json');
+    const goMod = await this.platform.getFileContent('go.mod');
+
+    return {
+      files: new Set(sourceFiles),
+      tsconfig: tsconfig ? parseTsConfig(tsconfig) : undefined,
+      goModule: goMod ? parseGoModule(goMod) : undefined,
+    };
+  }
+
+  /**
+   * Detect languages, frameworks and test runners from the manifests and file extensions.
+   * Returns undefined when nothing was recognised.
+   */
+  private async detectStack(
+    files: string[],
+    changedPaths: string[]
+  ): Promise<CodebaseStack | undefined> {
+    const manifests = new Map<string, string>();
+
+    for (const manifest of files.filter(isManifest)) {
+      const content = await this.platform.getFileContent(manifest);
+      if (content) {
+        manifests.set(manifest, content);
+      }
+    }
+
+    const stack = detectStack(files, manifests, changedPaths);
+    const detected = stack.languages.length + stack.frameworks.length + stack.testRunners.length;
+
+    if (detected === 0) {
+      return undefined;
+    }
+
+    core.info(`Detected stack: ${[...stack.languages, ...stack.frameworks].join(', ')}`);
+    return stack;
+  }
+
+  /**
+   * Add the tests of the changed source files, including changed tests excluded from the review.
+   */
+  private async addTestFiles(
+    testPairings: TestPairing[],
+    exclude: Set<string>,
+    read: (filePath: string) => Promise<string | null>,
+    add: (file: FileContext, score: number) => void
+  ): Promise<void> {
+    for (const { source, tests } of testPairings) {
+      for (const test of tests.filter((t) => !exclude.has(t))) {
+        const content = await read(test);
+
+        if (content) {
+          add(
+            {
+              path: test,
+              content: this.truncateForContext(content),
+              role: 'test',
+              reason: `tests ${source}`,
+              relatedTo: [source],
+            },
+            TEST_SCORE
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Add the definitions the changed files import from the rest of the repository.
+   */
+  private async addImportedFiles(
+    changedFiles: FileContext[],
+    graph: ResolveOptions,
+    exclude: Set<string>,
+    read: (filePath: string) => Promise<string | null>,
+    add: (file: FileContext, score: number) => void
+  ): Promise<void> {
+    for (const changed of changedFiles) {
+      for (const ref of parseImports(changed.path, changed.content)) {
+        const targets = resolveImport(changed.path, ref, graph).filter((t) => !exclude.has(t));
+
+        for (const target of targets) {
+          const content = await read(target);
+          if (!content) {
+            continue;
+          }
+
+          const definitions = extractDefinitions(target, content, ref.names);
+
+          // A package spans several files; only those defining a used name are relevant
+          if (!definitions && targets.length > 1) {
+            continue;
+          }
+
+          add(
+            {
+              path: target,
+              content: definitions ?? this.truncateForContext(content),
+              role: 'import',
+              reason: definitions
+                ? `defines ${ref.names.join(', ')} used by ${changed.path}`
+                : `imported by ${changed.path}`,
+              relatedTo: [changed.path],
+            },
+            IMPORT_SCORE + (definitions ? ref.names.length : 0)
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Add the files that import the changed files, showing where they use the imported names.
+   * Files using an export whose definition changed rank higher.
+   */
+  private async addDependentFiles(
+    changedFiles: FileContext[],
+    diff: string,
+    graph: ResolveOptions,
+    exclude: Set<string>,
+    read: (filePath: string) => Promise<string | null>,
+    add: (file: FileContext, score: number) => void
+  ): Promise<void> {
+    const addedLines = new Map<string, number[]>();
+    for (const { file, line } of listAddedLines(diff)) {
+      addedLines.set(file, [...(addedLines.get(file) || []), line]);
+    }
+
+    const changedExports = new Map(
+      changedFiles.map((f) => [
+        f.path,
+        findChangedExports(f.path, f.content, addedLines.get(f.path) || []),
+      ])
+    );
+    const languages = new Set(changedFiles.map((f) => languageOf(f.path)).filter(Boolean));
+
+    // Code near the changes is the most likely to depend on them
+    const scanned = [...graph.files]
+      .filter((f) => !exclude.has(f) && languages.has(languageOf(f)))
+      .map((f) => ({ path: f, proximity: this.proximity(f, changedFiles) }))
+      .sort((a, b) => b.proximity - a.proximity || a.path.localeCompare(b.path))
+      .slice(0, MAX_SCANNED_FILES);
+
+    for (const { path: filePath } of scanned) {
+      const content = await read(filePath);
+      if (!content) {
+        continue;
+      }
+
+      for (const ref of parseImports(filePath, content)) {
+        for (const target of resolveImport(filePath, ref, graph)) {
+          const exported = changedExports.get(target);
+          if (!exported) {
+            continue;
+          }
+
+          const used = ref.names.filter((name) => exported.includes(name));
+          add(
+            {
+              path: filePath,
+              content: extractUsages(content, ref.names) ?? this.truncateForContext(content),
+              role: 'import',
+              reason:
+                used.length > 0
+                  ? `uses ${used.join(', ')} changed in ${target}`
+                  : `imports ${target}`,
+              relatedTo: [target],
+            },
+            DEPENDENT_SCORE + 2 * used.length
+          );
+        }
+      }
+    }
+  }
+
+  /** Number of leading directories a file shares with the closest changed file */
+  private proximity(filePath: string, changedFiles: FileContext[]): number {
+    const dirs = path.posix.dirname(filePath).split('/');
+
+    return Math.max(
+      ...changedFiles.map((f) => {
+        const changedDirs = path.posix.dirname(f.path).split('/');
+        let shared = 0;
+        while (shared < dirs.length && dirs[shared] === changedDirs[shared]) {
+          shared++;
+        }
+        return shared;
+      })
+    );
   }
 
   private async findSiblingFiles(filePath: string, exclude: Set<string>): Promise<FileContext[]> {
@@ -140,6 +464,7 @@ export class ContextCollector {
             path: siblingPath,
             content: this.truncateForContext(content),
             role: 'sibling',
+            relatedTo: [filePath],
           });
         }
       }
@@ -155,7 +480,7 @@ export class ContextCollector {
 
     for (const file of files) {
       if (file.patch) {
-        parts.push(`diff --git a/${file.filename} b/${file.filename}`);
+        parts.push(`diff --git a/${file.previousFilename || file.filename} b/${file.filename}`);
         parts.push(file.patch);
       }
     }
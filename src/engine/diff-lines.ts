@@ -0,0 +1,38 @@
+export interface AddedLine {
+  file: string;
+  /** Line number in the new file */
+  line: number;
+  /** Line content without the leading `+` */
+  text: string;
+}
+
+/**
+ * List the added lines of a combined diff (as built by ContextCollector).
+ */
+export function listAddedLines(diff: string): AddedLine[] {
+  const added: AddedLine[] = [];
+  let file = '';
+  let newLine = 0;
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      file = line.match(/ b\/(.+)$/)?.[1] || '';
+      continue;
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)/);
+    if (hunk) {
+      newLine = Number.parseInt(hunk[1], 10);
+      continue;
+    }
+
+    if (line.startsWith('+')) {
+      added.push({ file, line: newLine, text: line.slice(1) });
+      newLine++;
+    } else if (!line.startsWith('-') && !line.startsWith('\\')) {
+      newLine++;
+    }
+  }
+
+  return added;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import type { ReviewIssue } from '../llm/types.js';
+import { fingerprintIssue } from './fingerprint.js';
+
+const issue = (overrides: Partial<ReviewIssue> = {}): ReviewIssue => ({
+  severity: 'warning',
+  category: 'security',
+  file: 'src/db.ts',
+  line: 3,
+  title: 'SQL Injection',
+  description: 'User input concatenated into query',
+  ...overrides,
+});
+
+const content = [
+  'import db from "./db";',
+  '',
+  'db.query("SELECT * FROM users WHERE id=" + id);',
+  '',
+].join('\n');
+
+describe('fingerprintIssue', () => {
+  it('should be stable for the same issue', () => {
+    expect(fingerprintIssue(issue(), content)).toBe(fingerprintIssue(issue(), content));
+  });
+
+  it('should ignore title casing, punctuation and description', () => {
+    const a = fingerprintIssue(issue({ title: 'SQL injection!' }), content);
+    const b = fingerprintIssue(
+      issue({ title: 'sql  Injection', description: 'Reworded' }),
+      content
+    );
+
+    expect(a).toBe(b);
+  });
+
+  it('should survive code moving to another line', () => {
+    const shifted = `// header\n// another header\n${content}`;
+
+    expect(fingerprintIssue(issue({ line: 5 }), shifted)).toBe(fingerprintIssue(issue(), content));
+  });
+
+  it('should ignore whitespace changes in nearby code', () => {
+    const reindented = content.replace('db.query', '    db.query');
+
+    expect(fingerprintIssue(issue(), reindented)).toBe(fingerprintIssue(issue(), content));
+  });
+
+  it('should differ by file, category and code', () => {
+    const base = fingerprintIssue(issue(), content);
+
+    expect(fingerprintIssue(issue({ file: 'src/other.ts' }), content)).not.toBe(base);
+    expect(fingerprintIssue(issue({ category: 'bugs' }), content)).not.toBe(base);
+    expect(fingerprintIssue(issue(), content.replace('users', 'admins'))).not.toBe(base);
+  });
+
+  it('should work without file content or line', () => {
+    expect(fingerprintIssue(issue({ line: undefined }))).toMatch(/^[a-f0-9]{16}$/);
+  });
+});
@@ -0,0 +1,47 @@
+import { createHash } from 'node:crypto';
+import type { ReviewIssue } from '../llm/types.js';
+
+/** Lines of code on each side of the flagged line included in the fingerprint */
+const CONTEXT_RADIUS = 1;
+
+/**
+ * Compute a stable fingerprint for an issue so later runs can recognise it.
+ *
+ * The fingerprint combines the file, category, normalized title and the code
+ * around the flagged line. Line numbers are deliberately left out so the
+ * fingerprint survives unrelated edits that shift the code up or down.
+ *
+ * @param fileContent - Current content of `issue.file`, if available
+ */
+export function fingerprintIssue(issue: ReviewIssue, fileContent?: string | null): string {
+  const parts = [
+    issue.file,
+    issue.category,
+    normalizeText(issue.title),
+    nearbyCode(issue, fileContent),
+  ];
+
+  return createHash('sha256').update(parts.join('\n')).digest('hex').substring(0, 16);
+}
+
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function nearbyCode(issue: ReviewIssue, fileContent?: string | null): string {
+  if (!fileContent || issue.line === undefined) {
+    return '';
+  }
+
+  const lines = fileContent.split('\n');
+  const start = Math.max(0, issue.line - 1 - CONTEXT_RADIUS);
+  const end = Math.min(lines.length, issue.line + CONTEXT_RADIUS);
+
+  return lines
+    .slice(start, end)
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .join('\n');
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import type { ReviewIssue } from '../llm/types.js';
+import { evaluateGate, formatGateFailure } from './gate.js';
+
+const issue = (overrides: Partial<ReviewIssue>): ReviewIssue => ({
+  severity: 'warning',
+  category: 'bugs',
+  file: 'src/index.ts',
+  title: 'Issue',
+  description: 'Description',
+  ...overrides,
+});
+
+describe('evaluateGate', () => {
+  it('should pass without rules', () => {
+    const result = evaluateGate([issue({ severity: 'critical' })], []);
+
+    expect(result.passed).toBe(true);
+    expect(result.violations).toEqual([]);
+  });
+
+  it('should fail on any critical security issue', () => {
+    const rules = [{ severity: 'critical' as const, category: 'security' as const, max: 0 }];
+
+    const passing = evaluateGate([issue({ severity: 'critical', category: 'bugs' })], rules);
+    const failing = evaluateGate(
+      [issue({ severity: 'critical', category: 'security', file: 'src/auth.ts', line: 12 })],
+      rules
+    );
+
+    expect(passing.passed).toBe(true);
+    expect(failing.passed).toBe(false);
+    expect(failing.violations[0]).toBe(
+      'Found 1 critical security issue(s) (allowed: 0): src/auth.ts:12'
+    );
+  });
+
+  it('should fail on more than the allowed number of warnings', () => {
+    const rules = [{ severity: 'warning' as const, max: 3 }];
+    const warnings = (n: number) => Array.from({ length: n }, () => issue({ severity: 'warning' }));
+
+    expect(evaluateGate(warnings(3), rules).passed).toBe(true);
+    expect(evaluateGate(warnings(4), rules).passed).toBe(false);
+  });
+
+  it('should report every violated rule', () => {
+    const result = evaluateGate(
+      [issue({ severity: 'critical', category: 'security' }), issue({ category: 'performance' })],
+      [{ severity: 'critical', max: 0 }, { category: 'performance', max: 0 }, { max: 5 }]
+    );
+
+    expect(result.violations).toHaveLength(2);
+    expect(formatGateFailure(result)).toContain('- Found 1 performance issue(s)');
+  });
+});
@@ -0,0 +1,48 @@
+import type { GateRule } from '../config/schema.js';
+import type { ReviewIssue } from '../llm/types.js';
+
+export interface GateResult {
+  passed: boolean;
+  /** One human-readable explanation per violated rule */
+  violations: string[];
+}
+
+/**
+ * Check the review's issues against the configured `output.fail_on` rules.
+ * A rule is violated when more than `max` issues match its severity and category.
+ */
+export function evaluateGate(issues: ReviewIssue[], rules: GateRule[]): GateResult {
+  const violations: string[] = [];
+
+  for (const rule of rules) {
+    const matching = issues.filter(
+      (issue) =>
+        (!rule.severity || issue.severity === rule.severity) &&
+        (!rule.category || issue.category === rule.category)
+    );
+
+    if (matching.length > rule.max) {
+      violations.push(
+        `Found ${matching.length} ${describeRule(rule)} (allowed: ${rule.max}): ${matching
+          .map((i) => `${i.file}${i.line ? `:${i.line}` : ''}`)
+          .join(', ')}`
+      );
+    }
+  }
+
+  return { passed: violations.length === 0, violations };
+}
+
+/**
+ * Markdown explanation of a failed gate, used in the action log and the change request.
+ */
+export function formatGateFailure(result: GateResult): string {
+  return ['Code Sentinel quality gate failed:', ...result.violations.map((v) => `- ${v}`)].join(
+    '\n'
+  );
+}
+
+function describeRule(rule: GateRule): string {
+  const qualifiers = [rule.severity, rule.category].filter(Boolean).join(' ');
+  return qualifiers ? `${qualifiers} issue(s)` : 'issue(s)';
+}
@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type ResolveOptions,
+  extractDefinitions,
+  extractUsages,
+  findChangedExports,
+  parseGoModule,
+  parseImports,
+  parseTsConfig,
+  resolveImport,
+} from './imports.js';
+
+const options = (files: string[], extra: Partial<ResolveOptions> = {}): ResolveOptions => ({
+  files: new Set(files),
+  ...extra,
+});
+
+describe('parseImports', () => {
+  it('should parse TypeScript imports with the names they take', () => {
+    const content = [
+      "import React, { useState } from 'react';",
+      'import {',
+      '  getUser,',
+      '  type User,',
+      '  saveUser as save,',
+      "} from './users.js';",
+      "import * as db from '@/db';",
+      "export { formatDate } from '../utils/date';",
+      "import './polyfills';",
+      "const legacy = require('./legacy');",
+    ].join('\n');
+
+    expect(parseImports('src/app.ts', content)).toEqual([
+      { specifier: 'react', names: ['useState', 'default'] },
+      { specifier: './users.js', names: ['getUser', 'User', 'saveUser'] },
+      { specifier: '@/db', names: [] },
+      { specifier: '../utils/date', names: ['formatDate'] },
+      { specifier: './polyfills', names: [] },
+      { specifier: './legacy', names: [] },
+    ]);
+  });
+
+  it('should parse Python imports', () => {
+    const content = [
+      'import os, app.config as cfg',
+      'from .models import User, Order as O',
+      'from ..services import (',
+      '    billing,',
+      '    email,  # notifications',
+      ')',
+    ].join('\n');
+
+    expect(parseImports('app/api/views.py', content)).toEqual([
+      { specifier: '.models', names: ['User', 'Order'] },
+      { specifier: '..services', names: ['billing', 'email'] },
+      { specifier: 'os', names: [] },
+      { specifier: 'app.config', names: [] },
+    ]);
+  });
+
+  it('should parse Go imports with the exported names used from each package', () => {
+    const content = [
+      'package api',
+      '',
+      'import (',
+      '  "fmt"',
+      '  store "example.com/shop/internal/db"',
+      ')',
+      '',
+      'func Get(id string) { fmt.Println(store.FindUser(id), store.ErrNotFound) }',
+    ].join('\n');
+
+    expect(parseImports('internal/api/get.go', content)).toEqual([
+      { specifier: 'fmt', names: ['Println'] },
+      { specifier: 'example.com/shop/internal/db', names: ['FindUser', 'ErrNotFound'] },
+    ]);
+  });
+});
+
+describe('resolveImport', () => {
+  it('should resolve relative TypeScript imports, ESM suffixes and index files', () => {
+    const files = options(['src/users.ts', 'src/lib/index.ts']);
+
+    expect(resolveImport('src/app.ts', { specifier: './users.js', names: [] }, files)).toEqual([
+      'src/users.ts',
+    ]);
+    expect(resolveImport('src/app.ts', { specifier: './lib', names: [] }, files)).toEqual([
+      'src/lib/index.ts',
+    ]);
+    expect(resolveImport('src/app.ts', { specifier: 'react', names: [] }, files)).toEqual([]);
+  });
+
+  it('should resolve tsconfig paths', () => {
+    const tsconfig = parseTsConfig(`{
+      // Path aliases
+      "compilerOptions": {
+        "baseUrl": ".",
+        "paths": { "@/*": ["src/*"], },
+      },
+    }`);
+
+    expect(tsconfig).toEqual({ baseUrl: '.', paths: { '@/*': ['src/*'] } });
+    expect(
+      resolveImport(
+        'src/app.ts',
+        { specifier: '@/db/client', names: [] },
+        options(['src/db/client.ts'], { tsconfig })
+      )
+    ).toEqual(['src/db/client.ts']);
+  });
+
+  it('should resolve Python modules, packages and submodules', () => {
+    const files = options(['app/models.py', 'app/services/__init__.py', 'app/services/email.py']);
+
+    expect(resolveImport('app/api.py', { specifier: '.models', names: ['User'] }, files)).toEqual([
+      'app/models.py',
+    ]);
+    expect(
+      resolveImport('app/api.py', { specifier: 'app.services', names: ['email'] }, files)
+    ).toEqual(['app/services/__init__.py', 'app/services/email.py']);
+  });
+
+  it('should resolve Go packages of the module to their files', () => {
+    const files = options(['internal/db/user.go', 'internal/db/user_test.go', 'main.go'], {
+      goModule: parseGoModule('module example.com/shop\n\ngo 1.22\n'),
+    });
+
+    expect(
+      resolveImport('main.go', { specifier: 'example.com/shop/internal/db', names: [] }, files)
+    ).toEqual(['internal/db/user.go']);
+    expect(resolveImport('main.go', { specifier: 'fmt', names: [] }, files)).toEqual([]);
+  });
+});
+
+describe('definitions', () => {
+  const content = [
+    "import { db } from './db';",
+    '',
+    '/** Find a user by id */',
+    'export async function getUser(id: string) {',
+    '  return db.find(id);',
+    '}',
+    '',
+    'export const MAX_USERS = 100;',
+    '',
+    'function helper() {',
+    '  return 1;',
+    '}',
+  ].join('\n');
+
+  it('should extract the definitions of imported names with their doc comment', () => {
+    expect(extractDefinitions('src/users.ts', content, ['getUser', 'MAX_USERS'])).toBe(
+      [
+        '/** Find a user by id */',
+        'export async function getUser(id: string) {',
+        '  return db.find(id);',
+        '}',
+        '',
+        'export const MAX_USERS = 100;',
+      ].join('\n')
+    );
+    expect(extractDefinitions('src/users.ts', content, ['missing'])).toBeUndefined();
+  });
+
+  it('should extract Python definitions by indentation', () => {
+    const python = ['def get_user(id):', '    return db.find(id)', '', 'LIMIT = 10'].join('\n');
+
+    expect(extractDefinitions('app/users.py', python, ['get_user'])).toBe(
+      'def get_user(id):\n    return db.find(id)'
+    );
+  });
+
+  it('should find the exports whose definition contains a changed line', () => {
+    expect(findChangedExports('src/users.ts', content, [5, 11])).toEqual(['getUser']);
+  });
+});
+
+describe('extractUsages', () => {
+  it('should show the lines mentioning the names with line numbers', () => {
+    const content = ['a', 'b', 'const user = getUser(1);', 'c', 'd', 'e', 'getUser(2);'].join('\n');
+
+    expect(extractUsages(content, ['getUser'])).toBe(
+      ['2: b', '3: const user = getUser(1);', '4: c', '...', '6: e', '7: getUser(2);'].join('\n')
+    );
+  });
+});
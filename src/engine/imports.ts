@@ -0,0 +1,514 @@
+import * as path from 'node:path';
+
+export type SourceLanguage = 'typescript' | 'python' | 'go';
+
+export interface ImportRef {
+  /** Module as written in the source, e.g. `./user`, `..models` or `example.com/app/db` */
+  specifier: string;
+  /** Names taken from the module; empty for namespace and side-effect imports */
+  names: string[];
+}
+
+export interface ResolveOptions {
+  /** Every source file in the repository, relative to its root */
+  files: Set<string>;
+  /** `compilerOptions.baseUrl` and `paths` from tsconfig.json */
+  tsconfig?: TsPathConfig;
+  /** Module path declared in go.mod */
+  goModule?: string;
+}
+
+export interface TsPathConfig {
+  baseUrl?: string;
+  paths?: Record<string, string[]>;
+}
+
+export interface Definition {
+  name: string;
+  /** First line of the definition, including its doc comment (0-based) */
+  start: number;
+  /** Last line of the definition (0-based, inclusive) */
+  end: number;
+  exported: boolean;
+}
+
+const TS_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/** Longest definition excerpt sent to the model */
+const MAX_DEFINITION_LINES = 60;
+
+export function languageOf(filePath: string): SourceLanguage | undefined {
+  const ext = path.extname(filePath);
+
+  if (TS_EXTENSIONS.includes(ext)) {
+    return 'typescript';
+  }
+  if (ext === '.py') {
+    return 'python';
+  }
+  if (ext === '.go') {
+    return 'go';
+  }
+  return undefined;
+}
+
+/**
+ * List the modules a source file imports, with the names it takes from each.
+ */
+export function parseImports(filePath: string, content: string): ImportRef[] {
+  switch (languageOf(filePath)) {
+    case 'typescript':
+      return parseTsImports(content);
+    case 'python':
+      return parsePythonImports(content);
+    case 'go':
+      return parseGoImports(content);
+    default:
+      return [];
+  }
+}
+
+function parseTsImports(content: string): ImportRef[] {
+  const imports: ImportRef[] = [];
+
+  // import x, { a, b as c } from '...';  export { a } from '...';  export * from '...'
+  for (const m of content.matchAll(
+    /^\s*(?:import|export)\s+(?:type\s+)?([\w$*{},\s]+?)\s+from\s+['"]([^'"]+)['"]/gm
+  )) {
+    imports.push({ specifier: m[2], names: parseTsImportClause(m[1]) });
+  }
+
+  // import '...';  require('...');  import('...')
+  for (const m of content.matchAll(
+    /^\s*import\s+['"]([^'"]+)['"]|\b(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/gm
+  )) {
+    imports.push({ specifier: m[1] ?? m[2], names: [] });
+  }
+
+  return imports;
+}
+
+function parseTsImportClause(clause: string): string[] {
+  const names: string[] = [];
+  const named = clause.match(/\{([^}]*)\}/);
+
+  if (named) {
+    for (const part of named[1].split(',')) {
+      const name = part
+        .trim()
+        .replace(/^type\s+/, '')
+        .split(/\s+as\s+/)[0];
+      if (name) {
+        names.push(name);
+      }
+    }
+  }
+
+  // A leading identifier is the default import (`* as ns` takes everything)
+  const defaultImport = clause.replace(/\{[^}]*\}/, '').match(/^\s*([\w$]+)\s*(?:,|$)/);
+  if (defaultImport) {
+    names.push('default');
+  }
+
+  return names;
+}
+
+function parsePythonImports(content: string): ImportRef[] {
+  const imports: ImportRef[] = [];
+
+  // from pkg.mod import a, b as c  /  from . import (a, b)
+  for (const m of content.matchAll(/^\s*from\s+(\.*[\w.]*)\s+import\s+(\([^)]*\)|[^\n]+)/gm)) {
+    const names = m[2]
+      .replace(/[()]/g, '')
+      .replace(/#.*$/gm, '')
+      .split(',')
+      .map((part) => part.trim().split(/\s+as\s+/)[0])
+      .filter((name) => name && name !== '*');
+
+    imports.push({ specifier: m[1], names });
+  }
+
+  // import pkg.mod, other as o
+  for (const m of content.matchAll(
+    /^\s*import\s+([\w.]+(?:\s+as\s+\w+)?(?:\s*,\s*[\w.]+(?:\s+as\s+\w+)?)*)/gm
+  )) {
+    for (const part of m[1].split(',')) {
+      imports.push({ specifier: part.trim().split(/\s+as\s+/)[0], names: [] });
+    }
+  }
+
+  return imports;
+}
+
+function parseGoImports(content: string): ImportRef[] {
+  const specs: { alias?: string; path: string }[] = [];
+
+  for (const m of content.matchAll(/^import\s+(?:([\w.]+)\s+)?"([^"]+)"/gm)) {
+    specs.push({ alias: m[1], path: m[2] });
+  }
+
+  for (const block of content.matchAll(/^import\s*\(([\s\S]*?)\)/gm)) {
+    for (const m of block[1].matchAll(/^\s*(?:([\w.]+)\s+)?"([^"]+)"/gm)) {
+      specs.push({ alias: m[1], path: m[2] });
+    }
+  }
+
+  // Packages are used as `alias.Name`; only exported (capitalized) names are visible
+  return specs.map(({ alias, path: spec }) => {
+    const qualifier = alias ?? spec.split('/').pop() ?? spec;
+    const names = new Set<string>();
+
+    for (const m of content.matchAll(
+      new RegExp(`\\b${escapeRegExp(qualifier)}\\.([A-Z]\\w*)`, 'g')
+    )) {
+      names.add(m[1]);
+    }
+
+    return { specifier: spec, names: [...names] };
+  });
+}
+
+/**
+ * Resolve an import to repository files. Packages from outside the repository resolve to nothing.
+ * Go imports resolve to every file of the package; Python `from pkg import mod` also to submodules.
+ */
+export function resolveImport(from: string, ref: ImportRef, options: ResolveOptions): string[] {
+  switch (languageOf(from)) {
+    case 'typescript':
+      return resolveTsImport(from, ref.specifier, options);
+    case 'python':
+      return resolvePythonImport(from, ref, options);
+    case 'go':
+      return resolveGoImport(ref.specifier, options);
+    default:
+      return [];
+  }
+}
+
+function resolveTsImport(from: string, specifier: string, options: ResolveOptions): string[] {
+  const bases: string[] = [];
+
+  if (specifier.startsWith('.')) {
+    bases.push(path.posix.join(path.posix.dirname(from), specifier));
+  } else {
+    const { baseUrl = '.', paths = {} } = options.tsconfig ?? {};
+
+    for (const [pattern, targets] of Object.entries(paths)) {
+      const wildcard = matchPathPattern(pattern, specifier);
+      if (wildcard !== undefined) {
+        bases.push(...targets.map((t) => path.posix.join(baseUrl, t.replace('*', wildcard))));
+      }
+    }
+
+    if (options.tsconfig?.baseUrl) {
+      bases.push(path.posix.join(baseUrl, specifier));
+    }
+  }
+
+  for (const base of bases) {
+    const found = tsCandidates(base).find((candidate) => options.files.has(candidate));
+    if (found) {
+      return [found];
+    }
+  }
+
+  return [];
+}
+
+/** Returns what `*` matched, '' for an exact pattern, or undefined when it does not match */
+function matchPathPattern(pattern: string, specifier: string): string | undefined {
+  const star = pattern.indexOf('*');
+
+  if (star === -1) {
+    return pattern === specifier ? '' : undefined;
+  }
+
+  const prefix = pattern.slice(0, star);
+  const suffix = pattern.slice(star + 1);
+
+  return specifier.startsWith(prefix) &&
+    specifier.endsWith(suffix) &&
+    specifier.length >= prefix.length + suffix.length
+    ? specifier.slice(prefix.length, specifier.length - suffix.length)
+    : undefined;
+}
+
+function tsCandidates(base: string): string[] {
+  // ESM sources import `./user.js` for `./user.ts`
+  const stem = base.replace(/\.(?:js|jsx|mjs|cjs)$/, '');
+
+  return [
+    base,
+    ...TS_EXTENSIONS.map((ext) => `${stem}${ext}`),
+    ...TS_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+  ];
+}
+
+function resolvePythonImport(from: string, ref: ImportRef, options: ResolveOptions): string[] {
+  const dots = ref.specifier.match(/^\.*/)?.[0].length ?? 0;
+  const modulePath = ref.specifier.slice(dots).split('.').filter(Boolean).join('/');
+
+  let roots: string[];
+  if (dots > 0) {
+    let dir = path.posix.dirname(from);
+    for (let i = 1; i < dots; i++) {
+      dir = path.posix.dirname(dir);
+    }
+    roots = [dir === '.' ? '' : dir];
+  } else {
+    roots = ['', 'src'];
+  }
+
+  const resolved: string[] = [];
+
+  for (const root of roots) {
+    const base = path.posix.join(root, modulePath);
+    const module = [`${base}.py`, `${base}/__init__.py`].find((f) => options.files.has(f));
+
+    if (module) {
+      resolved.push(module);
+    }
+
+    // `from pkg import mod` imports a submodule rather than a name
+    for (const name of ref.names) {
+      const submodule = path.posix.join(base, `${name}.py`);
+      if (options.files.has(submodule)) {
+        resolved.push(submodule);
+      }
+    }
+
+    if (resolved.length > 0) {
+      break;
+    }
+  }
+
+  return resolved;
+}
+
+function resolveGoImport(specifier: string, options: ResolveOptions): string[] {
+  const module = options.goModule;
+  if (!module || (specifier !== module && !specifier.startsWith(`${module}/`))) {
+    return [];
+  }
+
+  const dir = specifier === module ? '.' : specifier.slice(module.length + 1);
+
+  return [...options.files].filter(
+    (f) => path.posix.dirname(f) === dir && f.endsWith('.go') && !f.endsWith('_test.go')
+  );
+}
+
+/**
+ * Read `baseUrl` and `paths` from a tsconfig.json, which may contain comments and trailing commas.
+ */
+export function parseTsConfig(content: string): TsPathConfig | undefined {
+  try {
+    const json = content
+      .replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, (_, str) => str ?? '')
+      .replace(/,(\s*[}\]])/g, '$1');
+    const { baseUrl, paths } = JSON.parse(json).compilerOptions ?? {};
+
+    return { baseUrl, paths };
+  } catch {
+    return undefined;
+  }
+}
+
+export function parseGoModule(content: string): string | undefined {
+  return content.match(/^module\s+(\S+)/m)?.[1];
+}
+
+/**
+ * Find the top-level definitions (functions, classes, types, constants) in a source file.
+ */
+export function findDefinitions(filePath: string, content: string): Definition[] {
+  const lines = content.split('\n');
+
+  switch (languageOf(filePath)) {
+    case 'typescript':
+      return findBlockDefinitions(
+        lines,
+        /^(export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|const|let|var|interface|type|enum)\s+([\w$]+)/
+      );
+    case 'go':
+      return findBlockDefinitions(lines, /^()(?:func|type|var|const)\s+([A-Za-z_]\w*)/, (name) =>
+        /^[A-Z]/.test(name)
+      );
+    case 'python':
+      return findPythonDefinitions(lines);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Definitions of C-like languages end where their braces and parentheses balance,
+ * or at the end of the statement when they open none.
+ */
+function findBlockDefinitions(
+  lines: string[],
+  pattern: RegExp,
+  isExported?: (name: string) => boolean
+): Definition[] {
+  const definitions: Definition[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const m = lines[i].match(pattern);
+    if (!m) {
+      continue;
+    }
+
+    const isDefault = /^export\s+default\s/.test(lines[i]);
+    const name = isDefault ? 'default' : m[2];
+    let depth = 0;
+    let opened = false;
+    let end = i;
+
+    for (; end < lines.length; end++) {
+      for (const char of lines[end].replace(/(['"`])(?:\\.|(?!\1).)*\1/g, '')) {
+        if (char === '{' || char === '(') {
+          depth++;
+          opened = true;
+        } else if (char === '}' || char === ')') {
+          depth--;
+        }
+      }
+
+      // Without braces, a statement continues only on indented lines
+      if (opened ? depth <= 0 : /;\s*$/.test(lines[end]) || !/^\s/.test(lines[end + 1] ?? '')) {
+        break;
+      }
+    }
+
+    definitions.push({
+      name,
+      start: withLeadingComments(lines, i),
+      end: Math.min(end, lines.length - 1),
+      exported: isExported ? isExported(name) : m[1] !== undefined,
+    });
+    i = end;
+  }
+
+  return definitions;
+}
+
+/** Python definitions last as long as the following lines are indented */
+function findPythonDefinitions(lines: string[]): Definition[] {
+  const definitions: Definition[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const m = lines[i].match(/^(?:async\s+def|def|class)\s+(\w+)|^([A-Za-z_]\w*)\s*(?::[^=]+)?=/);
+    if (!m) {
+      continue;
+    }
+
+    let end = i;
+    while (end + 1 < lines.length && (/^\s/.test(lines[end + 1]) || lines[end + 1] === '')) {
+      end++;
+    }
+    while (end > i && lines[end].trim() === '') {
+      end--;
+    }
+
+    const name = m[1] ?? m[2];
+    definitions.push({
+      name,
+      start: withLeadingComments(lines, i),
+      end,
+      exported: !name.startsWith('_'),
+    });
+    i = end;
+  }
+
+  return definitions;
+}
+
+function withLeadingComments(lines: string[], start: number): number {
+  let first = start;
+  while (first > 0 && /^\s*(?:\/\/|\/\*|\*|#|@)/.test(lines[first - 1])) {
+    first--;
+  }
+  return first;
+}
+
+/**
+ * Cut the definitions of the given names out of a file, long ones shortened.
+ * Returns undefined when none of the names is defined there.
+ */
+export function extractDefinitions(
+  filePath: string,
+  content: string,
+  names: string[]
+): string | undefined {
+  const lines = content.split('\n');
+  const wanted = new Set(names);
+  const excerpts = findDefinitions(filePath, content)
+    .filter((d) => wanted.has(d.name))
+    .map((d) => {
+      const last = Math.min(d.end, d.start + MAX_DEFINITION_LINES - 1);
+      const excerpt = lines.slice(d.start, last + 1);
+      if (last < d.end) {
+        excerpt.push(`... (${d.end - last} more lines)`);
+      }
+      return excerpt.join('\n');
+    });
+
+  return excerpts.length > 0 ? excerpts.join('\n\n') : undefined;
+}
+
+/**
+ * Exported names whose definition contains one of the given (1-based) lines.
+ */
+export function findChangedExports(filePath: string, content: string, lines: number[]): string[] {
+  return findDefinitions(filePath, content)
+    .filter((d) => d.exported && lines.some((line) => line - 1 >= d.start && line - 1 <= d.end))
+    .map((d) => d.name);
+}
+
+/**
+ * The lines of a file that mention one of the names, with a line of context
+ * around each. Returns undefined when no name is mentioned.
+ */
+export function extractUsages(content: string, names: string[], maxLines = 40): string | undefined {
+  const searchable = names.filter((name) => name !== 'default');
+  if (searchable.length === 0) {
+    return undefined;
+  }
+
+  const lines = content.split('\n');
+  const pattern = new RegExp(`\\b(?:${searchable.map(escapeRegExp).join('|')})\\b`);
+  const keep = new Set<number>();
+
+  lines.forEach((line, i) => {
+    if (pattern.test(line)) {
+      for (let j = Math.max(0, i - 1); j <= Math.min(lines.length - 1, i + 1); j++) {
+        keep.add(j);
+      }
+    }
+  });
+
+  if (keep.size === 0) {
+    return undefined;
+  }
+
+  const excerpt: string[] = [];
+  let previous = -1;
+
+  for (const i of [...keep].sort((a, b) => a - b)) {
+    if (excerpt.length >= maxLines) {
+      excerpt.push('...');
+      break;
+    }
+    if (previous !== -1 && i > previous + 1) {
+      excerpt.push('...');
+    }
+    excerpt.push(`${i + 1}: ${lines[i]}`);
+    previous = i;
+  }
+
+  return excerpt.join('\n');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
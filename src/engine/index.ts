@@ -1,2 +1,14 @@
 export * from './context.js';
+export * from './imports.js';
+export * from './test-files.js';
+export * from './stack.js';
 export * from './analyzer.js';
+export * from './fingerprint.js';
+export * from './packer.js';
+export * from './chunking.js';
+export * from './secrets.js';
+export * from './rules.js';
+export * from './suppressions.js';
+export * from './baseline.js';
+export * from './verification.js';
+export * from './gate.js';
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import type { ReviewRequest } from '../llm/types.js';
+import { estimateTokens, packReviewRequest } from './packer.js';
+
+const hunk = (start: number, body: string) => `@@ -${start},1 +${start},1 @@\n-old\n+${body}`;
+
+const fileContent = (lines: number) =>
+  Array.from({ length: lines }, (_, i) => `line ${i + 1}`).join('\n');
+
+const createRequest = (overrides: Partial<ReviewRequest> = {}): ReviewRequest => ({
+  pr: { title: 'Refactor', body: '', author: 'alice' },
+  diff: ['diff --git a/src/a.ts b/src/a.ts', hunk(10, 'changed a')].join('\n'),
+  changedFiles: [{ path: 'src/a.ts', content: fileContent(20), role: 'changed' }],
+  relatedFiles: [],
+  context: { contextFiles: [], instructions: [], patterns: [] },
+  categories: ['bugs'],
+  reviewMode: 'quick',
+  ...overrides,
+});
+
+describe('packReviewRequest', () => {
+  it('should keep everything when it fits', () => {
+    const request = createRequest({
+      relatedFiles: [{ path: 'src/b.ts', content: 'export const b = 1;', role: 'sibling' }],
+      context: {
+        contextFiles: [{ name: 'CLAUDE.md', content: 'Use tabs' }],
+        instructions: [],
+        patterns: [],
+      },
+    });
+
+    const { request: packed, report } = packReviewRequest(request, { contextWindow: 128_000 });
+
+    expect(packed.diff).toBe(request.diff);
+    expect(packed.changedFiles).toEqual(request.changedFiles);
+    expect(packed.relatedFiles).toHaveLength(1);
+    expect(packed.context.contextFiles).toHaveLength(1);
+    expect(report.omitted).toEqual([]);
+    expect(packed.omittedContext).toEqual([]);
+  });
+
+  it('should respect the prompt token cap', () => {
+    const { report } = packReviewRequest(createRequest(), {
+      contextWindow: 1_000_000,
+      maxPromptTokens: 5000,
+    });
+
+    expect(report.budgetTokens).toBe(5000);
+  });
+
+  it('should prefer diff hunks over related files and conventions', () => {
+    const big = 'x'.repeat(4000);
+    const request = createRequest({
+      relatedFiles: [{ path: 'src/related.ts', content: big, role: 'sibling' }],
+      context: {
+        contextFiles: [{ name: 'AGENTS.md', content: big }],
+        instructions: [],
+        patterns: [],
+      },
+    });
+    const baseline = packReviewRequest(createRequest(), { contextWindow: 100_000 }).report;
+
+    const { request: packed, report } = packReviewRequest(request, {
+      contextWindow: 100_000,
+      maxPromptTokens: baseline.usedTokens + 500,
+    });
+
+    expect(packed.diff).toContain('+changed a');
+    expect(packed.changedFiles).toHaveLength(1);
+    expect(packed.relatedFiles).toEqual([]);
+    expect(packed.context.contextFiles).toEqual([]);
+    expect(report.omitted.map((o) => o.kind)).toEqual(['conventions', 'related']);
+  });
+
+  it('should drop whole hunks that do not fit and keep smaller ones', () => {
+    const largeHunk = hunk(1, 'y'.repeat(8000));
+    const request = createRequest({
+      diff: [
+        'diff --git a/src/a.ts b/src/a.ts',
+        largeHunk,
+        hunk(10, 'small change'),
+        'diff --git a/src/c.ts b/src/c.ts',
+        hunk(3, 'other file'),
+      ].join('\n'),
+      changedFiles: [],
+    });
+    const baseline = packReviewRequest(createRequest({ diff: '', changedFiles: [] }), {
+      contextWindow: 100_000,
+    }).report;
+
+    const { request: packed, report } = packReviewRequest(request, {
+      contextWindow: 100_000,
+      maxPromptTokens: baseline.usedTokens + 200,
+    });
+
+    expect(packed.diff).not.toContain('yyyy');
+    expect(packed.diff).toContain('+small change');
+    expect(packed.diff).toContain('diff --git a/src/c.ts b/src/c.ts');
+    expect(report.omitted).toEqual([
+      { kind: 'diff', path: 'src/a.ts', detail: '1 of 2 diff hunks omitted' },
+    ]);
+  });
+
+  it('should include only the regions around hunks for large changed files', () => {
+    const content = fileContent(500);
+    const request = createRequest({
+      diff: ['diff --git a/src/a.ts b/src/a.ts', hunk(250, 'line 250')].join('\n'),
+      changedFiles: [{ path: 'src/a.ts', content, role: 'changed' }],
+    });
+    const baseline = packReviewRequest(createRequest({ changedFiles: [] }), {
+      contextWindow: 100_000,
+    }).report;
+
+    const { request: packed, report } = packReviewRequest(request, {
+      contextWindow: 100_000,
+      maxPromptTokens: baseline.usedTokens + estimateTokens(content) / 2,
+    });
+
+    const packedContent = packed.changedFiles[0].content;
+    expect(packedContent).toContain('... (lines 1-229 not shown)');
+    expect(packedContent).toContain('line 230\n');
+    expect(packedContent).toContain('line 270\n');
+    expect(packedContent).toContain('... (lines 271-500 not shown)');
+    expect(report.omitted).toEqual([
+      { kind: 'file', path: 'src/a.ts', detail: 'only the code around the changes included' },
+    ]);
+    expect(packed.omittedContext).toEqual(['src/a.ts: only the code around the changes included']);
+  });
+
+  it('should fail when the instructions alone leave no room for the diff', () => {
+    const request = createRequest({
+      context: {
+        contextFiles: [],
+        instructions: ['x'.repeat(40_000)],
+        patterns: [],
+      },
+    });
+
+    expect(() =>
+      packReviewRequest(request, { contextWindow: 1_000_000, maxPromptTokens: 5000 })
+    ).toThrow(/before any diff is added/);
+  });
+
+  it('should reserve room for tool results in deep mode', () => {
+    const quick = packReviewRequest(createRequest(), { contextWindow: 100_000 }).report;
+    const deep = packReviewRequest(createRequest({ reviewMode: 'deep' }), {
+      contextWindow: 100_000,
+    }).report;
+
+    expect(deep.budgetTokens).toBeLessThan(quick.budgetTokens);
+  });
+});
@@ -0,0 +1,377 @@
+import type { AIContextFile, FileContext, ReviewRequest } from '../llm/types.js';
+import {
+  buildReviewPrompt,
+  getDeepReviewSystemPrompt,
+  getSystemPrompt,
+} from '../prompts/review.js';
+
+/** Rough token estimate for code and English prose */
+const CHARS_PER_TOKEN = 4;
+
+/** Tokens kept free for the model's answer */
+const OUTPUT_RESERVE_TOKENS = 4096;
+
+/** Share of the context window left for tool results in deep mode */
+const DEEP_MODE_TOOL_SHARE = 0.25;
+
+/** Lines shown above and below each hunk when a changed file is too large to include whole */
+const REGION_CONTEXT_LINES = 20;
+
+/** Allowance for the heading and code fence wrapped around each item */
+const ITEM_OVERHEAD_TOKENS = 16;
+
+export interface PackingOptions {
+  /** Context window of the model in tokens */
+  contextWindow: number;
+  /** Upper bound for the prompt, regardless of the context window */
+  maxPromptTokens?: number;
+}
+
+export interface OmittedContent {
+  kind: 'diff' | 'file' | 'conventions' | 'related';
+  path: string;
+  /** What was left out, e.g. "3 of 10 diff hunks omitted" */
+  detail: string;
+}
+
+export interface PackingReport {
+  /** Tokens available for the prompt, including the system prompt */
+  budgetTokens: number;
+  /** Estimated tokens of the packed prompt */
+  usedTokens: number;
+  omitted: OmittedContent[];
+}
+
+export interface PackedRequest {
+  request: ReviewRequest;
+  report: PackingReport;
+}
+
+interface DiffHunk {
+  text: string;
+  newStart: number;
+  newEnd: number;
+  included: boolean;
+}
+
+interface DiffFile {
+  header: string;
+  path: string;
+  hunks: DiffHunk[];
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Fit a review request into the model's context window.
+ *
+ * Content is added by priority until the budget is spent: diff hunks, then
+ * changed files (regions around the hunks first, whole files if there is room),
+ * then convention files, then related files. Whole items are left out rather
+ * than cut mid-way, and everything left out is listed in the report and in
+ * `request.omittedContext` so the model knows what it cannot see.
+ *
+ * Throws when the instructions and PR details alone exceed the budget, since
+ * the model would then be sent no diff at all.
+ */
+export function packReviewRequest(request: ReviewRequest, options: PackingOptions): PackedRequest {
+  const budgetTokens = computeBudget(request, options);
+  const omitted: OmittedContent[] = [];
+
+  // Everything that is always sent: system prompt, PR details, instructions, patterns
+  const skeleton: ReviewRequest = {
+    ...request,
+    diff: '',
+    changedFiles: [],
+    relatedFiles: [],
+    context: { ...request.context, contextFiles: [] },
+  };
+  const systemPrompt =
+    request.reviewMode === 'deep' ? getDeepReviewSystemPrompt(request) : getSystemPrompt(request);
+  let used = estimateTokens(systemPrompt) + estimateTokens(buildReviewPrompt(skeleton));
+
+  // Without room for the diff the model would review nothing
+  if (used > budgetTokens && request.diff.trim()) {
+    throw new Error(
+      `The prompt needs ~${used} tokens before any diff is added, over the budget of ${budgetTokens}: shorten the instructions and patterns or raise review.max_prompt_tokens`
+    );
+  }
+
+  const fits = (tokens: number): boolean => used + tokens <= budgetTokens;
+
+  // 1. Diff hunks, skipping those that do not fit so smaller ones still make it in
+  const diffFiles = parseDiff(request.diff);
+
+  for (const file of diffFiles) {
+    const headerTokens = estimateTokens(file.header) + ITEM_OVERHEAD_TOKENS;
+    let headerAdded = false;
+
+    for (const hunk of file.hunks) {
+      const tokens = estimateTokens(hunk.text) + (headerAdded ? 0 : headerTokens);
+
+      if (fits(tokens)) {
+        used += tokens;
+        hunk.included = true;
+        headerAdded = true;
+      }
+    }
+
+    const dropped = file.hunks.filter((h) => !h.included).length;
+    if (dropped > 0) {
+      omitted.push({
+        kind: 'diff',
+        path: file.path,
+        detail:
+          dropped === file.hunks.length
+            ? 'diff omitted'
+            : `${dropped} of ${file.hunks.length} diff hunks omitted`,
+      });
+    }
+  }
+
+  // 2. Changed files: regions around the included hunks first, then whole files
+  const hunksByPath = new Map(diffFiles.map((f) => [f.path, f.hunks.filter((h) => h.included)]));
+  const packedFiles = request.changedFiles.map((file) => {
+    const full = file.content;
+    const regions = extractRegions(full, hunksByPath.get(file.path) || []);
+    return {
+      file,
+      full,
+      regions,
+      fullTokens: estimateTokens(full) + ITEM_OVERHEAD_TOKENS,
+      regionTokens: regions
+        ? estimateTokens(regions) + ITEM_OVERHEAD_TOKENS
+        : Number.POSITIVE_INFINITY,
+      state: 'omitted' as 'omitted' | 'regions' | 'full',
+    };
+  });
+
+  for (const packed of packedFiles) {
+    if (packed.fullTokens <= packed.regionTokens && fits(packed.fullTokens)) {
+      used += packed.fullTokens;
+      packed.state = 'full';
+    } else if (packed.regionTokens < packed.fullTokens && fits(packed.regionTokens)) {
+      used += packed.regionTokens;
+      packed.state = 'regions';
+    }
+  }
+
+  for (const packed of packedFiles) {
+    const extra = packed.fullTokens - packed.regionTokens;
+    if (packed.state === 'regions' && fits(extra)) {
+      used += extra;
+      packed.state = 'full';
+    }
+  }
+
+  const changedFiles: FileContext[] = [];
+  for (const packed of packedFiles) {
+    if (packed.state === 'omitted') {
+      omitted.push({ kind: 'file', path: packed.file.path, detail: 'file content omitted' });
+      continue;
+    }
+
+    if (packed.state === 'regions') {
+      omitted.push({
+        kind: 'file',
+        path: packed.file.path,
+        detail: 'only the code around the changes included',
+      });
+    }
+
+    changedFiles.push({
+      ...packed.file,
+      content: packed.state === 'full' ? packed.full : (packed.regions as string),
+    });
+  }
+
+  // 3. Convention files (CLAUDE.md, AGENTS.md, ...)
+  const contextFiles: AIContextFile[] = [];
+  for (const ctxFile of request.context.contextFiles) {
+    const tokens = estimateTokens(ctxFile.content) + ITEM_OVERHEAD_TOKENS;
+
+    if (fits(tokens)) {
+      used += tokens;
+      contextFiles.push(ctxFile);
+    } else {
+      omitted.push({ kind: 'conventions', path: ctxFile.name, detail: 'convention file omitted' });
+    }
+  }
+
+  // 4. Related files for pattern reference
+  const relatedFiles: FileContext[] = [];
+  for (const file of request.relatedFiles) {
+    const tokens = estimateTokens(file.content) + ITEM_OVERHEAD_TOKENS;
+
+    if (fits(tokens)) {
+      used += tokens;
+      relatedFiles.push(file);
+    } else {
+      omitted.push({ kind: 'related', path: file.path, detail: 'related file omitted' });
+    }
+  }
+
+  return {
+    request: {
+      ...request,
+      diff: renderDiff(diffFiles),
+      changedFiles,
+      relatedFiles,
+      context: { ...request.context, contextFiles },
+      omittedContext: omitted.map((o) => `${o.path}: ${o.detail}`),
+    },
+    report: { budgetTokens, usedTokens: used, omitted },
+  };
+}
+
+/**
+ * Split a combined diff into per-file diffs keyed by path.
+ */
+export function splitDiffByFile(diff: string): Map<string, string> {
+  const result = new Map<string, string>();
+
+  for (const file of parseDiff(diff)) {
+    const parts = file.header ? [file.header] : [];
+    parts.push(...file.hunks.map((h) => h.text));
+    result.set(file.path, parts.join('\n'));
+  }
+
+  return result;
+}
+
+/**
+ * Tokens available for the prompt of the given request, including the system prompt.
+ */
+export function computeBudget(request: ReviewRequest, options: PackingOptions): number {
+  // Deep mode needs room for the files the model reads with tools
+  const window =
+    request.reviewMode === 'deep'
+      ? Math.floor(options.contextWindow * (1 - DEEP_MODE_TOOL_SHARE))
+      : options.contextWindow;
+
+  return Math.min(
+    window - OUTPUT_RESERVE_TOKENS,
+    options.maxPromptTokens ?? Number.POSITIVE_INFINITY
+  );
+}
+
+/**
+ * Split a combined diff (as built by ContextCollector) into files and hunks.
+ */
+function parseDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  let currentFile: DiffFile | undefined;
+  let currentHunk: string[] | undefined;
+
+  const closeHunk = () => {
+    if (currentFile && currentHunk) {
+      const range = currentHunk[0].match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+      const newStart = range ? Number.parseInt(range[1], 10) : 1;
+      const newCount = range?.[2] !== undefined ? Number.parseInt(range[2], 10) : 1;
+
+      currentFile.hunks.push({
+        text: currentHunk.join('\n'),
+        newStart,
+        newEnd: newStart + Math.max(newCount, 1) - 1,
+        included: false,
+      });
+    }
+    currentHunk = undefined;
+  };
+
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('diff --git ')) {
+      closeHunk();
+      currentFile = { header: line, path: line.match(/ b\/(.+)$/)?.[1] || '', hunks: [] };
+      files.push(currentFile);
+    } else if (line.startsWith('@@')) {
+      closeHunk();
+      if (!currentFile) {
+        currentFile = { header: '', path: '', hunks: [] };
+        files.push(currentFile);
+      }
+      currentHunk = [line];
+    } else if (currentHunk) {
+      currentHunk.push(line);
+    } else if (currentFile && line) {
+      currentFile.header += `\n${line}`;
+    }
+  }
+  closeHunk();
+
+  const withHunks = files.filter((f) => f.hunks.length > 0);
+
+  // Not a unified diff: keep it as a single unit rather than dropping it
+  if (withHunks.length === 0 && diff.trim()) {
+    return [
+      { header: '', path: '', hunks: [{ text: diff, newStart: 1, newEnd: 1, included: false }] },
+    ];
+  }
+
+  return withHunks;
+}
+
+function renderDiff(files: DiffFile[]): string {
+  const parts: string[] = [];
+
+  for (const file of files) {
+    const hunks = file.hunks.filter((h) => h.included);
+
+    if (hunks.length > 0) {
+      if (file.header) {
+        parts.push(file.header);
+      }
+      parts.push(...hunks.map((h) => h.text));
+    }
+  }
+
+  return parts.join('\n');
+}
+
+/**
+ * Keep only the lines around the given hunks, marking the gaps.
+ * Returns undefined when there are no hunks to anchor the regions to.
+ */
+function extractRegions(content: string, hunks: DiffHunk[]): string | undefined {
+  if (hunks.length === 0) {
+    return undefined;
+  }
+
+  const lines = content.split('\n');
+  const ranges = hunks
+    .map((h) => [
+      Math.max(1, h.newStart - REGION_CONTEXT_LINES),
+      Math.min(lines.length, h.newEnd + REGION_CONTEXT_LINES),
+    ])
+    .sort((a, b) => a[0] - b[0]);
+
+  // Merge overlapping or adjacent ranges
+  const merged: number[][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1] + 1) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([...range]);
+    }
+  }
+
+  const parts: string[] = [];
+  let nextLine = 1;
+
+  for (const [start, end] of merged) {
+    if (start > nextLine) {
+      parts.push(`... (lines ${nextLine}-${start - 1} not shown)`);
+    }
+    parts.push(lines.slice(start - 1, end).join('\n'));
+    nextLine = end + 1;
+  }
+
+  if (nextLine <= lines.length) {
+    parts.push(`... (lines ${nextLine}-${lines.length} not shown)`);
+  }
+
+  return parts.join('\n');
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { type Rule, RuleSchema } from '../config/schema.js';
+import { runRules } from './rules.js';
+
+const createRule = (overrides: Partial<Rule> = {}): Rule =>
+  RuleSchema.parse({
+    id: 'no-console',
+    pattern: 'console\\.log\\(',
+    message: 'Remove console.log before merging',
+    ...overrides,
+  });
+
+const diff = [
+  'diff --git a/src/api.ts b/src/api.ts',
+  '@@ -10,2 +10,3 @@',
+  ' export function handle() {',
+  '+  console.log(request);',
+  '   return ok();',
+  'diff --git a/src/api.test.ts b/src/api.test.ts',
+  '@@ -1,0 +1,1 @@',
+  '+console.log("debug");',
+].join('\n');
+
+describe('runRules', () => {
+  it('should report each matching added line', () => {
+    const issues = runRules(diff, [createRule({ fix: 'Use the logger instead' })]);
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toMatchObject({
+      file: 'src/api.ts',
+      line: 11,
+      severity: 'warning',
+      category: 'best-practices',
+      title: 'Remove console.log before merging',
+      suggestion: 'Use the logger instead',
+      source: 'rule',
+      ruleId: 'no-console',
+    });
+  });
+
+  it('should respect path and exclude globs', () => {
+    const issues = runRules(diff, [createRule({ paths: ['src/**'], exclude: ['**/*.test.ts'] })]);
+
+    expect(issues.map((i) => i.file)).toEqual(['src/api.ts']);
+  });
+
+  it('should offer the replacement as a suggestion', () => {
+    const [issue] = runRules(diff, [
+      createRule({ pattern: 'console\\.log\\((.*)\\)', replace: 'logger.debug($1)' }),
+    ]);
+
+    expect(issue.codeBlock).toBe('  logger.debug(request);');
+    expect(issue.replacement).toBe(true);
+  });
+
+  it('should ignore removed and context lines', () => {
+    const removed = ['diff --git a/a.ts b/a.ts', '@@ -1,1 +1,0 @@', '-console.log(1);'].join('\n');
+
+    expect(runRules(removed, [createRule()])).toEqual([]);
+  });
+});
@@ -0,0 +1,49 @@
+import { minimatch } from 'minimatch';
+import type { Rule } from '../config/schema.js';
+import type { ReviewIssue } from '../llm/types.js';
+import { listAddedLines } from './diff-lines.js';
+
+/**
+ * Run the configured rules over the added lines of a combined diff.
+ * Each matching line becomes one issue, tagged with the rule id.
+ */
+export function runRules(diff: string, rules: Rule[]): ReviewIssue[] {
+  if (rules.length === 0) {
+    return [];
+  }
+
+  const compiled = rules.map((rule) => ({ rule, regex: new RegExp(rule.pattern) }));
+  const issues: ReviewIssue[] = [];
+
+  for (const { file, line, text } of listAddedLines(diff)) {
+    for (const { rule, regex } of compiled) {
+      if (!appliesTo(rule, file) || !regex.test(text)) {
+        continue;
+      }
+
+      issues.push({
+        severity: rule.severity,
+        category: rule.category,
+        file,
+        line,
+        title: rule.message,
+        description: `This line matches the team rule \`${rule.id}\`.`,
+        suggestion: rule.fix,
+        ...(rule.replace !== undefined
+          ? { codeBlock: text.replace(regex, rule.replace), replacement: true }
+          : {}),
+        source: 'rule',
+        ruleId: rule.id,
+      });
+    }
+  }
+
+  return issues;
+}
+
+function appliesTo(rule: Rule, file: string): boolean {
+  return (
+    rule.paths.some((pattern) => minimatch(file, pattern)) &&
+    !rule.exclude.some((pattern) => minimatch(file, pattern))
+  );
+}
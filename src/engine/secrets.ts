@@ -0,0 +1,260 @@
+import * as core from '@actions/core';
+import { minimatch } from 'minimatch';
+import type { SecretsConfig } from '../config/schema.js';
+import type { ReviewIssue, ReviewRequest } from '../llm/types.js';
+import { listAddedLines } from './diff-lines.js';
+
+interface SecretRule {
+  id: string;
+  /** Human-readable name of the credential, e.g. "AWS access key" */
+  description: string;
+  pattern: RegExp;
+  /** Capture group holding the secret, when the pattern also matches its surroundings */
+  group?: number;
+}
+
+export interface SecretMatch {
+  rule: string;
+  description: string;
+  value: string;
+}
+
+export interface SecretFinding extends SecretMatch {
+  file: string;
+  /** Line in the new file */
+  line: number;
+}
+
+/** Known credential formats, checked before the entropy heuristic */
+const SECRET_RULES: SecretRule[] = [
+  {
+    id: 'aws-access-key-id',
+    description: 'AWS access key ID',
+    pattern: /\b(?:AKIA|ASIA|AGPA|AIDA|AROA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    id: 'aws-secret-access-key',
+    description: 'AWS secret access key',
+    pattern:
+      /aws[\w.-]{0,20}?(?:secret|key)[\w.-]{0,20}['"]?\s*[:=]\s*['"]?([A-Za-z0-9/+]{40})\b/gi,
+    group: 1,
+  },
+  {
+    id: 'github-token',
+    description: 'GitHub token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36}|github_pat_[A-Za-z0-9_]{82})\b/g,
+  },
+  {
+    id: 'slack-token',
+    description: 'Slack token',
+    pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g,
+  },
+  {
+    id: 'slack-webhook',
+    description: 'Slack webhook URL',
+    pattern: /https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9_/]+/g,
+  },
+  {
+    id: 'private-key',
+    description: 'private key',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g,
+  },
+  {
+    id: 'jwt',
+    description: 'JSON Web Token',
+    pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+  },
+  {
+    id: 'google-api-key',
+    description: 'Google API key',
+    pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  },
+  {
+    id: 'stripe-secret-key',
+    description: 'Stripe secret key',
+    pattern: /\b[sr]k_live_[0-9A-Za-z]{20,}\b/g,
+  },
+];
+
+/** Quoted or assigned values long enough to be a key, checked for randomness */
+const HIGH_ENTROPY_CANDIDATE = /(?:['"`]|[=:]\s*)([A-Za-z0-9+/_-]{20,}={0,2})(?=['"`\s,;]|$)/gm;
+
+/** Everything from a private key header to its footer, so the key body is removed too */
+const PRIVATE_KEY_BLOCK =
+  /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?(?:-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----|$(?![\s\S]))/g;
+
+const REDACTED = '[REDACTED SECRET]';
+
+/** Compiled allowlists, so invalid patterns are reported once per config */
+const allowlistCache = new WeakMap<string[], RegExp[]>();
+
+/**
+ * Find credentials in a piece of text. Values matching an allowlist pattern are ignored.
+ */
+export function findSecrets(text: string, config: SecretsConfig): SecretMatch[] {
+  const allowlist = compileAllowlist(config.allowlist.patterns);
+  const matches: SecretMatch[] = [];
+  const seen = new Set<string>();
+
+  const add = (match: SecretMatch) => {
+    if (!seen.has(match.value) && !allowlist.some((re) => re.test(match.value))) {
+      seen.add(match.value);
+      matches.push(match);
+    }
+  };
+
+  for (const rule of SECRET_RULES) {
+    for (const m of text.matchAll(rule.pattern)) {
+      const value = m[rule.group ?? 0];
+      if (value) {
+        add({ rule: rule.id, description: rule.description, value });
+      }
+    }
+  }
+
+  if (config.high_entropy) {
+    for (const m of text.matchAll(HIGH_ENTROPY_CANDIDATE)) {
+      const value = m[1];
+      const covered = matches.some((s) => s.value.includes(value) || value.includes(s.value));
+
+      if (!covered && looksRandom(value, config.entropy_threshold)) {
+        add({ rule: 'high-entropy-string', description: 'high-entropy string', value });
+      }
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Find credentials on the added lines of a combined diff (as built by ContextCollector).
+ */
+export function scanDiffForSecrets(diff: string, config: SecretsConfig): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+
+  for (const { file, line, text } of listAddedLines(diff)) {
+    if (config.allowlist.paths.some((pattern) => minimatch(file, pattern))) {
+      continue;
+    }
+
+    for (const match of findSecrets(text, config)) {
+      findings.push({ ...match, file, line });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Replace the given secrets, and any private key block, with a placeholder.
+ */
+export function redactSecrets(text: string, values: string[]): string {
+  let result = text.replace(PRIVATE_KEY_BLOCK, REDACTED);
+
+  // Longest first, so a secret containing another is replaced whole
+  for (const value of [...values].sort((a, b) => b.length - a.length)) {
+    result = result.split(value).join(REDACTED);
+  }
+
+  return result;
+}
+
+/**
+ * Redact every credential found in the text, e.g. in tool results sent to the model.
+ */
+export function redactText(text: string, config: SecretsConfig): string {
+  return redactSecrets(
+    text,
+    findSecrets(text, config).map((s) => s.value)
+  );
+}
+
+/**
+ * Remove credentials from everything a review request sends to the provider:
+ * PR description, diff, changed and related files and convention files.
+ */
+export function redactRequest(request: ReviewRequest, config: SecretsConfig): ReviewRequest {
+  const texts = [
+    request.pr.title,
+    request.pr.body,
+    request.diff,
+    ...request.changedFiles.map((f) => f.content),
+    ...request.relatedFiles.map((f) => f.content),
+    ...request.context.contextFiles.map((f) => f.content),
+  ];
+  const values = [...new Set(texts.flatMap((t) => findSecrets(t, config).map((s) => s.value)))];
+  const redact = (text: string) => redactSecrets(text, values);
+
+  return {
+    ...request,
+    pr: { ...request.pr, title: redact(request.pr.title), body: redact(request.pr.body) },
+    diff: redact(request.diff),
+    changedFiles: request.changedFiles.map((f) => ({ ...f, content: redact(f.content) })),
+    relatedFiles: request.relatedFiles.map((f) => ({ ...f, content: redact(f.content) })),
+    context: {
+      ...request.context,
+      contextFiles: request.context.contextFiles.map((f) => ({ ...f, content: redact(f.content) })),
+    },
+  };
+}
+
+export function toSecretIssue(finding: SecretFinding): ReviewIssue {
+  return {
+    severity: 'critical',
+    category: 'security',
+    file: finding.file,
+    line: finding.line,
+    title: `Possible ${finding.description} committed`,
+    description: `A value that looks like a ${finding.description} (\`${mask(finding.value)}\`) was added. It was redacted before the review was sent to the AI provider, but it is now part of the git history.`,
+    suggestion:
+      'Remove the value, rotate the credential, and load it from an environment variable or a secret manager instead.',
+    source: 'secrets',
+  };
+}
+
+/**
+ * Shannon entropy in bits per character.
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+
+  return entropy;
+}
+
+function looksRandom(value: string, threshold: number): boolean {
+  // Identifiers and paths rarely mix digits and letters this way
+  return /[0-9]/.test(value) && /[A-Za-z]/.test(value) && shannonEntropy(value) >= threshold;
+}
+
+function mask(value: string): string {
+  return `${value.slice(0, 4)}****`;
+}
+
+function compileAllowlist(patterns: string[]): RegExp[] {
+  const cached = allowlistCache.get(patterns);
+  if (cached) {
+    return cached;
+  }
+
+  const compiled: RegExp[] = [];
+
+  for (const pattern of patterns) {
+    try {
+      compiled.push(new RegExp(pattern));
+    } catch (error) {
+      core.warning(`Ignoring invalid secrets allowlist pattern ${pattern}: ${error}`);
+    }
+  }
+
+  allowlistCache.set(patterns, compiled);
+  return compiled;
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { detectStack, isManifest } from './stack.js';
+
+describe('isManifest', () => {
+  it('should recognise manifests near the repository root', () => {
+    expect(isManifest('package.json')).toBe(true);
+    expect(isManifest('apps/web/package.json')).toBe(true);
+    expect(isManifest('backend/pyproject.toml')).toBe(true);
+    expect(isManifest('a/b/c/package.json')).toBe(false);
+    expect(isManifest('src/package.ts')).toBe(false);
+  });
+});
+
+describe('detectStack', () => {
+  it('should read frameworks and test runners from package.json dependencies', () => {
+    const manifests = new Map([
+      [
+        'package.json',
+        JSON.stringify({
+          name: 'web',
+          description: 'Not a django app',
+          dependencies: { next: '^14.0.0', react: '^18.0.0', 'react-dom': '^18.0.0' },
+          devDependencies: { typescript: '^5.0.0', vitest: '^1.0.0' },
+        }),
+      ],
+    ]);
+
+    const stack = detectStack(['app/page.tsx', 'app/layout.tsx'], manifests);
+
+    expect(stack).toEqual({
+      languages: ['TypeScript'],
+      frameworks: ['Next.js'],
+      testRunners: ['Vitest'],
+    });
+  });
+
+  it('should read Python, Go, Rust, JVM and Ruby manifests', () => {
+    const manifests = new Map([
+      ['api/pyproject.toml', '[project]\ndependencies = [\n  "Django>=5.0",\n  "pytest",\n]'],
+      ['svc/go.mod', 'module example.com/svc\n\nrequire github.com/gin-gonic/gin v1.9.1'],
+      ['engine/Cargo.toml', '[package]\nname = "engine"\n\n[dependencies]\naxum = "0.7"'],
+      [
+        'pom.xml',
+        '<dependency><groupId>org.springframework.boot</groupId><artifactId>spring-boot-starter-web</artifactId></dependency>',
+      ],
+      ['Gemfile', "source 'https://rubygems.org'\ngem 'rails', '~> 7.1'\ngem 'rspec-rails'"],
+    ]);
+
+    const stack = detectStack([], manifests);
+
+    expect(stack.frameworks).toEqual(['Django', 'Gin', 'Axum', 'Spring Boot', 'Rails']);
+    expect(stack.testRunners).toEqual(['pytest', 'go test', 'cargo test', 'RSpec']);
+  });
+
+  it('should not match dependencies that only share a prefix', () => {
+    const manifests = new Map([
+      ['requirements.txt', 'djangorestframework-stubs==3.14\nflask-cors==4.0'],
+      ['package.json', JSON.stringify({ dependencies: { 'react-router': '^6.0.0' } })],
+    ]);
+
+    expect(detectStack([], manifests).frameworks).toEqual([]);
+  });
+
+  it('should rank languages by file count and drop rare ones unless changed', () => {
+    const files = [
+      ...Array.from({ length: 30 }, (_, i) => `src/module${i}.py`),
+      'scripts/build.sh',
+      'scripts/release.go',
+      'docs/index.md',
+    ];
+
+    expect(detectStack(files, new Map()).languages).toEqual(['Python']);
+    expect(detectStack(files, new Map(), ['scripts/release.go']).languages).toEqual([
+      'Python',
+      'Go',
+    ]);
+  });
+});
@@ -0,0 +1,237 @@
+import * as path from 'node:path';
+import type { CodebaseStack } from '../llm/types.js';
+
+interface StackSignature {
+  name: string;
+  kind: 'language' | 'framework' | 'testRunner';
+  /** Manifest file names the signature is looked for in */
+  manifests: string[];
+  /** Matched against the manifest's dependency names (package.json) or its content */
+  pattern: RegExp;
+}
+
+/** Manifests read to detect frameworks, by file name */
+export const MANIFEST_FILES = [
+  'package.json',
+  'pyproject.toml',
+  'requirements.txt',
+  'Pipfile',
+  'setup.py',
+  'go.mod',
+  'Cargo.toml',
+  'pom.xml',
+  'build.gradle',
+  'build.gradle.kts',
+  'Gemfile',
+  'composer.json',
+];
+
+/** Manifests deeper than this (e.g. `apps/web/package.json` is depth 2) are not read */
+export const MAX_MANIFEST_DEPTH = 2;
+
+const LANGUAGES_BY_EXTENSION: Record<string, string> = {
+  '.ts': 'TypeScript',
+  '.tsx': 'TypeScript',
+  '.mts': 'TypeScript',
+  '.cts': 'TypeScript',
+  '.js': 'JavaScript',
+  '.jsx': 'JavaScript',
+  '.mjs': 'JavaScript',
+  '.cjs': 'JavaScript',
+  '.py': 'Python',
+  '.go': 'Go',
+  '.rs': 'Rust',
+  '.java': 'Java',
+  '.kt': 'Kotlin',
+  '.scala': 'Scala',
+  '.rb': 'Ruby',
+  '.php': 'PHP',
+  '.cs': 'C#',
+  '.swift': 'Swift',
+  '.c': 'C',
+  '.cpp': 'C++',
+  '.cc': 'C++',
+};
+
+/** Languages below this share of the source files only count when a changed file uses them */
+const MIN_LANGUAGE_SHARE = 0.05;
+
+const JS = ['package.json'];
+const PYTHON = ['pyproject.toml', 'requirements.txt', 'Pipfile', 'setup.py'];
+const GO = ['go.mod'];
+const RUST = ['Cargo.toml'];
+const JVM = ['pom.xml', 'build.gradle', 'build.gradle.kts'];
+const RUBY = ['Gemfile'];
+const PHP = ['composer.json'];
+
+/**
+ * A dependency name as it appears in a manifest: at the start of a line or
+ * after a quote or space, and followed by a version, quote, separator or line end.
+ */
+function dependency(name: string): RegExp {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?:^|["'\\s<>])${escaped}(?=$|["'\\s<>=~!^\\[;,:@/])`, 'im');
+}
+
+const SIGNATURES: StackSignature[] = [
+  { name: 'TypeScript', kind: 'language', manifests: JS, pattern: dependency('typescript') },
+  { name: 'Next.js', kind: 'framework', manifests: JS, pattern: dependency('next') },
+  { name: 'React Native', kind: 'framework', manifests: JS, pattern: dependency('react-native') },
+  { name: 'React', kind: 'framework', manifests: JS, pattern: dependency('react') },
+  { name: 'Nuxt', kind: 'framework', manifests: JS, pattern: dependency('nuxt') },
+  { name: 'Vue', kind: 'framework', manifests: JS, pattern: dependency('vue') },
+  { name: 'Angular', kind: 'framework', manifests: JS, pattern: dependency('@angular/core') },
+  { name: 'SvelteKit', kind: 'framework', manifests: JS, pattern: dependency('@sveltejs/kit') },
+  { name: 'Svelte', kind: 'framework', manifests: JS, pattern: dependency('svelte') },
+  { name: 'NestJS', kind: 'framework', manifests: JS, pattern: dependency('@nestjs/core') },
+  { name: 'Express', kind: 'framework', manifests: JS, pattern: dependency('express') },
+  { name: 'Fastify', kind: 'framework', manifests: JS, pattern: dependency('fastify') },
+  { name: 'Prisma', kind: 'framework', manifests: JS, pattern: dependency('@prisma/client') },
+  { name: 'Jest', kind: 'testRunner', manifests: JS, pattern: dependency('jest') },
+  { name: 'Vitest', kind: 'testRunner', manifests: JS, pattern: dependency('vitest') },
+  { name: 'Mocha', kind: 'testRunner', manifests: JS, pattern: dependency('mocha') },
+  {
+    name: 'Playwright',
+    kind: 'testRunner',
+    manifests: JS,
+    pattern: dependency('@playwright/test'),
+  },
+  { name: 'Cypress', kind: 'testRunner', manifests: JS, pattern: dependency('cypress') },
+  { name: 'Django', kind: 'framework', manifests: PYTHON, pattern: dependency('django') },
+  { name: 'Flask', kind: 'framework', manifests: PYTHON, pattern: dependency('flask') },
+  { name: 'FastAPI', kind: 'framework', manifests: PYTHON, pattern: dependency('fastapi') },
+  { name: 'SQLAlchemy', kind: 'framework', manifests: PYTHON, pattern: dependency('sqlalchemy') },
+  { name: 'pytest', kind: 'testRunner', manifests: PYTHON, pattern: dependency('pytest') },
+  {
+    name: 'Gin',
+    kind: 'framework',
+    manifests: GO,
+    pattern: dependency('github.com/gin-gonic/gin'),
+  },
+  {
+    name: 'Echo',
+    kind: 'framework',
+    manifests: GO,
+    pattern: dependency('github.com/labstack/echo'),
+  },
+  {
+    name: 'Fiber',
+    kind: 'framework',
+    manifests: GO,
+    pattern: dependency('github.com/gofiber/fiber'),
+  },
+  { name: 'GORM', kind: 'framework', manifests: GO, pattern: dependency('gorm.io/gorm') },
+  { name: 'go test', kind: 'testRunner', manifests: GO, pattern: /^module\s/m },
+  { name: 'Actix Web', kind: 'framework', manifests: RUST, pattern: dependency('actix-web') },
+  { name: 'Axum', kind: 'framework', manifests: RUST, pattern: dependency('axum') },
+  { name: 'Rocket', kind: 'framework', manifests: RUST, pattern: dependency('rocket') },
+  { name: 'Tokio', kind: 'framework', manifests: RUST, pattern: dependency('tokio') },
+  { name: 'cargo test', kind: 'testRunner', manifests: RUST, pattern: /^\[package\]/m },
+  { name: 'Spring Boot', kind: 'framework', manifests: JVM, pattern: /spring-boot/ },
+  { name: 'Spring', kind: 'framework', manifests: JVM, pattern: /org\.springframework/ },
+  { name: 'Quarkus', kind: 'framework', manifests: JVM, pattern: /io\.quarkus/ },
+  { name: 'JUnit', kind: 'testRunner', manifests: JVM, pattern: /junit/i },
+  { name: 'Rails', kind: 'framework', manifests: RUBY, pattern: /^\s*gem\s+["']rails["']/m },
+  { name: 'Sinatra', kind: 'framework', manifests: RUBY, pattern: /^\s*gem\s+["']sinatra["']/m },
+  {
+    name: 'RSpec',
+    kind: 'testRunner',
+    manifests: RUBY,
+    pattern: /^\s*gem\s+["']rspec(?:-rails)?["']/m,
+  },
+  { name: 'Minitest', kind: 'testRunner', manifests: RUBY, pattern: /^\s*gem\s+["']minitest["']/m },
+  { name: 'Laravel', kind: 'framework', manifests: PHP, pattern: /"laravel\/framework"/ },
+  { name: 'Symfony', kind: 'framework', manifests: PHP, pattern: /"symfony\/framework-bundle"/ },
+  { name: 'PHPUnit', kind: 'testRunner', manifests: PHP, pattern: /"phpunit\/phpunit"/ },
+];
+
+/** Frameworks implied by a more specific one, left out to keep the list short */
+const IMPLIED: Record<string, string[]> = {
+  'Next.js': ['React'],
+  'React Native': ['React'],
+  Nuxt: ['Vue'],
+  SvelteKit: ['Svelte'],
+  'Spring Boot': ['Spring'],
+};
+
+export function isManifest(filePath: string): boolean {
+  return (
+    MANIFEST_FILES.includes(path.posix.basename(filePath)) &&
+    filePath.split('/').length - 1 <= MAX_MANIFEST_DEPTH
+  );
+}
+
+/**
+ * Infer the languages, frameworks and test runners of a repository.
+ *
+ * @param files - Files in the repository, used to count languages by extension
+ * @param manifests - Content of the manifest files, by path
+ * @param changedFiles - Files changed in the pull request, whose languages always count
+ */
+export function detectStack(
+  files: string[],
+  manifests: Map<string, string>,
+  changedFiles: string[] = []
+): CodebaseStack {
+  const found = {
+    language: new Set<string>(),
+    framework: new Set<string>(),
+    testRunner: new Set<string>(),
+  };
+
+  for (const [manifestPath, content] of manifests) {
+    const name = path.posix.basename(manifestPath);
+    const text = name === 'package.json' ? packageDependencies(content) : content;
+
+    for (const signature of SIGNATURES) {
+      if (signature.manifests.includes(name) && signature.pattern.test(text)) {
+        found[signature.kind].add(signature.name);
+      }
+    }
+  }
+
+  for (const implied of [...found.framework].flatMap((f) => IMPLIED[f] || [])) {
+    found.framework.delete(implied);
+  }
+
+  return {
+    languages: [...new Set([...countLanguages(files, changedFiles), ...found.language])],
+    frameworks: [...found.framework],
+    testRunners: [...found.testRunner],
+  };
+}
+
+/** Languages by number of files, most used first */
+function countLanguages(files: string[], changedFiles: string[]): string[] {
+  const counts = new Map<string, number>();
+  let total = 0;
+
+  for (const file of files) {
+    const language = LANGUAGES_BY_EXTENSION[path.posix.extname(file)];
+    if (language) {
+      counts.set(language, (counts.get(language) || 0) + 1);
+      total++;
+    }
+  }
+
+  const changed = new Set(changedFiles.map((f) => LANGUAGES_BY_EXTENSION[path.posix.extname(f)]));
+
+  return [...counts.entries()]
+    .filter(([language, count]) => count / total >= MIN_LANGUAGE_SHARE || changed.has(language))
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([language]) => language);
+}
+
+/** Dependency names of a package.json, one per line; empty when it cannot be parsed */
+function packageDependencies(content: string): string {
+  try {
+    const pkg = JSON.parse(content);
+    return [
+      ...Object.keys(pkg.dependencies ?? {}),
+      ...Object.keys(pkg.devDependencies ?? {}),
+      ...Object.keys(pkg.peerDependencies ?? {}),
+    ].join('\n');
+  } catch {
+    return '';
+  }
+}
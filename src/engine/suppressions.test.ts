@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { ReviewIssue } from '../llm/types.js';
+import { applySuppressions, isIgnoredInline, parseIgnoreDirective } from './suppressions.js';
+
+const issue = (overrides: Partial<ReviewIssue> = {}): ReviewIssue => ({
+  severity: 'warning',
+  category: 'security',
+  file: 'src/db.ts',
+  line: 3,
+  title: 'SQL Injection',
+  description: 'User input concatenated into query',
+  ...overrides,
+});
+
+const withComment = (comment: string, onLine = false) =>
+  [
+    'import db from "./db";',
+    onLine ? '' : comment,
+    `db.query("SELECT * FROM users WHERE id=" + id);${onLine ? ` ${comment}` : ''}`,
+    '',
+  ].join('\n');
+
+describe('parseIgnoreDirective', () => {
+  it('should parse bare and targeted directives in any comment syntax', () => {
+    expect(parseIgnoreDirective('// sentinel-ignore')).toEqual([]);
+    expect(parseIgnoreDirective('# sentinel-ignore: security')).toEqual(['security']);
+    expect(parseIgnoreDirective('/* sentinel-ignore: bugs, no-console */')).toEqual([
+      'bugs',
+      'no-console',
+    ]);
+  });
+
+  it('should return undefined without a directive', () => {
+    expect(parseIgnoreDirective('const ignore = true;')).toBeUndefined();
+    expect(parseIgnoreDirective('// sentinel-ignored')).toBeUndefined();
+  });
+});
+
+describe('isIgnoredInline', () => {
+  it('should honour a directive on the line above or on the flagged line', () => {
+    expect(isIgnoredInline(issue(), withComment('// sentinel-ignore'))).toBe(true);
+    expect(isIgnoredInline(issue(), withComment('// sentinel-ignore', true))).toBe(true);
+  });
+
+  it('should only ignore the targeted category or rule', () => {
+    const content = withComment('// sentinel-ignore: bugs, no-raw-sql');
+
+    expect(isIgnoredInline(issue(), content)).toBe(false);
+    expect(isIgnoredInline(issue({ category: 'bugs' }), content)).toBe(true);
+    expect(isIgnoredInline(issue({ source: 'rule', ruleId: 'no-raw-sql' }), content)).toBe(true);
+  });
+
+  it('should not look further than the line above', () => {
+    expect(isIgnoredInline(issue({ line: 4 }), withComment('// sentinel-ignore'))).toBe(false);
+  });
+
+  it('should not apply to removed lines', () => {
+    expect(isIgnoredInline(issue({ side: 'old' }), withComment('// sentinel-ignore'))).toBe(false);
+  });
+});
+
+describe('applySuppressions', () => {
+  it('should separate ignored, baselined and reported issues', () => {
+    const ignored = issue();
+    const baselined = issue({ file: 'src/api.ts', fingerprint: 'abc123' });
+    const reported = issue({ file: 'src/api.ts', fingerprint: 'def456' });
+    const contents = new Map([
+      ['src/db.ts', withComment('// sentinel-ignore: security')],
+      ['src/api.ts', 'export {};\n'],
+    ]);
+
+    const result = applySuppressions([ignored, baselined, reported], contents, new Set(['abc123']));
+
+    expect(result.issues).toEqual([reported]);
+    expect(result.suppressed).toEqual({ inline: [ignored], baseline: [baselined] });
+  });
+});
@@ -0,0 +1,83 @@
+import type { ReviewIssue } from '../llm/types.js';
+
+/**
+ * `sentinel-ignore`, optionally followed by `: target[, target...]` where each
+ * target is a category or a rule id. Works in any comment syntax.
+ */
+const IGNORE_DIRECTIVE = /sentinel-ignore(?![\w-])(?:\s*:\s*([\w.-]+(?:\s*,\s*[\w.-]+)*))?/;
+
+export interface SuppressedIssues {
+  /** Issues silenced by a `sentinel-ignore` comment */
+  inline: ReviewIssue[];
+  /** Issues whose fingerprint is listed in the baseline file */
+  baseline: ReviewIssue[];
+}
+
+export interface SuppressionResult {
+  issues: ReviewIssue[];
+  suppressed: SuppressedIssues;
+}
+
+/**
+ * Parse a `sentinel-ignore` directive in a line of code.
+ * Returns undefined when there is none, and an empty list when it ignores everything.
+ */
+export function parseIgnoreDirective(text: string): string[] | undefined {
+  const match = text.match(IGNORE_DIRECTIVE);
+  if (!match) {
+    return undefined;
+  }
+
+  return match[1] ? match[1].split(',').map((target) => target.trim()) : [];
+}
+
+/**
+ * Whether a `sentinel-ignore` comment on the flagged line, or the line above it, covers the issue.
+ */
+export function isIgnoredInline(issue: ReviewIssue, fileContent?: string | null): boolean {
+  // Comments live in the new file, so removed lines cannot be ignored
+  if (!fileContent || issue.line === undefined || issue.side === 'old') {
+    return false;
+  }
+
+  const lines = fileContent.split('\n');
+
+  return [issue.line, issue.line - 1].some((lineNumber) => {
+    const targets = lineNumber >= 1 ? parseIgnoreDirective(lines[lineNumber - 1] ?? '') : undefined;
+
+    return (
+      targets !== undefined &&
+      (targets.length === 0 ||
+        targets.includes(issue.category) ||
+        (issue.ruleId !== undefined && targets.includes(issue.ruleId)))
+    );
+  });
+}
+
+/**
+ * Drop issues silenced by `sentinel-ignore` comments or listed in the baseline.
+ * Issues must already be fingerprinted.
+ *
+ * @param contents - Current content of the changed files, by path
+ * @param baseline - Fingerprints accepted in the baseline file
+ */
+export function applySuppressions(
+  issues: ReviewIssue[],
+  contents: Map<string, string>,
+  baseline: Set<string>
+): SuppressionResult {
+  const kept: ReviewIssue[] = [];
+  const suppressed: SuppressedIssues = { inline: [], baseline: [] };
+
+  for (const issue of issues) {
+    if (isIgnoredInline(issue, contents.get(issue.file))) {
+      suppressed.inline.push(issue);
+    } else if (issue.fingerprint && baseline.has(issue.fingerprint)) {
+      suppressed.baseline.push(issue);
+    } else {
+      kept.push(issue);
+    }
+  }
+
+  return { issues: kept, suppressed };
+}
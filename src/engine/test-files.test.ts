@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { type ReviewCategory, type TestsConfig, TestsConfigSchema } from '../config/schema.js';
+import { findMissingTests, findTestFiles, isTestFile } from './test-files.js';
+
+const createConfig = (overrides: Partial<TestsConfig> = {}): TestsConfig => ({
+  ...TestsConfigSchema.parse({}),
+  min_changed_lines: 3,
+  ...overrides,
+});
+
+const diffFor = (file: string, lines: string[]) =>
+  [
+    `diff --git a/${file} b/${file}`,
+    `@@ -1,0 +1,${lines.length} @@`,
+    ...lines.map((l) => `+${l}`),
+  ].join('\n');
+
+const categories: ReviewCategory[] = ['bugs', 'testing'];
+
+const logic = ['if (!user) {', '  throw new NotFoundError(id);', '}', 'return user.name;'];
+
+describe('isTestFile', () => {
+  it('should recognise common test file conventions', () => {
+    expect(isTestFile('src/user.test.ts')).toBe(true);
+    expect(isTestFile('src/user.spec.jsx')).toBe(true);
+    expect(isTestFile('src/__tests__/user.ts')).toBe(true);
+    expect(isTestFile('app/test_user.py')).toBe(true);
+    expect(isTestFile('internal/db/user_test.go')).toBe(true);
+    expect(isTestFile('tests/helpers.py')).toBe(true);
+    expect(isTestFile('src/user.ts')).toBe(false);
+    expect(isTestFile('src/testing.ts')).toBe(false);
+  });
+});
+
+describe('findTestFiles', () => {
+  const files = [
+    'src/api/user.ts',
+    'src/api/user.test.ts',
+    'src/api/__tests__/user.spec.tsx',
+    'src/api/users.test.ts',
+    'test/api/user.test.ts',
+    'app/models.py',
+    'tests/test_models.py',
+    'internal/db/store.go',
+    'internal/db/store_test.go',
+  ];
+
+  it('should find tests next to the file, in __tests__ and in a mirrored test tree', () => {
+    expect(findTestFiles('src/api/user.ts', files)).toEqual([
+      'src/api/user.test.ts',
+      'src/api/__tests__/user.spec.tsx',
+      'test/api/user.test.ts',
+    ]);
+  });
+
+  it('should find Python and Go tests', () => {
+    expect(findTestFiles('app/models.py', files)).toEqual(['tests/test_models.py']);
+    expect(findTestFiles('internal/db/store.go', files)).toEqual(['internal/db/store_test.go']);
+  });
+
+  it('should not pair test files or unknown languages', () => {
+    expect(findTestFiles('src/api/user.test.ts', files)).toEqual([]);
+    expect(findTestFiles('README.md', files)).toEqual([]);
+  });
+});
+
+describe('findMissingTests', () => {
+  it('should report logic changes when no test changed', () => {
+    const issues = findMissingTests(
+      diffFor('src/user.ts', logic),
+      ['src/user.ts'],
+      [{ source: 'src/user.ts', tests: ['src/user.test.ts'] }],
+      createConfig(),
+      categories
+    );
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        severity: 'suggestion',
+        category: 'testing',
+        file: 'src/user.ts',
+        source: 'tests',
+        description:
+          '3 lines of logic were added or changed, but `src/user.test.ts` was not updated in this pull request.',
+      }),
+    ]);
+  });
+
+  it('should not report when any test changed in the pull request', () => {
+    const issues = findMissingTests(
+      diffFor('src/user.ts', logic),
+      ['src/user.ts', 'src/other.test.ts'],
+      [],
+      createConfig(),
+      categories
+    );
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should not report when testing is not a review category', () => {
+    const issues = findMissingTests(
+      diffFor('src/user.ts', logic),
+      ['src/user.ts'],
+      [{ source: 'src/user.ts', tests: ['src/user.test.ts'] }],
+      createConfig(),
+      ['security', 'bugs']
+    );
+
+    expect(issues).toEqual([]);
+  });
+
+  it('should ignore comments, imports, excluded files and small changes', () => {
+    const trivial = ["import { db } from './db';", '// explain', '', '}'];
+
+    expect(
+      findMissingTests(diffFor('src/a.ts', trivial), ['src/a.ts'], [], createConfig(), categories)
+    ).toEqual([]);
+    expect(
+      findMissingTests(
+        diffFor('scripts/build.ts', logic),
+        ['scripts/build.ts'],
+        [],
+        createConfig({ exclude: ['scripts/**'] }),
+        categories
+      )
+    ).toEqual([]);
+    expect(
+      findMissingTests(
+        diffFor('src/a.ts', logic),
+        ['src/a.ts'],
+        [],
+        createConfig({ min_changed_lines: 4 }),
+        categories
+      )
+    ).toEqual([]);
+  });
+});
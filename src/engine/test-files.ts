@@ -0,0 +1,139 @@
+import * as path from 'node:path';
+import { minimatch } from 'minimatch';
+import type { ReviewCategory, TestsConfig } from '../config/schema.js';
+import type { ReviewIssue } from '../llm/types.js';
+import { listAddedLines } from './diff-lines.js';
+import { languageOf } from './imports.js';
+
+/** Test files found for a changed source file */
+export interface TestPairing {
+  source: string;
+  tests: string[];
+}
+
+/** Top-level directories that mirror the source tree with tests */
+const TEST_ROOTS = ['test', 'tests', 'spec', '__tests__'];
+
+/** Lines that add no logic: blank lines, comments, imports and lone brackets */
+const TRIVIAL_LINE =
+  /^\s*(?:$|\/\/|\/\*|\*|#|import\s|from\s+\S+\s+import\s|export\s+\*?\s*\{?[\w\s,*]*\}?\s*from\s|package\s|[{}()[\];,]+$)/;
+
+/**
+ * Whether a path follows a test file convention: `*.test.ts`, `*.spec.js`,
+ * `__tests__/`, `test_*.py`, `*_test.py`, `*_test.go` or a top-level test directory.
+ */
+export function isTestFile(filePath: string): boolean {
+  const name = path.posix.basename(filePath);
+
+  return (
+    /\.(?:test|spec)\.[cm]?[jt]sx?$/.test(name) ||
+    /^test_.*\.py$/.test(name) ||
+    /_test\.(?:py|go)$/.test(name) ||
+    /(?:^|\/)__tests__\//.test(filePath) ||
+    TEST_ROOTS.some((root) => filePath.startsWith(`${root}/`))
+  );
+}
+
+/**
+ * Find the tests of a source file among the repository's files: next to it,
+ * in a `__tests__` or `tests` directory beside it, or in a top-level test tree
+ * mirroring its path (with or without a leading `src/`).
+ */
+export function findTestFiles(source: string, files: Iterable<string>): string[] {
+  const language = languageOf(source);
+  if (!language || isTestFile(source)) {
+    return [];
+  }
+
+  const dir = path.posix.dirname(source);
+  const stem = stemOf(source);
+  const inner = dir.replace(/^src(?:\/|$)/, '');
+  const dirs = new Set([dir, path.posix.join(dir, '__tests__'), path.posix.join(dir, 'tests')]);
+
+  for (const root of TEST_ROOTS) {
+    dirs.add(root);
+    dirs.add(path.posix.join(root, inner));
+    dirs.add(path.posix.join(root, dir));
+  }
+
+  return [...files].filter(
+    (f) =>
+      f !== source &&
+      isTestFile(f) &&
+      languageOf(f) === language &&
+      dirs.has(path.posix.dirname(f)) &&
+      subjectOf(f) === stem
+  );
+}
+
+/** File name without its extension, e.g. `user` for `src/user.ts` */
+function stemOf(filePath: string): string {
+  return path.posix.basename(filePath).replace(/\.[^.]+$/, '');
+}
+
+/** Name of the file a test covers, e.g. `user` for `user.test.ts`, `test_user.py` or `user_test.go` */
+function subjectOf(testPath: string): string {
+  return stemOf(testPath)
+    .replace(/\.(?:test|spec)$/, '')
+    .replace(/^test_/, '')
+    .replace(/_test$/, '');
+}
+
+/**
+ * Report changed source files with enough new logic when the pull request changes no tests at all.
+ * Like the model's findings, these are only reported when `testing` is a review category.
+ *
+ * @param diff - Combined diff of the reviewed files
+ * @param changedPaths - Every file changed in the pull request, including ignored ones
+ * @param pairings - Tests found for each reviewed source file
+ * @param categories - Review categories
+ */
+export function findMissingTests(
+  diff: string,
+  changedPaths: string[],
+  pairings: TestPairing[],
+  config: TestsConfig,
+  categories: ReviewCategory[]
+): ReviewIssue[] {
+  if (!config.report_missing || !categories.includes('testing') || changedPaths.some(isTestFile)) {
+    return [];
+  }
+
+  const logicLines = new Map<string, number>();
+  for (const { file, text } of listAddedLines(diff)) {
+    if (!TRIVIAL_LINE.test(text)) {
+      logicLines.set(file, (logicLines.get(file) || 0) + 1);
+    }
+  }
+
+  const testsBySource = new Map(pairings.map((p) => [p.source, p.tests]));
+  const issues: ReviewIssue[] = [];
+
+  for (const [file, count] of logicLines) {
+    if (
+      count < config.min_changed_lines ||
+      !languageOf(file) ||
+      isTestFile(file) ||
+      file.endsWith('.d.ts') ||
+      config.exclude.some((pattern) => minimatch(file, pattern))
+    ) {
+      continue;
+    }
+
+    const tests = testsBySource.get(file) || [];
+    issues.push({
+      severity: config.severity,
+      category: 'testing',
+      file,
+      title: 'Logic changed without test changes',
+      description:
+        tests.length > 0
+          ? `${count} lines of logic were added or changed, but ${tests.map((t) => `\`${t}\``).join(', ')} ${tests.length === 1 ? 'was' : 'were'} not updated in this pull request.`
+          : `${count} lines of logic were added or changed, and no tests for this file were found or changed in this pull request.`,
+      suggestion: 'Add or update tests that cover the new behaviour.',
+      source: 'tests',
+    });
+  }
+
+  return issues;
+}
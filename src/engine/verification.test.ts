@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { ReviewIssue } from '../llm/types.js';
+import { type ReviewedFiles, verifyIssues } from './verification.js';
+
+const issue = (overrides: Partial<ReviewIssue> = {}): ReviewIssue => ({
+  severity: 'warning',
+  category: 'bugs',
+  file: 'src/api/users.ts',
+  line: 3,
+  title: 'Unchecked result',
+  description: 'The lookup may return undefined',
+  ...overrides,
+});
+
+const content = [
+  "import { db } from '../db';",
+  '',
+  'export function getUser(id: string) {',
+  '  const user = db.users.find(id);',
+  '  return user.name;',
+  '}',
+].join('\n');
+
+const files: ReviewedFiles = {
+  paths: ['src/api/users.ts', 'src/db.ts'],
+  contents: new Map([['src/api/users.ts', content]]),
+};
+
+describe('verifyIssues', () => {
+  it('should keep issues that match the pull request', () => {
+    const result = verifyIssues(
+      [issue({ snippet: 'export function getUser(id: string) {' })],
+      files
+    );
+
+    expect(result.issues).toHaveLength(1);
+    expect(result.dropped).toEqual([]);
+    expect(result.relocated).toBe(0);
+  });
+
+  it('should drop issues on files outside the pull request', () => {
+    const result = verifyIssues([issue({ file: 'src/api/orders.ts' })], files);
+
+    expect(result.issues).toEqual([]);
+    expect(result.dropped[0].reason).toBe('src/api/orders.ts is not part of the pull request');
+  });
+
+  it('should re-anchor unambiguous file paths', () => {
+    const result = verifyIssues(
+      [issue({ file: './src/db.ts', line: undefined }), issue({ file: 'api/users.ts' })],
+      files
+    );
+
+    expect(result.issues.map((i) => i.file)).toEqual(['src/db.ts', 'src/api/users.ts']);
+    expect(result.relocated).toBe(2);
+  });
+
+  it('should move the issue to the line holding the quoted snippet', () => {
+    const result = verifyIssues(
+      [issue({ line: 2, endLine: 3, snippet: '  return user.name;' })],
+      files
+    );
+
+    expect(result.issues[0]).toMatchObject({ line: 5, endLine: 6 });
+    expect(result.relocated).toBe(1);
+  });
+
+  it('should drop issues beyond the end of the file unless the snippet is found', () => {
+    const result = verifyIssues(
+      [issue({ line: 40 }), issue({ line: 41, snippet: 'const user = db.users.find(id);' })],
+      files
+    );
+
+    expect(result.dropped.map((d) => d.reason)).toEqual(['line 40 is outside src/api/users.ts']);
+    expect(result.issues[0].line).toBe(4);
+  });
+
+  it('should keep the line when the snippet is paraphrased', () => {
+    const result = verifyIssues([issue({ snippet: 'getUser(id) function' })], files);
+
+    expect(result.issues[0].line).toBe(3);
+    expect(result.relocated).toBe(0);
+  });
+
+  it('should not check line numbers of removed code', () => {
+    const result = verifyIssues([issue({ line: 120, side: 'old' })], files);
+
+    expect(result.issues).toHaveLength(1);
+  });
+});
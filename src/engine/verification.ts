@@ -0,0 +1,165 @@
+import type { ReviewIssue } from '../llm/types.js';
+
+/** How far from the reported line a quoted snippet is searched for */
+const MAX_LINE_DRIFT = 30;
+
+/** Shorter snippets (e.g. `}`) match too many lines to locate anything */
+const MIN_SNIPPET_LENGTH = 4;
+
+export interface ReviewedFiles {
+  /** Files in the reviewed diff */
+  paths: string[];
+  /** Current content of the changed files, by path */
+  contents: Map<string, string>;
+}
+
+export interface DroppedIssue {
+  issue: ReviewIssue;
+  reason: string;
+}
+
+export interface VerificationResult {
+  issues: ReviewIssue[];
+  dropped: DroppedIssue[];
+  /** Issues moved to another file path or line */
+  relocated: number;
+}
+
+/**
+ * Check the model's issues against the pull request: the file must be one of the
+ * reviewed files and the line must exist and hold the code the issue quotes.
+ * Issues are re-anchored when the file path or line is slightly off, and dropped
+ * when they cannot be placed. Issues on removed lines are only checked for the file.
+ */
+export function verifyIssues(issues: ReviewIssue[], files: ReviewedFiles): VerificationResult {
+  const kept: ReviewIssue[] = [];
+  const dropped: DroppedIssue[] = [];
+  let relocated = 0;
+
+  for (const issue of issues) {
+    const file = resolvePath(issue.file, files.paths);
+    if (!file) {
+      dropped.push({ issue, reason: `${issue.file} is not part of the pull request` });
+      continue;
+    }
+
+    let verified = issue;
+    if (file !== issue.file) {
+      verified = { ...verified, file };
+    }
+
+    const content = files.contents.get(file);
+    if (verified.line !== undefined && verified.side !== 'old' && content) {
+      const line = verifyLine(verified, content.split('\n'));
+      if (line === undefined) {
+        dropped.push({ issue, reason: `line ${issue.line} is outside ${file}` });
+        continue;
+      }
+
+      if (line !== verified.line) {
+        verified = moveTo(verified, line);
+      }
+    }
+
+    if (verified !== issue) {
+      relocated++;
+    }
+    kept.push(verified);
+  }
+
+  return { issues: kept, dropped, relocated };
+}
+
+/**
+ * Find the reviewed file an issue refers to, accepting `./`, `a/` and `b/` prefixes
+ * and paths that are unambiguous suffixes of a reviewed file (or the other way round).
+ */
+function resolvePath(file: string, paths: string[]): string | undefined {
+  const normalized = file.trim().replace(/^(?:\.\/|[ab]\/|\/)+/, '');
+
+  if (paths.includes(normalized)) {
+    return normalized;
+  }
+
+  const candidates = paths.filter(
+    (p) => p.endsWith(`/${normalized}`) || normalized.endsWith(`/${p}`)
+  );
+
+  return candidates.length === 1 ? candidates[0] : undefined;
+}
+
+/**
+ * Return the line the issue belongs on, or undefined when it cannot be placed.
+ */
+function verifyLine(issue: ReviewIssue, lines: string[]): number | undefined {
+  const line = issue.line as number;
+  const inRange = line >= 1 && line <= lines.length;
+  const needle = snippetNeedle(issue.snippet);
+
+  if (!needle) {
+    return inRange ? line : undefined;
+  }
+
+  if (inRange && normalize(lines[line - 1]).includes(needle)) {
+    return line;
+  }
+
+  // Line numbers drift; the quoted code is what the model actually looked at
+  const found = findNearestLine(
+    lines,
+    needle,
+    line,
+    inRange ? MAX_LINE_DRIFT : Number.POSITIVE_INFINITY
+  );
+
+  // A paraphrased snippet says nothing about a line that exists
+  return found ?? (inRange ? line : undefined);
+}
+
+function findNearestLine(
+  lines: string[],
+  needle: string,
+  line: number,
+  maxDistance: number
+): number | undefined {
+  let nearest: number | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    const candidate = i + 1;
+    const distance = Math.abs(candidate - line);
+
+    if (
+      distance <= maxDistance &&
+      (nearest === undefined || distance < Math.abs(nearest - line)) &&
+      normalize(lines[i]).includes(needle)
+    ) {
+      nearest = candidate;
+    }
+  }
+
+  return nearest;
+}
+
+function moveTo(issue: ReviewIssue, line: number): ReviewIssue {
+  const shift = line - (issue.line as number);
+
+  return {
+    ...issue,
+    line,
+    ...(issue.endLine !== undefined ? { endLine: issue.endLine + shift } : {}),
+  };
+}
+
+/** First non-blank line of the snippet, whitespace-normalized */
+function snippetNeedle(snippet?: string): string | undefined {
+  const first = snippet
+    ?.split('\n')
+    .map(normalize)
+    .find((line) => line.length > 0);
+
+  return first && first.length >= MIN_SNIPPET_LENGTH ? first : undefined;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -1,10 +1,11 @@
+import * as path from 'node:path';
 import * as core from '@actions/core';
 import { loadConfig, mergeWithActionInputs } from './config/index.js';
-import { ReviewAnalyzer } from './engine/index.js';
-import { createLLMProvider } from './llm/index.js';
-import { OutputFormatter } from './output/index.js';
-import { GitHubAdapter } from './platforms/index.js';
-import { ToolExecutor } from './tools/executor.js';
+import type { SentinelConfig } from './config/schema.js';
+import { type GateResult, evaluateGate, formatGateFailure } from './engine/index.js';
+import { buildSarifLog, toReportIssues, writeReportFile, writeSarifFile } from './output/index.js';
+import { type PlatformAdapter, createPlatformAdapter } from './platforms/index.js';
+import { reviewPullRequest } from './review.js';
 
 async function run(): Promise<void> {
   try {
@@ -12,9 +13,10 @@ async function run(): Promise<void> {
     core.info('=====================================');
 
     // Get inputs
-    const githubToken = core.getInput('github_token', { required: true });
     const configPath = core.getInput('config_path') || '.sentinel.yml';
     const dryRun = core.getInput('dry_run') === 'true';
+    const sarifOutput = core.getInput('sarif_output');
+    const reportOutput = core.getInput('report_output');
     const workingDir = process.env.GITHUB_WORKSPACE || process.cwd();
 
     // Load configuration
@@ -30,42 +32,52 @@ async function run(): Promise<void> {
     core.info(`Review categories: ${config.review.categories.join(', ')}`);
 
     // Initialize platform adapter
-    const platform = new GitHubAdapter(githubToken, workingDir);
-
-    // Get PR information
-    core.info('Fetching pull request information...');
-    const pr = await platform.getPullRequest();
-    core.info(`Reviewing PR #${pr.id}: ${pr.title}`);
-    core.info(`Files changed: ${pr.files.length}`);
-
-    // Initialize LLM provider
-    const llmProvider = createLLMProvider(config);
-
-    // Set up tool executor for deep mode
-    if (config.review.mode === 'deep' && llmProvider.setToolExecutor) {
-      const toolExecutor = new ToolExecutor(workingDir);
-      llmProvider.setToolExecutor(toolExecutor);
-      core.info('Deep review mode enabled - LLM will explore codebase with tools');
+    const platform = createPlatformAdapter(workingDir);
+    core.info(`Platform: ${platform.name}`);
+
+    const { result, output, report } = await reviewPullRequest({
+      platform,
+      config,
+      contextFiles,
+      workingDir,
+    });
+
+    // Written even for skipped reviews so upload steps always find a file
+    if (sarifOutput) {
+      const sarifFile = path.resolve(workingDir, sarifOutput);
+      writeSarifFile(sarifFile, buildSarifLog(result.filteredIssues));
+      core.info(`SARIF report written to ${sarifFile}`);
+      core.setOutput('sarif_file', sarifFile);
     }
 
-    // Analyze the PR
-    const analyzer = new ReviewAnalyzer(platform, llmProvider, config, contextFiles);
-    const result = await analyzer.analyze(pr);
+    if (reportOutput) {
+      const reportFile = path.resolve(workingDir, reportOutput);
+      writeReportFile(reportFile, report);
+      core.info(`JSON report written to ${reportFile}`);
+      core.setOutput('report_file', reportFile);
+    }
+
+    core.setOutput('issues_json', JSON.stringify(toReportIssues(result)));
 
-    if (result.skipped) {
+    // Evaluate the quality gate before posting so a change request can be submitted
+    const gate = evaluateGate(result.filteredIssues, config.output.fail_on.rules);
+    const requestChanges = !gate.passed && config.output.fail_on.request_changes;
+
+    if (result.skipped || !output) {
       core.info(`Review skipped: ${result.skipReason}`);
       core.setOutput('summary', result.skipReason);
       core.setOutput('issues_count', 0);
       core.setOutput('critical_count', 0);
       core.setOutput('warning_count', 0);
       core.setOutput('effort_score', result.response.effortScore);
+
+      // A push that leaves nothing to review can still lift an earlier change request
+      if (!dryRun) {
+        await dismissChangeRequests(platform, config, gate);
+      }
       return;
     }
 
-    // Format output
-    const formatter = new OutputFormatter(config, llmProvider.name);
-    const output = formatter.format(result.response, result.filteredIssues);
-
     // Set outputs
     core.setOutput('summary', result.response.summary);
     core.setOutput('issues_count', result.filteredIssues.length);
@@ -83,6 +95,7 @@ async function run(): Promise<void> {
       core.info('Dry run mode - not posting comments');
       core.info('--- Review Summary ---');
       core.info(output.summary);
+      failOnGate(gate);
       return;
     }
 
@@ -92,9 +105,25 @@ async function run(): Promise<void> {
       await platform.postReviewSummary(output.summary);
     }
 
-    if (config.output.inline_comments && output.inlineComments.length > 0) {
-      core.info(`Posting ${output.inlineComments.length} inline comments...`);
-      await platform.postInlineComments(output.inlineComments);
+    const inlineComments = config.output.inline_comments ? output.inlineComments : [];
+
+    if (inlineComments.length > 0 || requestChanges) {
+      core.info(`Posting up to ${inlineComments.length} inline comments...`);
+      await platform.postInlineComments(inlineComments, {
+        maxComments: config.output.max_inline_comments,
+        ...(requestChanges ? { event: 'REQUEST_CHANGES', body: formatGateFailure(gate) } : {}),
+      });
+    }
+
+    await dismissChangeRequests(platform, config, gate);
+
+    if (config.output.inline_comments && platform.resolveStaleComments) {
+      await platform.resolveStaleComments({
+        activeFingerprints: result.filteredIssues
+          .map((i) => i.fingerprint)
+          .filter((f): f is string => !!f),
+        onlyOutdated: !!result.incrementalSince,
+      });
     }
 
     if (config.output.labels.enabled && output.labels.length > 0 && platform.addLabels) {
@@ -114,6 +143,8 @@ async function run(): Promise<void> {
     if (criticalCount > 0) {
       core.warning(`Found ${criticalCount} critical issue(s) that should be addressed.`);
     }
+
+    failOnGate(gate);
   } catch (error) {
     if (error instanceof Error) {
       core.setFailed(error.message);
@@ -124,4 +155,24 @@ async function run(): Promise<void> {
   }
 }
 
+/**
+ * Withdraw the change requests of earlier runs once the gate passes, so they
+ * stop blocking the pull request.
+ */
+async function dismissChangeRequests(
+  platform: PlatformAdapter,
+  config: SentinelConfig,
+  gate: GateResult
+): Promise<void> {
+  if (gate.passed && config.output.fail_on.request_changes && platform.dismissChangeRequests) {
+    await platform.dismissChangeRequests('Code Sentinel quality gate passed');
+  }
+}
+
+function failOnGate(gate: GateResult): void {
+  if (!gate.passed) {
+    core.setFailed(formatGateFailure(gate));
+  }
+}
+
 run();
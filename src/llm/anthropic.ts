@@ -8,6 +8,13 @@ import {
 } from '../prompts/review.js';
 import { type ToolCall, type ToolName, getAnthropicTools } from '../tools/definitions.js';
 import type { ToolExecutor } from '../tools/executor.js';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  type RetryOptions,
+  parseJsonResponse,
+  withParseRetry,
+  withRetry,
+} from './retry.js';
 import type { LLMProvider, ReviewRequest, ReviewResponse } from './types.js';
 
 /** Maximum number of tool-use iterations */
@@ -16,11 +23,16 @@ const MAX_TOOL_ITERATIONS = 10;
 export class AnthropicProvider implements LLMProvider {
   readonly name = 'anthropic';
   private client: Anthropic;
-  private model: string;
+  readonly model: string;
   private toolExecutor?: ToolExecutor;
 
-  constructor(apiKey: string, model = 'claude-sonnet-4-20250514') {
-    this.client = new Anthropic({ apiKey });
+  constructor(
+    apiKey: string,
+    model = 'claude-sonnet-4-20250514',
+    private retry: RetryOptions = DEFAULT_RETRY_OPTIONS
+  ) {
+    // Retries are handled by withRetry so they are consistent across providers
+    this.client = new Anthropic({ apiKey, maxRetries: 0 });
     this.model = model;
   }
 
@@ -31,25 +43,29 @@ export class AnthropicProvider implements LLMProvider {
   async analyze(request: ReviewRequest): Promise<ReviewResponse> {
     // Use deep mode with tools if enabled and executor is available
     if (request.reviewMode === 'deep' && this.toolExecutor) {
-      return this.analyzeWithTools(request);
+      return withParseRetry(() => this.analyzeWithTools(request), this.retry);
     }
-    return this.analyzeQuick(request);
+    return withParseRetry(() => this.analyzeQuick(request), this.retry);
   }
 
   private async analyzeQuick(request: ReviewRequest): Promise<ReviewResponse> {
-    const systemPrompt = getSystemPrompt();
+    const systemPrompt = getSystemPrompt(request);
     const userPrompt = buildReviewPrompt(request);
 
     core.info(`Sending review request to Anthropic (${this.model}) - quick mode...`);
     core.debug(`Prompt length: ${userPrompt.length} characters`);
 
     try {
-      const response = await this.client.messages.create({
-        model: this.model,
-        max_tokens: 4096,
-        system: systemPrompt,
-        messages: [{ role: 'user', content: userPrompt }],
-      });
+      const response = await withRetry(
+        () =>
+          this.client.messages.create({
+            model: this.model,
+            max_tokens: 4096,
+            system: systemPrompt,
+            messages: [{ role: 'user', content: userPrompt }],
+          }),
+        this.retry
+      );
 
       const content = response.content[0];
 
@@ -59,24 +75,21 @@ export class AnthropicProvider implements LLMProvider {
 
       core.debug(`Anthropic response: ${content.text.substring(0, 500)}...`);
 
-      // Extract JSON from response (may be wrapped in markdown code blocks)
-      const jsonMatch = content.text.match(/```(?:json)?\s*([\s\S]*?)```/) || [null, content.text];
-      const jsonString = jsonMatch[1]?.trim() || content.text.trim();
-
-      const parsed = JSON.parse(jsonString) as ReviewResponse;
+      // JSON may be wrapped in markdown code blocks
+      const parsed = parseJsonResponse<ReviewResponse>(this.name, content.text);
 
       return this.validateResponse(parsed);
     } catch (error) {
       if (error instanceof Anthropic.APIError) {
         core.error(`Anthropic API error: ${error.message}`);
-        throw new Error(`Anthropic API error: ${error.message}`);
+        throw new Error(`Anthropic API error: ${error.message}`, { cause: error });
       }
       throw error;
     }
   }
 
   private async analyzeWithTools(request: ReviewRequest): Promise<ReviewResponse> {
-    const systemPrompt = getDeepReviewSystemPrompt();
+    const systemPrompt = getDeepReviewSystemPrompt(request);
     const userPrompt = buildReviewPrompt(request);
     const tools = getAnthropicTools();
 
@@ -90,13 +103,17 @@ export class AnthropicProvider implements LLMProvider {
         iterations++;
         core.debug(`Tool iteration ${iterations}/${MAX_TOOL_ITERATIONS}`);
 
-        const response = await this.client.messages.create({
-          model: this.model,
-          max_tokens: 4096,
-          system: systemPrompt,
-          tools,
-          messages,
-        });
+        const response = await withRetry(
+          () =>
+            this.client.messages.create({
+              model: this.model,
+              max_tokens: 4096,
+              system: systemPrompt,
+              tools,
+              messages,
+            }),
+          this.retry
+        );
 
         // Check if we're done (no more tool calls)
         if (response.stop_reason === 'end_turn') {
@@ -106,12 +123,7 @@ export class AnthropicProvider implements LLMProvider {
             throw new Error('No text response from Anthropic');
           }
 
-          const jsonMatch = textContent.text.match(/```(?:json)?\s*([\s\S]*?)```/) || [
-            null,
-            textContent.text,
-          ];
-          const jsonString = jsonMatch[1]?.trim() || textContent.text.trim();
-          const parsed = JSON.parse(jsonString) as ReviewResponse;
+          const parsed = parseJsonResponse<ReviewResponse>(this.name, textContent.text);
 
           core.info(`Deep review completed after ${iterations} iteration(s)`);
           return this.validateResponse(parsed);
@@ -163,7 +175,7 @@ export class AnthropicProvider implements LLMProvider {
     } catch (error) {
       if (error instanceof Anthropic.APIError) {
         core.error(`Anthropic API error: ${error.message}`);
-        throw new Error(`Anthropic API error: ${error.message}`);
+        throw new Error(`Anthropic API error: ${error.message}`, { cause: error });
       }
       throw error;
     }
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CONTEXT_WINDOW, getContextWindow } from './context-window.js';
+
+describe('getContextWindow', () => {
+  it('should know common models', () => {
+    expect(getContextWindow('gpt-4o')).toBe(128_000);
+    expect(getContextWindow('gpt-4o-mini')).toBe(128_000);
+    expect(getContextWindow('claude-sonnet-4-20250514')).toBe(200_000);
+    expect(getContextWindow('gemini-2.0-flash')).toBe(1_048_576);
+    expect(getContextWindow('codellama:13b')).toBe(16_384);
+  });
+
+  it('should ignore provider prefixes', () => {
+    expect(getContextWindow('openai/gpt-4o')).toBe(128_000);
+  });
+
+  it('should fall back to a conservative default', () => {
+    expect(getContextWindow('my-internal-model')).toBe(DEFAULT_CONTEXT_WINDOW);
+    expect(getContextWindow(undefined)).toBe(DEFAULT_CONTEXT_WINDOW);
+  });
+});
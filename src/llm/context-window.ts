@@ -0,0 +1,39 @@
+/** Used for models missing from the table; override with `llm.context_window` */
+export const DEFAULT_CONTEXT_WINDOW = 16_384;
+
+/** Context window sizes in tokens, matched against the model name in order */
+const CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/^gpt-5/, 400_000],
+  [/^gpt-4\.1/, 1_047_576],
+  [/^gpt-4o/, 128_000],
+  [/^gpt-4-turbo/, 128_000],
+  [/^gpt-4/, 8_192],
+  [/^gpt-3\.5/, 16_385],
+  [/^o\d/, 200_000],
+  [/^claude/, 200_000],
+  [/^gemini-1\.5-pro/, 2_097_152],
+  [/^gemini/, 1_048_576],
+  [/^llama3\.[1-3]/, 131_072],
+  [/^llama3/, 8_192],
+  [/^codellama/, 16_384],
+  [/^qwen2\.5-coder/, 32_768],
+  [/^deepseek-coder-v2/, 131_072],
+  [/^deepseek-coder/, 16_384],
+  [/^mistral-large/, 131_072],
+  [/^(mistral|mixtral)/, 32_768],
+];
+
+/**
+ * Look up the context window of a model by name. Provider prefixes such as
+ * `openai/gpt-4o` (LiteLLM) are ignored.
+ */
+export function getContextWindow(model?: string): number {
+  if (!model) {
+    return DEFAULT_CONTEXT_WINDOW;
+  }
+
+  const name = model.toLowerCase().split('/').pop() || '';
+  const match = CONTEXT_WINDOWS.find(([pattern]) => pattern.test(name));
+
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
@@ -1,59 +1,171 @@
 import * as core from '@actions/core';
-import type { SentinelConfig } from '../config/schema.js';
+import { type ProviderInputs, getActionProviderInputs } from '../config/loader.js';
+import type { LLMEntry, RetryConfig, SentinelConfig } from '../config/schema.js';
 import { AnthropicProvider } from './anthropic.js';
+import { FallbackProvider } from './fallback.js';
 import { GeminiProvider } from './gemini.js';
 import { OllamaProvider } from './ollama.js';
 import { OpenAIProvider } from './openai.js';
+import { DEFAULT_RETRY_OPTIONS, type RetryOptions } from './retry.js';
 import type { LLMProvider } from './types.js';
 
-export function createLLMProvider(config: SentinelConfig): LLMProvider {
-  const { provider, model, base_url } = config.llm;
+/**
+ * Create the configured LLM provider. When `llm` lists fallbacks, the result is a
+ * FallbackProvider trying each entry in order; entries without credentials are skipped.
+ */
+export function createLLMProvider(
+  config: SentinelConfig,
+  inputs: ProviderInputs = getActionProviderInputs()
+): LLMProvider {
+  const retry = toRetryOptions(config.llm.retry);
+  const fallbacks = config.llm.fallbacks ?? [];
+
+  if (fallbacks.length === 0) {
+    return createProvider(config.llm, inputs, retry);
+  }
+
+  const providers: LLMProvider[] = [];
+  const contextWindows: (number | undefined)[] = [];
+  let firstError: unknown;
+
+  for (const entry of [config.llm, ...fallbacks]) {
+    try {
+      providers.push(createProvider(entry, inputs, retry));
+      contextWindows.push(entry.context_window);
+    } catch (error) {
+      firstError ??= error;
+      core.warning(
+        `Skipping ${entry.provider} in the LLM fallback chain: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  if (providers.length === 0) {
+    throw firstError;
+  }
+
+  core.info(`LLM fallback chain: ${providers.map((p) => `${p.name} (${p.model})`).join(' -> ')}`);
+  return new FallbackProvider(providers, contextWindows);
+}
+
+/** Default Azure OpenAI API version (latest GA at the time of writing) */
+const DEFAULT_AZURE_API_VERSION = '2024-10-21';
+
+function createProvider(entry: LLMEntry, inputs: ProviderInputs, retry: RetryOptions): LLMProvider {
+  const { provider, model, base_url } = entry;
 
   switch (provider) {
     case 'openai': {
-      const apiKey = core.getInput('openai_api_key');
+      const apiKey = inputs.openaiApiKey;
 
       if (!apiKey) {
         throw new Error(
-          'OpenAI API key is required. Set the openai_api_key input in your workflow.'
+          'OpenAI API key is required. Set the openai_api_key input (or OPENAI_API_KEY for the CLI).'
         );
       }
 
-      return new OpenAIProvider(apiKey, model || 'gpt-4o');
+      return new OpenAIProvider(apiKey, model || inputs.openaiModel || 'gpt-4o', retry);
     }
 
     case 'ollama': {
-      const baseUrl = base_url || core.getInput('ollama_base_url') || 'http://localhost:11434';
-      const ollamaModel = model || core.getInput('ollama_model') || 'codellama:13b';
+      const baseUrl = base_url || inputs.ollamaBaseUrl || 'http://localhost:11434';
+      const ollamaModel = model || inputs.ollamaModel || 'codellama:13b';
 
-      return new OllamaProvider(baseUrl, ollamaModel);
+      return new OllamaProvider(baseUrl, ollamaModel, retry);
     }
 
     case 'anthropic': {
-      const apiKey = core.getInput('anthropic_api_key');
+      const apiKey = inputs.anthropicApiKey;
 
       if (!apiKey) {
         throw new Error(
-          'Anthropic API key is required. Set the anthropic_api_key input in your workflow.'
+          'Anthropic API key is required. Set the anthropic_api_key input (or ANTHROPIC_API_KEY for the CLI).'
         );
       }
 
-      return new AnthropicProvider(apiKey, model || 'claude-sonnet-4-20250514');
+      return new AnthropicProvider(
+        apiKey,
+        model || inputs.anthropicModel || 'claude-sonnet-4-20250514',
+        retry
+      );
     }
 
     case 'gemini': {
-      const apiKey = core.getInput('gemini_api_key');
+      const apiKey = inputs.geminiApiKey;
 
       if (!apiKey) {
         throw new Error(
-          'Gemini API key is required. Set the gemini_api_key input in your workflow.'
+          'Gemini API key is required. Set the gemini_api_key input (or GEMINI_API_KEY for the CLI).'
         );
       }
 
-      return new GeminiProvider(apiKey, model || 'gemini-2.0-flash');
+      return new GeminiProvider(apiKey, model || inputs.geminiModel || 'gemini-2.0-flash', retry);
+    }
+
+    case 'openai-compatible': {
+      // Keys are only read from api_key_env so the OpenAI key is never sent to another server
+      const apiKey = entry.api_key_env ? process.env[entry.api_key_env] : undefined;
+      const auth = entry.auth || (entry.api_key_env ? 'bearer' : 'none');
+
+      if (!base_url || !model) {
+        throw new Error(
+          'llm.base_url and llm.model are required for the openai-compatible provider.'
+        );
+      }
+
+      if (!apiKey && auth !== 'none') {
+        throw new Error(
+          `API key for the openai-compatible provider is required. Set the environment variable named by llm.api_key_env${entry.api_key_env ? ` (${entry.api_key_env})` : ''}.`
+        );
+      }
+
+      return new OpenAIProvider(apiKey || '', model, retry, {
+        name: 'openai-compatible',
+        baseURL: base_url,
+        headers: entry.headers,
+        auth,
+        supportsTools: entry.tools,
+      });
+    }
+
+    case 'azure-openai': {
+      const deployment = entry.deployment || model;
+      const apiKeyEnv = entry.api_key_env || 'AZURE_OPENAI_API_KEY';
+      const apiKey = process.env[apiKeyEnv];
+
+      if (!base_url || !deployment) {
+        throw new Error(
+          'llm.base_url (the resource endpoint) and llm.deployment are required for the azure-openai provider.'
+        );
+      }
+
+      if (!apiKey) {
+        throw new Error(`Azure OpenAI API key is required. Set ${apiKeyEnv}.`);
+      }
+
+      return new OpenAIProvider(apiKey, model || deployment, retry, {
+        name: 'azure-openai',
+        baseURL: base_url,
+        headers: entry.headers,
+        azure: { deployment, apiVersion: entry.api_version || DEFAULT_AZURE_API_VERSION },
+        supportsTools: entry.tools,
+      });
     }
 
     default:
       throw new Error(`Unknown LLM provider: ${provider}`);
   }
 }
+
+function toRetryOptions(retry?: RetryConfig): RetryOptions {
+  if (!retry) {
+    return DEFAULT_RETRY_OPTIONS;
+  }
+
+  return {
+    maxAttempts: retry.max_attempts,
+    initialDelayMs: retry.initial_delay_ms,
+    maxDelayMs: retry.max_delay_ms,
+    parseAttempts: retry.parse_attempts,
+  };
+}
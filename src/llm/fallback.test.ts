@@ -0,0 +1,149 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ToolExecutor } from '../tools/executor.js';
+import { FallbackProvider, isFallbackError } from './fallback.js';
+import { ResponseParseError } from './retry.js';
+import type { LLMProvider, ReviewRequest, ReviewResponse } from './types.js';
+
+const request: ReviewRequest = {
+  pr: { title: 'Test', body: '', author: 'octocat' },
+  diff: '',
+  changedFiles: [],
+  relatedFiles: [],
+  context: { contextFiles: [], instructions: [], patterns: [] },
+  categories: ['security'],
+  reviewMode: 'quick',
+};
+
+const response = (summary: string): ReviewResponse => ({ summary, effortScore: 2, issues: [] });
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+const createFakeProvider = (name: string, outcome: ReviewResponse | Error): LLMProvider => ({
+  name,
+  model: `${name}-model`,
+  analyze: vi.fn(async () => {
+    if (outcome instanceof Error) {
+      throw outcome;
+    }
+    return outcome;
+  }),
+});
+
+describe('FallbackProvider', () => {
+  it('should use the primary provider when it succeeds', async () => {
+    const primary = createFakeProvider('openai', response('primary'));
+    const secondary = createFakeProvider('anthropic', response('secondary'));
+    const provider = new FallbackProvider([primary, secondary]);
+
+    await expect(provider.analyze(request)).resolves.toMatchObject({
+      summary: 'primary',
+      providers: [{ name: 'openai', model: 'openai-model' }],
+    });
+    expect(secondary.analyze).not.toHaveBeenCalled();
+    expect(provider.name).toBe('openai');
+  });
+
+  it('should fall through on auth, quota and malformed-output errors', async () => {
+    const provider = new FallbackProvider([
+      createFakeProvider('openai', httpError(401)),
+      createFakeProvider('anthropic', httpError(429)),
+      createFakeProvider('gemini', new ResponseParseError('gemini', new Error('bad json'))),
+      createFakeProvider('ollama', response('last resort')),
+    ]);
+
+    await expect(provider.analyze(request)).resolves.toMatchObject({
+      summary: 'last resort',
+      providers: [{ name: 'ollama', model: 'ollama-model' }],
+    });
+  });
+
+  it('should name the provider that answered each of concurrent reviews', async () => {
+    let failPrimary = true;
+    const primary: LLMProvider = {
+      name: 'openai',
+      model: 'gpt-4o',
+      analyze: vi.fn(async () => {
+        if (failPrimary) {
+          failPrimary = false;
+          throw httpError(429);
+        }
+        return response('primary');
+      }),
+    };
+    const provider = new FallbackProvider([
+      primary,
+      createFakeProvider('ollama', response('fallback')),
+    ]);
+
+    const [first, second] = await Promise.all([
+      provider.analyze(request),
+      provider.analyze(request),
+    ]);
+
+    expect(first.providers).toEqual([{ name: 'ollama', model: 'ollama-model' }]);
+    expect(second.providers).toEqual([{ name: 'openai', model: 'gpt-4o' }]);
+    expect(provider.name).toBe('openai');
+  });
+
+  it('should rethrow errors that are not provider failures', async () => {
+    const secondary = createFakeProvider('anthropic', response('secondary'));
+    const provider = new FallbackProvider([
+      createFakeProvider('openai', new Error('Max tool iterations (10) exceeded')),
+      secondary,
+    ]);
+
+    await expect(provider.analyze(request)).rejects.toThrow('Max tool iterations');
+    expect(secondary.analyze).not.toHaveBeenCalled();
+  });
+
+  it('should rethrow the last error when every provider fails', async () => {
+    const provider = new FallbackProvider([
+      createFakeProvider('openai', httpError(503)),
+      createFakeProvider('anthropic', httpError(529)),
+    ]);
+
+    await expect(provider.analyze(request)).rejects.toThrow('HTTP 529');
+  });
+
+  it('should pass the tool executor to providers that support tools', () => {
+    const withTools = { ...createFakeProvider('openai', response('x')), setToolExecutor: vi.fn() };
+    const provider = new FallbackProvider([withTools, createFakeProvider('ollama', response('y'))]);
+    const executor = {} as ToolExecutor;
+
+    provider.setToolExecutor(executor);
+
+    expect(withTools.setToolExecutor).toHaveBeenCalledWith(executor);
+  });
+
+  it('should report the smallest context window in the chain', () => {
+    const primary = { ...createFakeProvider('openai', response('x')), model: 'gpt-4o' };
+    const fallback = { ...createFakeProvider('ollama', response('y')), model: 'codellama:13b' };
+
+    expect(new FallbackProvider([primary, fallback]).contextWindow).toBe(16_384);
+    expect(new FallbackProvider([primary, fallback], [undefined, 65_536]).contextWindow).toBe(
+      65_536
+    );
+    expect(new FallbackProvider([primary, fallback], [8_000]).contextWindow).toBe(8_000);
+  });
+});
+
+describe('isFallbackError', () => {
+  it('should look through wrapped SDK errors', () => {
+    const wrapped = new Error('OpenAI API error: invalid key', { cause: httpError(401) });
+
+    expect(isFallbackError(wrapped)).toBe(true);
+  });
+
+  it('should treat timeouts and unreachable hosts as fallback errors', () => {
+    expect(isFallbackError(httpError(408))).toBe(true);
+    expect(isFallbackError(Object.assign(new Error('timeout'), { code: 'ETIMEDOUT' }))).toBe(true);
+    expect(isFallbackError(Object.assign(new Error('refused'), { code: 'ECONNREFUSED' }))).toBe(
+      true
+    );
+  });
+
+  it('should not fall back on bad requests', () => {
+    expect(isFallbackError(httpError(400))).toBe(false);
+    expect(isFallbackError('oops')).toBe(false);
+  });
+});
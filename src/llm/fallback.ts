@@ -0,0 +1,116 @@
+import * as core from '@actions/core';
+import type { ToolExecutor } from '../tools/executor.js';
+import { getContextWindow } from './context-window.js';
+import { ResponseParseError, getErrorStatus, isRetryableError } from './retry.js';
+import type { LLMProvider, ReviewRequest, ReviewResponse } from './types.js';
+
+/** 401/403 bad or revoked credentials, 402 exhausted billing, 404 unknown model */
+const FALLBACK_STATUSES = new Set([401, 402, 403, 404]);
+
+/** The provider cannot be reached at all */
+const FALLBACK_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND']);
+
+/**
+ * Composite provider that tries each provider in order and falls through to the
+ * next one on auth, quota, timeout, availability or malformed-output errors.
+ * Other errors (e.g. a bug in a tool) are rethrown immediately.
+ */
+export class FallbackProvider implements LLMProvider {
+  /**
+   * @param contextWindows - Configured context window of each provider, by position;
+   *   providers without one use the window of their model
+   */
+  constructor(
+    private providers: LLMProvider[],
+    private contextWindows: (number | undefined)[] = []
+  ) {
+    if (providers.length === 0) {
+      throw new Error('FallbackProvider requires at least one provider');
+    }
+  }
+
+  /** Name of the primary provider; each response names the provider that answered it */
+  get name(): string {
+    return this.providers[0].name;
+  }
+
+  get model(): string | undefined {
+    return this.providers[0].model;
+  }
+
+  /**
+   * The smallest window in the chain: the prompt is packed before the review,
+   * so it has to fit whichever provider ends up answering.
+   */
+  get contextWindow(): number {
+    return Math.min(
+      ...this.providers.map(
+        (provider, index) =>
+          this.contextWindows[index] ?? provider.contextWindow ?? getContextWindow(provider.model)
+      )
+    );
+  }
+
+  setToolExecutor(executor: ToolExecutor): void {
+    for (const provider of this.providers) {
+      provider.setToolExecutor?.(executor);
+    }
+  }
+
+  async analyze(request: ReviewRequest): Promise<ReviewResponse> {
+    let lastError: unknown;
+
+    for (const [index, provider] of this.providers.entries()) {
+      try {
+        // Reviews run concurrently, so the provider is returned with its response
+        const response = await provider.analyze(request);
+        return { ...response, providers: [{ name: provider.name, model: provider.model }] };
+      } catch (error) {
+        const next = this.providers[index + 1];
+
+        if (!next || !isFallbackError(error)) {
+          throw error;
+        }
+
+        lastError = error;
+        core.warning(
+          `${describe(provider)} failed (${error instanceof Error ? error.message : String(error)}), falling back to ${describe(next)}`
+        );
+      }
+    }
+
+    throw lastError;
+  }
+}
+
+/**
+ * Whether an error means the provider is unusable for this review, so the next
+ * provider in the chain should be tried.
+ */
+export function isFallbackError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+
+  // Rate limits, overload, timeouts and server errors that outlasted the retries
+  if (error instanceof ResponseParseError || isRetryableError(error)) {
+    return true;
+  }
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return FALLBACK_STATUSES.has(status);
+  }
+
+  const { code, cause } = error as { code?: string; cause?: unknown };
+  if (code && FALLBACK_ERROR_CODES.has(code)) {
+    return true;
+  }
+
+  // Providers wrap SDK errors, keeping the original as the cause
+  return cause !== undefined && cause !== error && isFallbackError(cause);
+}
+
+function describe(provider: LLMProvider): string {
+  return provider.model ? `${provider.name} (${provider.model})` : provider.name;
+}
@@ -8,6 +8,14 @@ import {
 } from '../prompts/review.js';
 import { type ToolCall, type ToolName, getGeminiTools } from '../tools/definitions.js';
 import type { ToolExecutor } from '../tools/executor.js';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  ResponseParseError,
+  type RetryOptions,
+  parseJsonResponse,
+  withParseRetry,
+  withRetry,
+} from './retry.js';
 import type { LLMProvider, ReviewRequest, ReviewResponse } from './types.js';
 
 /** Maximum number of tool-use iterations */
@@ -16,10 +24,14 @@ const MAX_TOOL_ITERATIONS = 10;
 export class GeminiProvider implements LLMProvider {
   readonly name = 'gemini';
   private client: GoogleGenerativeAI;
-  private model: string;
+  readonly model: string;
   private toolExecutor?: ToolExecutor;
 
-  constructor(apiKey: string, model = 'gemini-2.0-flash') {
+  constructor(
+    apiKey: string,
+    model = 'gemini-2.0-flash',
+    private retry: RetryOptions = DEFAULT_RETRY_OPTIONS
+  ) {
     this.client = new GoogleGenerativeAI(apiKey);
     this.model = model;
   }
@@ -31,13 +43,13 @@ export class GeminiProvider implements LLMProvider {
   async analyze(request: ReviewRequest): Promise<ReviewResponse> {
     // Use deep mode with tools if enabled and executor is available
     if (request.reviewMode === 'deep' && this.toolExecutor) {
-      return this.analyzeWithTools(request);
+      return withParseRetry(() => this.analyzeWithTools(request), this.retry);
     }
-    return this.analyzeQuick(request);
+    return withParseRetry(() => this.analyzeQuick(request), this.retry);
   }
 
   private async analyzeQuick(request: ReviewRequest): Promise<ReviewResponse> {
-    const systemPrompt = getSystemPrompt();
+    const systemPrompt = getSystemPrompt(request);
     const userPrompt = buildReviewPrompt(request);
 
     core.info(`Sending review request to Gemini (${this.model}) - quick mode...`);
@@ -54,7 +66,7 @@ export class GeminiProvider implements LLMProvider {
         },
       });
 
-      const result = await generativeModel.generateContent(userPrompt);
+      const result = await withRetry(() => generativeModel.generateContent(userPrompt), this.retry);
       const response = result.response;
       const content = response.text();
 
@@ -64,24 +76,21 @@ export class GeminiProvider implements LLMProvider {
 
       core.debug(`Gemini response: ${content.substring(0, 500)}...`);
 
-      // Extract JSON from response (may be wrapped in markdown code blocks)
-      const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/) || [null, content];
-      const jsonString = jsonMatch[1]?.trim() || content.trim();
-
-      const parsed = JSON.parse(jsonString) as ReviewResponse;
+      // JSON may be wrapped in markdown code blocks
+      const parsed = parseJsonResponse<ReviewResponse>(this.name, content);
 
       return this.validateResponse(parsed);
     } catch (error) {
-      if (error instanceof Error) {
+      if (error instanceof Error && !(error instanceof ResponseParseError)) {
         core.error(`Gemini API error: ${error.message}`);
-        throw new Error(`Gemini API error: ${error.message}`);
+        throw new Error(`Gemini API error: ${error.message}`, { cause: error });
       }
       throw error;
     }
   }
 
   private async analyzeWithTools(request: ReviewRequest): Promise<ReviewResponse> {
-    const systemPrompt = getDeepReviewSystemPrompt();
+    const systemPrompt = getDeepReviewSystemPrompt(request);
     const userPrompt = buildReviewPrompt(request);
     const tools = getGeminiTools();
 
@@ -118,7 +127,7 @@ export class GeminiProvider implements LLMProvider {
       let iterations = 0;
 
       // Send initial message
-      let result = await chat.sendMessage(userPrompt);
+      let result = await withRetry(() => chat.sendMessage(userPrompt), this.retry);
 
       while (iterations < MAX_TOOL_ITERATIONS) {
         iterations++;
@@ -149,12 +158,7 @@ export class GeminiProvider implements LLMProvider {
             throw new Error('No text response from Gemini');
           }
 
-          const jsonMatch = textPart.text.match(/```(?:json)?\s*([\s\S]*?)```/) || [
-            null,
-            textPart.text,
-          ];
-          const jsonString = jsonMatch[1]?.trim() || textPart.text.trim();
-          const parsed = JSON.parse(jsonString) as ReviewResponse;
+          const parsed = parseJsonResponse<ReviewResponse>(this.name, textPart.text);
 
           core.info(`Deep review completed after ${iterations} iteration(s)`);
           return this.validateResponse(parsed);
@@ -171,7 +175,10 @@ export class GeminiProvider implements LLMProvider {
           };
 
           core.info(`Executing tool: ${toolCall.name}`);
-          const toolResult = await this.toolExecutor?.execute(toolCall);
+          if (!this.toolExecutor) {
+            throw new Error('Tool executor not available');
+          }
+          const toolResult = await this.toolExecutor.execute(toolCall);
 
           functionResponses.push({
             functionResponse: {
@@ -184,14 +191,14 @@ export class GeminiProvider implements LLMProvider {
         }
 
         // Send function responses back
-        result = await chat.sendMessage(functionResponses);
+        result = await withRetry(() => chat.sendMessage(functionResponses), this.retry);
       }
 
       throw new Error(`Max tool iterations (${MAX_TOOL_ITERATIONS}) exceeded`);
     } catch (error) {
-      if (error instanceof Error) {
+      if (error instanceof Error && !(error instanceof ResponseParseError)) {
         core.error(`Gemini API error: ${error.message}`);
-        throw new Error(`Gemini API error: ${error.message}`);
+        throw new Error(`Gemini API error: ${error.message}`, { cause: error });
       }
       throw error;
     }
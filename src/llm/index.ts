@@ -1,6 +1,9 @@
 export * from './types.js';
+export * from './retry.js';
+export * from './context-window.js';
 export * from './openai.js';
 export * from './ollama.js';
 export * from './anthropic.js';
 export * from './gemini.js';
+export * from './fallback.js';
 export * from './factory.js';
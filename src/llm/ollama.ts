@@ -1,14 +1,25 @@
 import * as core from '@actions/core';
 import { Ollama } from 'ollama';
 import { buildReviewPrompt, getSystemPrompt } from '../prompts/review.js';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  type RetryOptions,
+  parseJsonResponse,
+  withParseRetry,
+  withRetry,
+} from './retry.js';
 import type { LLMProvider, ReviewRequest, ReviewResponse } from './types.js';
 
 export class OllamaProvider implements LLMProvider {
   readonly name = 'ollama';
   private client: Ollama;
-  private model: string;
+  readonly model: string;
 
-  constructor(baseUrl = 'http://localhost:11434', model = 'codellama:13b') {
+  constructor(
+    baseUrl = 'http://localhost:11434',
+    model = 'codellama:13b',
+    private retry: RetryOptions = DEFAULT_RETRY_OPTIONS
+  ) {
     this.client = new Ollama({ host: baseUrl });
     this.model = model;
   }
@@ -19,25 +30,33 @@ export class OllamaProvider implements LLMProvider {
       core.warning('Ollama has limited tool support. Falling back to quick mode.');
     }
 
-    const systemPrompt = getSystemPrompt();
+    return withParseRetry(() => this.analyzeQuick(request), this.retry);
+  }
+
+  private async analyzeQuick(request: ReviewRequest): Promise<ReviewResponse> {
+    const systemPrompt = getSystemPrompt(request);
     const userPrompt = buildReviewPrompt(request);
 
     core.info(`Sending review request to Ollama (${this.model}) - quick mode...`);
     core.debug(`Prompt length: ${userPrompt.length} characters`);
 
     try {
-      const response = await this.client.chat({
-        model: this.model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        format: 'json',
-        options: {
-          temperature: 0.1,
-          num_predict: 4096,
-        },
-      });
+      const response = await withRetry(
+        () =>
+          this.client.chat({
+            model: this.model,
+            messages: [
+              { role: 'system', content: systemPrompt },
+              { role: 'user', content: userPrompt },
+            ],
+            format: 'json',
+            options: {
+              temperature: 0.1,
+              num_predict: 4096,
+            },
+          }),
+        this.retry
+      );
 
       const content = response.message?.content;
 
@@ -47,7 +66,7 @@ export class OllamaProvider implements LLMProvider {
 
       core.debug(`Ollama response: ${content.substring(0, 500)}...`);
 
-      const parsed = JSON.parse(content) as ReviewResponse;
+      const parsed = parseJsonResponse<ReviewResponse>(this.name, content);
 
       return this.validateResponse(parsed);
     } catch (error) {
@@ -56,7 +75,8 @@ export class OllamaProvider implements LLMProvider {
 
         if (error.message.includes('ECONNREFUSED')) {
           throw new Error(
-            'Cannot connect to Ollama. Make sure Ollama is running at the configured URL.'
+            'Cannot connect to Ollama. Make sure Ollama is running at the configured URL.',
+            { cause: error }
           );
         }
       }
@@ -0,0 +1,149 @@
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { ToolExecutor } from '../tools/executor.js';
+import { OpenAIProvider } from './openai.js';
+import { DEFAULT_RETRY_OPTIONS } from './retry.js';
+import type { ReviewRequest } from './types.js';
+
+interface RecordedRequest {
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: { tools?: unknown[]; model?: string };
+}
+
+const request: ReviewRequest = {
+  pr: { title: 'Add login', body: '', author: 'alice' },
+  diff: '+const a = 1;',
+  changedFiles: [],
+  relatedFiles: [],
+  context: { contextFiles: [], instructions: [], patterns: [] },
+  categories: ['security'],
+  reviewMode: 'deep',
+};
+
+const review = { summary: 'Looks fine', effortScore: 2, issues: [] };
+
+const completion = (content: string) => ({
+  id: 'chatcmpl-1',
+  object: 'chat.completion',
+  created: 0,
+  model: 'local-model',
+  choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content } }],
+});
+
+const noRetries = { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1, parseAttempts: 1 };
+
+/** Stand-in for an OpenAI-compatible server that does not support tool calling */
+describe('OpenAIProvider with an OpenAI-compatible server', () => {
+  let server: http.Server;
+  let baseURL: string;
+  let requests: RecordedRequest[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => {
+        raw += chunk;
+      });
+      req.on('end', () => {
+        const body = JSON.parse(raw || '{}');
+        requests.push({ url: req.url || '', headers: req.headers, body });
+        res.setHeader('content-type', 'application/json');
+
+        if (body.tools) {
+          res.statusCode = 400;
+          res.end(JSON.stringify({ error: { message: '"tools" is not supported by this model' } }));
+          return;
+        }
+
+        res.end(JSON.stringify(completion(JSON.stringify(review))));
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  it('should send requests to the configured base URL with custom headers', async () => {
+    const provider = new OpenAIProvider('secret', 'local-model', noRetries, {
+      name: 'openai-compatible',
+      baseURL,
+      headers: { 'x-team': 'platform' },
+    });
+
+    await provider.analyze({ ...request, reviewMode: 'quick' });
+
+    expect(provider.name).toBe('openai-compatible');
+    expect(requests[0].url).toBe('/v1/chat/completions');
+    expect(requests[0].headers.authorization).toBe('Bearer secret');
+    expect(requests[0].headers['x-team']).toBe('platform');
+    expect(requests[0].body.model).toBe('local-model');
+  });
+
+  it('should send the key as an api-key header when configured', async () => {
+    const provider = new OpenAIProvider('secret', 'local-model', noRetries, {
+      baseURL,
+      auth: 'api-key',
+    });
+
+    await provider.analyze({ ...request, reviewMode: 'quick' });
+
+    expect(requests[0].headers.authorization).toBeUndefined();
+    expect(requests[0].headers['api-key']).toBe('secret');
+  });
+
+  it('should not send credentials when auth is none', async () => {
+    const provider = new OpenAIProvider('', 'local-model', noRetries, { baseURL, auth: 'none' });
+
+    await provider.analyze({ ...request, reviewMode: 'quick' });
+
+    expect(requests[0].headers.authorization).toBeUndefined();
+  });
+
+  it('should degrade deep mode to quick mode when tools are rejected', async () => {
+    const provider = new OpenAIProvider('secret', 'local-model', noRetries, { baseURL });
+    provider.setToolExecutor({} as ToolExecutor);
+
+    const first = await provider.analyze(request);
+    const second = await provider.analyze(request);
+
+    expect(first.summary).toBe('Looks fine');
+    expect(second.summary).toBe('Looks fine');
+    // One rejected tools request, then quick mode for both reviews
+    expect(requests.map((r) => !!r.body.tools)).toEqual([true, false, false]);
+  });
+
+  it('should skip tools when the server is known not to support them', async () => {
+    const provider = new OpenAIProvider('secret', 'local-model', noRetries, {
+      baseURL,
+      supportsTools: false,
+    });
+    provider.setToolExecutor({} as ToolExecutor);
+
+    await provider.analyze(request);
+
+    expect(requests.map((r) => !!r.body.tools)).toEqual([false]);
+  });
+
+  it('should report tool rejections when tools are declared as supported', async () => {
+    const provider = new OpenAIProvider('secret', 'local-model', noRetries, {
+      baseURL,
+      name: 'openai-compatible',
+      supportsTools: true,
+    });
+    provider.setToolExecutor({} as ToolExecutor);
+
+    await expect(provider.analyze(request)).rejects.toThrow(
+      /^openai-compatible API error: .*not supported/
+    );
+  });
+});
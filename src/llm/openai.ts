@@ -1,5 +1,5 @@
 import * as core from '@actions/core';
-import OpenAI from 'openai';
+import OpenAI, { AzureOpenAI } from 'openai';
 import {
   buildReviewPrompt,
   getDeepReviewSystemPrompt,
@@ -7,20 +7,60 @@ import {
 } from '../prompts/review.js';
 import { type ToolCall, type ToolName, getOpenAITools } from '../tools/definitions.js';
 import type { ToolExecutor } from '../tools/executor.js';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  type RetryOptions,
+  getErrorStatus,
+  parseJsonResponse,
+  withParseRetry,
+  withRetry,
+} from './retry.js';
 import type { LLMProvider, ReviewRequest, ReviewResponse } from './types.js';
 
 /** Maximum number of tool-use iterations */
 const MAX_TOOL_ITERATIONS = 10;
 
+/** Statuses OpenAI-compatible servers use to reject the `tools` parameter */
+const TOOLS_UNSUPPORTED_STATUSES = new Set([400, 404, 422, 501]);
+
+/** Options for OpenAI-compatible servers (vLLM, LM Studio, LiteLLM, ...) and Azure OpenAI */
+export interface OpenAIProviderOptions {
+  /** Provider name shown in logs and the review footer */
+  name?: string;
+  /** Base URL of the server, or the resource endpoint for Azure */
+  baseURL?: string;
+  /** Extra HTTP headers sent with every request */
+  headers?: Record<string, string>;
+  /** How the API key is sent: `Authorization: Bearer`, an `api-key` header, or not at all */
+  auth?: 'bearer' | 'api-key' | 'none';
+  azure?: {
+    deployment: string;
+    apiVersion: string;
+  };
+  /**
+   * Whether the server supports tool calling. When unset, deep mode is attempted
+   * and falls back to quick mode if the server rejects the tools.
+   */
+  supportsTools?: boolean;
+}
+
 export class OpenAIProvider implements LLMProvider {
-  readonly name = 'openai';
+  readonly name: string;
   private client: OpenAI;
-  private model: string;
+  readonly model: string;
   private toolExecutor?: ToolExecutor;
-
-  constructor(apiKey: string, model = 'gpt-4o') {
-    this.client = new OpenAI({ apiKey });
+  private supportsTools?: boolean;
+
+  constructor(
+    apiKey: string,
+    model = 'gpt-4o',
+    private retry: RetryOptions = DEFAULT_RETRY_OPTIONS,
+    options: OpenAIProviderOptions = {}
+  ) {
+    this.name = options.name || 'openai';
+    this.client = createClient(apiKey, options);
     this.model = model;
+    this.supportsTools = options.supportsTools;
   }
 
   setToolExecutor(executor: ToolExecutor): void {
@@ -28,58 +68,77 @@ export class OpenAIProvider implements LLMProvider {
   }
 
   async analyze(request: ReviewRequest): Promise<ReviewResponse> {
-    // Use deep mode with tools if enabled and executor is available
+    // Use deep mode with tools if enabled, the executor is available and the server supports tools
     if (request.reviewMode === 'deep' && this.toolExecutor) {
-      return this.analyzeWithTools(request);
+      if (this.supportsTools === false) {
+        core.warning(`${this.name} does not support tool calling. Falling back to quick mode.`);
+      } else {
+        try {
+          return await withParseRetry(() => this.analyzeWithTools(request), this.retry);
+        } catch (error) {
+          if (this.supportsTools === true || !isToolsUnsupportedError(error)) {
+            throw error;
+          }
+
+          this.supportsTools = false;
+          core.warning(
+            `${this.name} rejected tool calling (${error instanceof Error ? error.message : String(error)}). Falling back to quick mode.`
+          );
+        }
+      }
     }
-    return this.analyzeQuick(request);
+    return withParseRetry(() => this.analyzeQuick(request), this.retry);
   }
 
   private async analyzeQuick(request: ReviewRequest): Promise<ReviewResponse> {
-    const systemPrompt = getSystemPrompt();
+    const systemPrompt = getSystemPrompt(request);
     const userPrompt = buildReviewPrompt(request);
 
-    core.info(`Sending review request to OpenAI (${this.model}) - quick mode...`);
+    core.info(`Sending review request to ${this.name} (${this.model}) - quick mode...`);
     core.debug(`Prompt length: ${userPrompt.length} characters`);
 
     try {
-      const response = await this.client.chat.completions.create({
-        model: this.model,
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        response_format: { type: 'json_object' },
-        temperature: 0.1,
-        max_tokens: 4096,
-      });
+      const response = await withRetry(
+        () =>
+          this.client.chat.completions.create({
+            model: this.model,
+            messages: [
+              { role: 'system', content: systemPrompt },
+              { role: 'user', content: userPrompt },
+            ],
+            response_format: { type: 'json_object' },
+            temperature: 0.1,
+            max_tokens: 4096,
+          }),
+        this.retry
+      );
 
       const content = response.choices[0]?.message?.content;
 
       if (!content) {
-        throw new Error('Empty response from OpenAI');
+        throw new Error(`Empty response from ${this.name}`);
       }
 
-      core.debug(`OpenAI response: ${content.substring(0, 500)}...`);
+      core.debug(`${this.name} response: ${content.substring(0, 500)}...`);
 
-      const parsed = JSON.parse(content) as ReviewResponse;
+      const parsed = parseJsonResponse<ReviewResponse>(this.name, content);
 
       return this.validateResponse(parsed);
     } catch (error) {
       if (error instanceof OpenAI.APIError) {
-        core.error(`OpenAI API error: ${error.message}`);
-        throw new Error(`OpenAI API error: ${error.message}`);
+        core.error(`${this.name} API error: ${error.message}`);
+        throw new Error(`${this.name} API error: ${error.message}`, { cause: error });
       }
       throw error;
     }
   }
 
   private async analyzeWithTools(request: ReviewRequest): Promise<ReviewResponse> {
-    const systemPrompt = getDeepReviewSystemPrompt();
+    const systemPrompt = getDeepReviewSystemPrompt(request);
     const userPrompt = buildReviewPrompt(request);
     const tools = getOpenAITools();
 
-    core.info(`Sending review request to OpenAI (${this.model}) - deep mode with tools...`);
+    core.info(`Sending review request to ${this.name} (${this.model}) - deep mode with tools...`);
 
     const messages: OpenAI.ChatCompletionMessageParam[] = [
       { role: 'system', content: systemPrompt },
@@ -92,17 +151,21 @@ export class OpenAIProvider implements LLMProvider {
         iterations++;
         core.debug(`Tool iteration ${iterations}/${MAX_TOOL_ITERATIONS}`);
 
-        const response = await this.client.chat.completions.create({
-          model: this.model,
-          messages,
-          tools,
-          temperature: 0.1,
-          max_tokens: 4096,
-        });
+        const response = await withRetry(
+          () =>
+            this.client.chat.completions.create({
+              model: this.model,
+              messages,
+              tools,
+              temperature: 0.1,
+              max_tokens: 4096,
+            }),
+          this.retry
+        );
 
         const choice = response.choices[0];
         if (!choice) {
-          throw new Error('No response choice from OpenAI');
+          throw new Error(`No response choice from ${this.name}`);
         }
 
         const message = choice.message;
@@ -113,13 +176,7 @@ export class OpenAIProvider implements LLMProvider {
             throw new Error('No content in final response');
           }
 
-          // Try to parse JSON from response
-          const jsonMatch = message.content.match(/```(?:json)?\s*([\s\S]*?)```/) || [
-            null,
-            message.content,
-          ];
-          const jsonString = jsonMatch[1]?.trim() || message.content.trim();
-          const parsed = JSON.parse(jsonString) as ReviewResponse;
+          const parsed = parseJsonResponse<ReviewResponse>(this.name, message.content);
 
           core.info(`Deep review completed after ${iterations} iteration(s)`);
           return this.validateResponse(parsed);
@@ -136,7 +193,10 @@ export class OpenAIProvider implements LLMProvider {
           };
 
           core.info(`Executing tool: ${toolCall.name}`);
-          const result = await this.toolExecutor?.execute(toolCall);
+          if (!this.toolExecutor) {
+            throw new Error('Tool executor not available');
+          }
+          const result = await this.toolExecutor.execute(toolCall);
 
           messages.push({
             role: 'tool',
@@ -149,8 +209,8 @@ export class OpenAIProvider implements LLMProvider {
       throw new Error(`Max tool iterations (${MAX_TOOL_ITERATIONS}) exceeded`);
     } catch (error) {
       if (error instanceof OpenAI.APIError) {
-        core.error(`OpenAI API error: ${error.message}`);
-        throw new Error(`OpenAI API error: ${error.message}`);
+        core.error(`${this.name} API error: ${error.message}`);
+        throw new Error(`${this.name} API error: ${error.message}`, { cause: error });
       }
       throw error;
     }
@@ -186,3 +246,55 @@ export class OpenAIProvider implements LLMProvider {
     return r;
   }
 }
+
+function createClient(apiKey: string, options: OpenAIProviderOptions): OpenAI {
+  // Retries are handled by withRetry so they are consistent across providers
+  const maxRetries = 0;
+  const defaultHeaders: Record<string, string | null> = { ...options.headers };
+
+  if (options.azure) {
+    return new AzureOpenAI({
+      apiKey,
+      endpoint: options.baseURL,
+      deployment: options.azure.deployment,
+      apiVersion: options.azure.apiVersion,
+      defaultHeaders,
+      maxRetries,
+    });
+  }
+
+  // A null header value removes the SDK's default Authorization header
+  if (options.auth === 'api-key') {
+    defaultHeaders.Authorization = null;
+    defaultHeaders['api-key'] = apiKey;
+  } else if (options.auth === 'none') {
+    defaultHeaders.Authorization = null;
+  }
+
+  return new OpenAI({
+    // The SDK refuses to start without a key, even when none is sent
+    apiKey: apiKey || 'unused',
+    baseURL: options.baseURL,
+    defaultHeaders,
+    maxRetries,
+  });
+}
+
+/**
+ * Whether a deep-mode failure means the server does not understand the `tools` parameter.
+ */
+function isToolsUnsupportedError(error: unknown): boolean {
+  // API errors are wrapped, keeping the SDK error as the cause
+  const apiError = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+
+  if (!(apiError instanceof Error)) {
+    return false;
+  }
+
+  const status = getErrorStatus(apiError);
+  return (
+    status !== undefined &&
+    TOOLS_UNSUPPORTED_STATUSES.has(status) &&
+    /tool|function/i.test(apiError.message)
+  );
+}
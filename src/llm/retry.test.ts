@@ -0,0 +1,167 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  ResponseParseError,
+  type RetryOptions,
+  computeBackoff,
+  getRetryAfterMs,
+  isRetryableError,
+  parseJsonResponse,
+  withParseRetry,
+  withRetry,
+} from './retry.js';
+
+const options: RetryOptions = {
+  maxAttempts: 3,
+  initialDelayMs: 100,
+  maxDelayMs: 1000,
+  parseAttempts: 2,
+};
+
+class FakeApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly headers: Record<string, string> = {}
+  ) {
+    super(`HTTP ${status}`);
+  }
+}
+
+/** Fails with the given errors in order, then succeeds */
+const createFakeClient = (failures: unknown[]) => {
+  const calls = { count: 0 };
+  const call = async () => {
+    const failure = failures[calls.count++];
+    if (failure) {
+      throw failure;
+    }
+    return 'ok';
+  };
+  return { call, calls };
+};
+
+const noJitter = () => 0.5;
+
+describe('withRetry', () => {
+  it('should retry rate limits and overload until the call succeeds', async () => {
+    const client = createFakeClient([new FakeApiError(429), new FakeApiError(529)]);
+    const sleep = vi.fn(async () => {});
+
+    await expect(withRetry(client.call, options, { sleep, random: noJitter })).resolves.toBe('ok');
+
+    expect(client.calls.count).toBe(3);
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([75, 150]);
+  });
+
+  it('should give up after the attempt budget', async () => {
+    const client = createFakeClient([
+      new FakeApiError(503),
+      new FakeApiError(503),
+      new FakeApiError(503),
+    ]);
+    const sleep = vi.fn(async () => {});
+
+    await expect(withRetry(client.call, options, { sleep })).rejects.toThrow('HTTP 503');
+
+    expect(client.calls.count).toBe(3);
+    expect(sleep).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry client errors', async () => {
+    const client = createFakeClient([new FakeApiError(401)]);
+    const sleep = vi.fn(async () => {});
+
+    await expect(withRetry(client.call, options, { sleep })).rejects.toThrow('HTTP 401');
+
+    expect(client.calls.count).toBe(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('should honour Retry-After, capped at the maximum delay', async () => {
+    const client = createFakeClient([
+      new FakeApiError(429, { 'retry-after': '0.2' }),
+      new FakeApiError(429, { 'retry-after': '60' }),
+    ]);
+    const sleep = vi.fn(async () => {});
+
+    await withRetry(client.call, options, { sleep, random: noJitter });
+
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([200, 1000]);
+  });
+});
+
+describe('withParseRetry', () => {
+  it('should ask again when the response is not valid JSON', async () => {
+    const client = createFakeClient([
+      new ResponseParseError('openai', new Error('Unexpected token')),
+    ]);
+
+    await expect(withParseRetry(client.call, options)).resolves.toBe('ok');
+    expect(client.calls.count).toBe(2);
+  });
+
+  it('should stop after the parse attempt budget', async () => {
+    const parseError = new ResponseParseError('openai', new Error('Unexpected token'));
+    const client = createFakeClient([parseError, parseError]);
+
+    await expect(withParseRetry(client.call, options)).rejects.toBe(parseError);
+    expect(client.calls.count).toBe(2);
+  });
+
+  it('should not retry other errors', async () => {
+    const client = createFakeClient([new FakeApiError(429)]);
+
+    await expect(withParseRetry(client.call, options)).rejects.toThrow('HTTP 429');
+    expect(client.calls.count).toBe(1);
+  });
+});
+
+describe('parseJsonResponse', () => {
+  it('should parse plain and fenced JSON', () => {
+    expect(parseJsonResponse('openai', '{"a":1}')).toEqual({ a: 1 });
+    expect(parseJsonResponse('anthropic', 'Here:\n```json\n{"a":2}\n```')).toEqual({ a: 2 });
+  });
+
+  it('should throw a ResponseParseError for invalid JSON', () => {
+    expect(() => parseJsonResponse('gemini', 'not json')).toThrow(ResponseParseError);
+  });
+});
+
+describe('computeBackoff', () => {
+  it('should grow exponentially with jitter and respect the maximum', () => {
+    expect(computeBackoff(1, options, () => 0)).toBe(50);
+    expect(computeBackoff(1, options, () => 0.999)).toBeCloseTo(100, 0);
+    expect(computeBackoff(3, options, () => 0.5)).toBe(300);
+    expect(computeBackoff(10, options, () => 0.5)).toBe(750);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('should classify errors by status, name and code', () => {
+    expect(isRetryableError(new FakeApiError(500))).toBe(true);
+    expect(isRetryableError(new FakeApiError(400))).toBe(false);
+    expect(isRetryableError(Object.assign(new Error('busy'), { status_code: 503 }))).toBe(true);
+    expect(isRetryableError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(true);
+    expect(
+      isRetryableError(
+        new TypeError('fetch failed', {
+          cause: Object.assign(new Error('timeout'), { code: 'ETIMEDOUT' }),
+        })
+      )
+    ).toBe(true);
+    expect(isRetryableError(new Error('Invalid API key'))).toBe(false);
+  });
+});
+
+describe('getRetryAfterMs', () => {
+  it('should read seconds, milliseconds and HTTP dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+
+    expect(getRetryAfterMs({ headers: { 'retry-after': '3' } }, now)).toBe(3000);
+    expect(getRetryAfterMs({ headers: new Headers({ 'retry-after-ms': '250' }) }, now)).toBe(250);
+    expect(
+      getRetryAfterMs({ headers: { 'retry-after': 'Thu, 01 Jan 2026 00:00:05 GMT' } }, now)
+    ).toBe(5000);
+    expect(getRetryAfterMs({ headers: {} }, now)).toBeUndefined();
+    expect(getRetryAfterMs(new Error('no headers'), now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,216 @@
+import * as core from '@actions/core';
+
+export interface RetryOptions {
+  /** Total attempts per API call, including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry; doubled for every further attempt */
+  initialDelayMs: number;
+  /** Upper bound for a single delay, including Retry-After */
+  maxDelayMs: number;
+  /** Total attempts when the model returns a response that is not valid JSON */
+  parseAttempts: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 4,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+  parseAttempts: 2,
+};
+
+/** Hooks for tests to make retries deterministic */
+export interface RetryDependencies {
+  sleep?: (ms: number) => Promise<void>;
+  /** Returns a number in [0, 1), used for jitter */
+  random?: () => number;
+}
+
+/**
+ * Thrown by providers when the model's answer cannot be parsed as a review.
+ * Unlike API errors it is retried by asking the model again.
+ */
+export class ResponseParseError extends Error {
+  constructor(
+    readonly provider: string,
+    cause: unknown
+  ) {
+    super(
+      `${provider} returned an invalid JSON response: ${cause instanceof Error ? cause.message : String(cause)}`
+    );
+    this.name = 'ResponseParseError';
+  }
+}
+
+/** 408 timeout, 409 conflict, 425 too early, 429 rate limit, 5xx server errors, 529 overloaded */
+const RETRYABLE_STATUSES = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529]);
+
+const RETRYABLE_ERROR_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN']);
+
+const RETRYABLE_ERROR_NAMES = new Set(['APIConnectionError', 'APIConnectionTimeoutError']);
+
+/**
+ * Run an API call, retrying transient failures (rate limits, overload, 5xx,
+ * dropped connections) with exponential backoff and jitter. A Retry-After
+ * header on the error takes precedence over the computed delay.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  deps: RetryDependencies = {}
+): Promise<T> {
+  const sleep = deps.sleep || defaultSleep;
+  const random = deps.random || Math.random;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= options.maxAttempts || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const delay = Math.min(
+        getRetryAfterMs(error) ?? computeBackoff(attempt, options, random),
+        options.maxDelayMs
+      );
+
+      core.warning(
+        `LLM request failed (${describeError(error)}), retrying in ${Math.round(delay)}ms (attempt ${attempt + 1}/${options.maxAttempts})`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Run a complete review, asking the model again when its answer is not valid JSON.
+ */
+export async function withParseRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (!(error instanceof ResponseParseError) || attempt >= options.parseAttempts) {
+        throw error;
+      }
+
+      core.warning(
+        `${error.message}. Asking again (attempt ${attempt + 1}/${options.parseAttempts})`
+      );
+    }
+  }
+}
+
+/**
+ * Parse a JSON document, tolerating a surrounding markdown code fence.
+ * @throws ResponseParseError when the content is not valid JSON
+ */
+export function parseJsonResponse<T>(provider: string, content: string): T {
+  const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/) || [null, content];
+  const jsonString = jsonMatch[1]?.trim() || content.trim();
+
+  try {
+    return JSON.parse(jsonString) as T;
+  } catch (error) {
+    throw new ResponseParseError(provider, error);
+  }
+}
+
+/**
+ * Exponential backoff with "equal jitter": half the delay is fixed, half random.
+ */
+export function computeBackoff(
+  attempt: number,
+  options: RetryOptions,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(options.initialDelayMs * 2 ** (attempt - 1), options.maxDelayMs);
+  return exponential / 2 + (random() * exponential) / 2;
+}
+
+export function isRetryableError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) {
+    return false;
+  }
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return RETRYABLE_STATUSES.has(status);
+  }
+
+  const { name, code, cause } = error as { name?: string; code?: string; cause?: unknown };
+
+  if ((name && RETRYABLE_ERROR_NAMES.has(name)) || (code && RETRYABLE_ERROR_CODES.has(code))) {
+    return true;
+  }
+
+  // fetch() wraps socket errors: TypeError('fetch failed', { cause })
+  return cause !== undefined && cause !== error && isRetryableError(cause);
+}
+
+/**
+ * Read the delay requested by the server via `retry-after-ms` or `Retry-After`
+ * (seconds or an HTTP date).
+ */
+export function getRetryAfterMs(error: unknown, now: number = Date.now()): number | undefined {
+  const headers = (error as { headers?: unknown } | null)?.headers;
+
+  const retryAfterMs = Number.parseFloat(getHeader(headers, 'retry-after-ms') ?? '');
+  if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = getHeader(headers, 'retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * HTTP status of an SDK error, if any.
+ */
+export function getErrorStatus(error: object): number | undefined {
+  // OpenAI, Anthropic and Gemini use `status`, Ollama uses `status_code`
+  const { status, status_code } = error as { status?: unknown; status_code?: unknown };
+  const value = status ?? status_code;
+  return typeof value === 'number' ? value : undefined;
+}
+
+function getHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== 'object') {
+    return undefined;
+  }
+
+  // Fetch Headers (newer SDKs) or a plain record (older SDKs)
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function describeError(error: unknown): string {
+  if (typeof error === 'object' && error !== null) {
+    const status = getErrorStatus(error);
+    if (status !== undefined) {
+      return `HTTP ${status}`;
+    }
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
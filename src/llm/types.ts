@@ -1,10 +1,21 @@
-import type { Pattern, ReviewCategory, ReviewMode, Severity } from '../config/schema.js';
+import type {
+  Pattern,
+  PromptPack,
+  ReviewCategory,
+  ReviewMode,
+  Severity,
+} from '../config/schema.js';
+import type { PromptTemplates } from '../prompts/templates.js';
 import type { ToolExecutor } from '../tools/executor.js';
 
 export interface FileContext {
   path: string;
   content: string;
   role: 'changed' | 'sibling' | 'import' | 'test';
+  /** Why a related file was included, e.g. "defines getUser used by src/api.ts" */
+  reason?: string;
+  /** Changed files a related file was included for */
+  relatedTo?: string[];
 }
 
 export interface AIContextFile {
@@ -23,8 +34,10 @@ export interface ReviewContext {
 }
 
 export interface CodebaseStack {
+  /** Most used first */
   languages: string[];
   frameworks: string[];
+  testRunners: string[];
 }
 
 export interface ReviewRequest {
@@ -40,6 +53,14 @@ export interface ReviewRequest {
   categories: ReviewCategory[];
   /** Review mode: 'quick' for single call, 'deep' for agentic with tools */
   reviewMode: ReviewMode;
+  /** Set when the diff only covers commits pushed since this earlier reviewed SHA */
+  incrementalSince?: string;
+  /** Content left out to fit the context window, e.g. "src/big.ts: diff omitted" */
+  omittedContext?: string[];
+  /** Prompt packs selected for the changed files, added to the system prompt */
+  packs?: PromptPack[];
+  /** Team templates replacing the system prompt or sections of the review prompt */
+  templates?: PromptTemplates;
 }
 
 export interface ReviewIssue {
@@ -48,20 +69,46 @@ export interface ReviewIssue {
   file: string;
   line?: number;
   endLine?: number;
+  /** Side of the diff the lines refer to: `old` for removed code, numbered as in the old file */
+  side?: 'old' | 'new';
+  /** Code at `line` as quoted by the model, used to check and correct the line number */
+  snippet?: string;
   title: string;
   description: string;
   suggestion?: string;
   codeBlock?: string;
+  /** Whether codeBlock replaces lines line..endLine exactly, so it can be applied as a suggestion */
+  replacement?: boolean;
+  /** Stable identifier used to recognise the issue across runs */
+  fingerprint?: string;
+  /** What reported the issue: the model, a configured rule, the secret scanner or the test check */
+  source?: IssueSource;
+  /** Id of the configured rule, for issues with source `rule` */
+  ruleId?: string;
 }
 
+export type IssueSource = 'llm' | 'rule' | 'secrets' | 'tests';
+
 export interface ReviewResponse {
   summary: string;
   effortScore: 1 | 2 | 3 | 4 | 5;
   issues: ReviewIssue[];
+  /** Providers that produced the review, set by a fallback chain where it may not be the primary */
+  providers?: ProviderUsage[];
+}
+
+/** Provider and model that answered a review request */
+export interface ProviderUsage {
+  name: string;
+  model?: string;
 }
 
 export interface LLMProvider {
   readonly name: string;
+  /** Model used for reviews; for a fallback chain, the model of the primary provider */
+  readonly model?: string;
+  /** Tokens the prompt has to fit in; looked up from the model when unset */
+  readonly contextWindow?: number;
   /** Set the tool executor for deep review mode */
   setToolExecutor?(executor: ToolExecutor): void;
   analyze(request: ReviewRequest): Promise<ReviewResponse>;
@@ -91,15 +138,18 @@ export const REVIEW_RESPONSE_SCHEMA = {
           },
           category: {
             type: 'string',
-            enum: ['security', 'architecture', 'performance', 'best-practices', 'bugs'],
+            enum: ['security', 'architecture', 'performance', 'best-practices', 'bugs', 'testing'],
           },
           file: { type: 'string' },
           line: { type: 'number' },
           endLine: { type: 'number' },
+          side: { type: 'string', enum: ['old', 'new'] },
+          snippet: { type: 'string' },
           title: { type: 'string' },
           description: { type: 'string' },
           suggestion: { type: 'string' },
           codeBlock: { type: 'string' },
+          replacement: { type: 'boolean' },
         },
         required: ['severity', 'category', 'file', 'title', 'description'],
       },
@@ -2,6 +2,7 @@ import { describe, expect, it } from 'vitest';
 import type { SentinelConfig } from '../config/schema.js';
 import type { ReviewIssue, ReviewResponse } from '../llm/types.js';
 import { OutputFormatter } from './formatter.js';
+import { parseFingerprintMarker, parseRunMarker } from './markers.js';
 
 const createMockConfig = (overrides: Partial<SentinelConfig> = {}): SentinelConfig => ({
   llm: { provider: 'openai' },
@@ -111,6 +112,109 @@ describe('OutputFormatter', () => {
     });
   });
 
+  describe('run marker', () => {
+    it('should embed the reviewed head SHA and run stats as a hidden marker', () => {
+      const formatter = new OutputFormatter(createMockConfig(), 'openai');
+      const response: ReviewResponse = { summary: 'Looks good!', effortScore: 2, issues: [] };
+
+      const output = formatter.format(response, [], { headSha: 'def4567890' });
+
+      expect(parseRunMarker(output.summary)).toEqual({
+        headSha: 'def4567890',
+        effortScore: 2,
+        issues: 0,
+        critical: 0,
+        warnings: 0,
+      });
+    });
+
+    it('should note incremental reviews in the summary', () => {
+      const formatter = new OutputFormatter(createMockConfig(), 'openai');
+      const response: ReviewResponse = { summary: 'Looks good!', effortScore: 2, issues: [] };
+
+      const output = formatter.format(response, [], {
+        headSha: 'def4567890',
+        incrementalSince: 'abc1234567',
+      });
+
+      expect(output.summary).toContain('Incremental review of changes from `abc1234` to `def4567`');
+    });
+
+    it('should not embed a marker without a head SHA', () => {
+      const formatter = new OutputFormatter(createMockConfig(), 'openai');
+      const response: ReviewResponse = { summary: 'Looks good!', effortScore: 2, issues: [] };
+
+      const output = formatter.format(response, []);
+
+      expect(parseRunMarker(output.summary)).toBeUndefined();
+    });
+  });
+
+  describe('omitted context', () => {
+    it('should list content that did not fit in the context window', () => {
+      const formatter = new OutputFormatter(createMockConfig(), 'openai');
+      const response: ReviewResponse = { summary: 'Looks good!', effortScore: 2, issues: [] };
+
+      const output = formatter.format(response, [], {
+        omittedContext: [
+          { kind: 'diff', path: 'src/big.ts', detail: '2 of 5 diff hunks omitted' },
+          { kind: 'related', path: 'src/other.ts', detail: 'related file omitted' },
+        ],
+      });
+
+      expect(output.summary).toContain(
+        "Not reviewed: 2 item(s) did not fit in the model's context window"
+      );
+      expect(output.summary).toContain('- `src/big.ts` - 2 of 5 diff hunks omitted');
+    });
+  });
+
+  describe('skipped files', () => {
+    it('should list files skipped for lack of a diff', () => {
+      const formatter = new OutputFormatter(createMockConfig(), 'openai');
+      const response: ReviewResponse = { summary: 'Looks good!', effortScore: 2, issues: [] };
+
+      const output = formatter.format(response, [], {
+        skippedFiles: [{ path: 'assets/logo.png', reason: 'binary file' }],
+      });
+
+      expect(output.summary).toContain('Skipped: 1 file(s) without a reviewable diff');
+      expect(output.summary).toContain('- `assets/logo.png` - binary file');
+    });
+  });
+
+  describe('suppressed issues', () => {
+    it('should mention suppressed issues', () => {
+      const formatter = new OutputFormatter(createMockConfig(), 'openai');
+      const response: ReviewResponse = { summary: 'Looks good!', effortScore: 2, issues: [] };
+
+      const output = formatter.format(response, [], { suppressedCount: 2 });
+
+      expect(output.summary).toContain(
+        '2 issue(s) suppressed by `sentinel-ignore` comments or the baseline'
+      );
+    });
+  });
+
+  describe('verification', () => {
+    it('should report how the issues held up against the pull request', () => {
+      const formatter = new OutputFormatter(createMockConfig(), 'openai');
+      const response: ReviewResponse = { summary: 'Looks good!', effortScore: 2, issues: [] };
+
+      const output = formatter.format(response, [], {
+        verification: { confirmed: 4, dropped: 1, relocated: 2 },
+      });
+      const unchecked = formatter.format(response, [], {
+        verification: { confirmed: 0, dropped: 0, relocated: 0 },
+      });
+
+      expect(output.summary).toContain(
+        "Checked the model's findings against the pull request: 4 confirmed, 2 moved to the right location, 1 dropped."
+      );
+      expect(unchecked.summary).not.toContain("Checked the model's findings");
+    });
+  });
+
   describe('formatInlineComments', () => {
     it('should create inline comments for issues with line numbers', () => {
       const config = createMockConfig();
@@ -152,7 +256,7 @@ describe('OutputFormatter', () => {
       expect(output.inlineComments[0].side).toBe('RIGHT');
     });
 
-    it('should respect max_inline_comments limit', () => {
+    it('should leave max_inline_comments to the platform', () => {
       const config = createMockConfig({
         output: {
           summary: true,
@@ -185,7 +289,8 @@ describe('OutputFormatter', () => {
 
       const output = formatter.format(response, issues);
 
-      expect(output.inlineComments).toHaveLength(2);
+      // Issues with open threads are skipped before the limit is applied
+      expect(output.inlineComments).toHaveLength(5);
     });
 
     it('should include code block in inline comment when provided', () => {
@@ -214,6 +319,97 @@ describe('OutputFormatter', () => {
 
       expect(output.inlineComments[0].body).toContain('```');
       expect(output.inlineComments[0].body).toContain('const x = 1;');
+      expect(output.inlineComments[0].body).not.toContain('```suggestion');
+    });
+
+    it('should name the rule that reported an issue', () => {
+      const formatter = new OutputFormatter(createMockConfig(), 'openai');
+      const response: ReviewResponse = { summary: 'Found issues.', effortScore: 2, issues: [] };
+      const issues: ReviewIssue[] = [
+        {
+          severity: 'warning',
+          category: 'best-practices',
+          file: 'src/api.ts',
+          line: 11,
+          title: 'Remove console.log before merging',
+          description: 'This line matches the team rule `no-console`.',
+          source: 'rule',
+          ruleId: 'no-console',
+        },
+      ];
+
+      const [comment] = formatter.format(response, issues).inlineComments;
+
+      expect(comment.body).toContain('Severity: warning | Rule: `no-console`');
+    });
+
+    it('should post issues on removed code to the old side without suggestions', () => {
+      const formatter = new OutputFormatter(createMockConfig(), 'openai');
+      const response: ReviewResponse = { summary: 'Found issues.', effortScore: 2, issues: [] };
+      const issues: ReviewIssue[] = [
+        {
+          severity: 'critical',
+          category: 'security',
+          file: 'src/auth.ts',
+          line: 12,
+          side: 'old',
+          title: 'Authorization check removed',
+          description: 'Anyone can now delete users',
+          codeBlock: 'if (!isAdmin(user)) throw new Forbidden();',
+          replacement: true,
+        },
+      ];
+
+      const output = formatter.format(response, issues);
+
+      expect(output.inlineComments[0].side).toBe('LEFT');
+      expect(output.inlineComments[0].body).not.toContain('```suggestion');
+      expect(output.summary).toContain('`src/auth.ts:12` (before the change)');
+    });
+
+    it('should post multi-line replacements as suggestions on the whole range', () => {
+      const formatter = new OutputFormatter(createMockConfig(), 'openai');
+      const response: ReviewResponse = { summary: 'Found issues.', effortScore: 2, issues: [] };
+      const issues: ReviewIssue[] = [
+        {
+          severity: 'suggestion',
+          category: 'bugs',
+          file: 'src/utils.ts',
+          line: 5,
+          endLine: 7,
+          title: 'Handle missing user',
+          description: 'user may be undefined',
+          codeBlock: 'if (!user) {\n  return;\n}',
+          replacement: true,
+        },
+      ];
+
+      const [comment] = formatter.format(response, issues).inlineComments;
+
+      expect(comment).toMatchObject({ startLine: 5, line: 7 });
+      expect(comment.body).toContain('```suggestion\nif (!user) {\n  return;\n}\n```');
+    });
+  });
+
+  describe('fingerprints', () => {
+    it('should embed the issue fingerprint in the inline comment', () => {
+      const formatter = new OutputFormatter(createMockConfig(), 'openai');
+      const response: ReviewResponse = { summary: 'Found issues.', effortScore: 3, issues: [] };
+
+      const output = formatter.format(response, [
+        {
+          severity: 'warning',
+          category: 'bugs',
+          file: 'src/utils.ts',
+          line: 5,
+          title: 'Missing null check',
+          description: 'Could throw',
+          fingerprint: 'abc123def4567890',
+        },
+      ]);
+
+      expect(output.inlineComments[0].fingerprint).toBe('abc123def4567890');
+      expect(parseFingerprintMarker(output.inlineComments[0].body)).toBe('abc123def4567890');
     });
   });
 
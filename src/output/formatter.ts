@@ -1,6 +1,10 @@
 import type { SentinelConfig } from '../config/schema.js';
+import type { VerificationReport } from '../engine/analyzer.js';
+import type { OmittedContent } from '../engine/packer.js';
 import type { ReviewIssue, ReviewResponse } from '../llm/types.js';
-import type { ReviewComment } from '../platforms/types.js';
+import type { ReviewComment, SkippedFile } from '../platforms/types.js';
+import { formatFingerprintMarker, formatRunMarker } from './markers.js';
+import { formatSuggestionBlock } from './suggestion.js';
 
 export interface FormattedOutput {
   summary: string;
@@ -8,27 +12,57 @@ export interface FormattedOutput {
   labels: string[];
 }
 
+export interface SummaryMetadata {
+  /** Head commit the review was produced for, embedded as a hidden marker */
+  headSha?: string;
+  /** Previously reviewed commit when only newer commits were reviewed */
+  incrementalSince?: string;
+  /** Content that did not fit in the model's context window */
+  omittedContext?: OmittedContent[];
+  /** Changed files without a reviewable diff */
+  skippedFiles?: SkippedFile[];
+  /** Issues left out by `sentinel-ignore` comments or the baseline */
+  suppressedCount?: number;
+  /** How the model's issues held up when checked against the pull request */
+  verification?: VerificationReport;
+}
+
 export class OutputFormatter {
   constructor(
     private config: SentinelConfig,
     private llmProviderName: string
   ) {}
 
-  format(response: ReviewResponse, filteredIssues: ReviewIssue[]): FormattedOutput {
-    const summary = this.formatSummary(response, filteredIssues);
+  format(
+    response: ReviewResponse,
+    filteredIssues: ReviewIssue[],
+    metadata: SummaryMetadata = {}
+  ): FormattedOutput {
+    const summary = this.formatSummary(response, filteredIssues, metadata);
     const inlineComments = this.formatInlineComments(filteredIssues);
     const labels = this.generateLabels(response, filteredIssues);
 
     return { summary, inlineComments, labels };
   }
 
-  private formatSummary(response: ReviewResponse, issues: ReviewIssue[]): string {
+  private formatSummary(
+    response: ReviewResponse,
+    issues: ReviewIssue[],
+    metadata: SummaryMetadata
+  ): string {
     const lines: string[] = [];
 
     // Header
     lines.push('## Code Sentinel Review');
     lines.push('');
 
+    if (metadata.incrementalSince && metadata.headSha) {
+      lines.push(
+        `*Incremental review of changes from \`${metadata.incrementalSince.substring(0, 7)}\` to \`${metadata.headSha.substring(0, 7)}\`*`
+      );
+      lines.push('');
+    }
+
     // Effort Score
     const stars = this.getStars(response.effortScore);
     lines.push(`**Review Effort:** ${stars} (${response.effortScore}/5)`);
@@ -85,34 +119,107 @@ export class OutputFormatter {
       lines.push('');
     }
 
+    if (metadata.suppressedCount) {
+      lines.push(
+        `*${metadata.suppressedCount} issue(s) suppressed by \`sentinel-ignore\` comments or the baseline.*`
+      );
+      lines.push('');
+    }
+
+    const { verification } = metadata;
+    if (
+      verification &&
+      verification.confirmed + verification.dropped + verification.relocated > 0
+    ) {
+      lines.push(
+        `*Checked the model's findings against the pull request: ${verification.confirmed} confirmed, ${verification.relocated} moved to the right location, ${verification.dropped} dropped.*`
+      );
+      lines.push('');
+    }
+
+    if (metadata.omittedContext && metadata.omittedContext.length > 0) {
+      lines.push(...this.formatOmittedContext(metadata.omittedContext));
+    }
+
+    if (metadata.skippedFiles && metadata.skippedFiles.length > 0) {
+      lines.push(...this.formatSkippedFiles(metadata.skippedFiles));
+    }
+
     // Footer
     lines.push('---');
     lines.push(
       `<sub>Reviewed by [Code Sentinel](https://github.com/sah1l/code-sentinel) using ${this.llmProviderName}</sub>`
     );
 
+    if (metadata.headSha) {
+      lines.push(
+        formatRunMarker({
+          headSha: metadata.headSha,
+          effortScore: response.effortScore,
+          issues: issues.length,
+          critical: issues.filter((i) => i.severity === 'critical').length,
+          warnings: issues.filter((i) => i.severity === 'warning').length,
+        })
+      );
+    }
+
     return lines.join('\n');
   }
 
+  private formatOmittedContext(omitted: OmittedContent[]): string[] {
+    const lines = [
+      '<details>',
+      `<summary>Not reviewed: ${omitted.length} item(s) did not fit in the model's context window</summary>`,
+      '',
+    ];
+
+    for (const item of omitted) {
+      lines.push(`- \`${item.path}\` - ${item.detail}`);
+    }
+
+    lines.push('', '</details>', '');
+    return lines;
+  }
+
+  private formatSkippedFiles(skipped: SkippedFile[]): string[] {
+    const lines = [
+      '<details>',
+      `<summary>Skipped: ${skipped.length} file(s) without a reviewable diff</summary>`,
+      '',
+    ];
+
+    for (const file of skipped) {
+      lines.push(`- \`${file.path}\` - ${file.reason}`);
+    }
+
+    lines.push('', '</details>', '');
+    return lines;
+  }
+
   private formatIssueLine(issue: ReviewIssue): string {
     const location = issue.line ? `:${issue.line}` : '';
-    return `- **${issue.title}** in \`${issue.file}${location}\` - ${issue.description}`;
+    const side = issue.line && issue.side === 'old' ? ' (before the change)' : '';
+    return `- **${issue.title}** in \`${issue.file}${location}\`${side} - ${issue.description}`;
   }
 
   private formatInlineComments(issues: ReviewIssue[]): ReviewComment[] {
     const comments: ReviewComment[] = [];
-    const maxComments = this.config.output.max_inline_comments;
 
-    // Only include issues that have line numbers
+    // Only include issues that have line numbers. max_inline_comments is applied
+    // by the platform, once issues that already have an open thread are skipped.
     const issuesWithLines = issues.filter((i) => i.line !== undefined);
 
-    for (const issue of issuesWithLines.slice(0, maxComments)) {
+    for (const issue of issuesWithLines) {
       if (issue.line !== undefined) {
+        const multiLine = issue.endLine !== undefined && issue.endLine > issue.line;
+
         comments.push({
           path: issue.file,
-          line: issue.line,
+          startLine: multiLine ? issue.line : undefined,
+          line: multiLine ? (issue.endLine as number) : issue.line,
           body: this.formatInlineComment(issue),
-          side: 'RIGHT',
+          side: issue.side === 'old' ? 'LEFT' : 'RIGHT',
+          fingerprint: issue.fingerprint,
         });
       }
     }
@@ -133,7 +240,12 @@ export class OutputFormatter {
       lines.push(`**Suggestion:** ${issue.suggestion}`);
     }
 
-    if (issue.codeBlock) {
+    // Suggestions can only replace lines of the new file
+    if (issue.codeBlock && issue.replacement && issue.side !== 'old') {
+      // Adapters turn this back into a plain block if the comment cannot cover exactly these lines
+      lines.push('');
+      lines.push(...formatSuggestionBlock(issue.codeBlock));
+    } else if (issue.codeBlock) {
       lines.push('');
       lines.push('```');
       lines.push(issue.codeBlock);
@@ -141,11 +253,30 @@ export class OutputFormatter {
     }
 
     lines.push('');
-    lines.push(`<sub>Category: ${issue.category} | Severity: ${issue.severity}</sub>`);
+    lines.push(
+      `<sub>Category: ${issue.category} | Severity: ${issue.severity}${this.formatSource(issue)}</sub>`
+    );
+
+    if (issue.fingerprint) {
+      lines.push(formatFingerprintMarker(issue.fingerprint));
+    }
 
     return lines.join('\n');
   }
 
+  private formatSource(issue: ReviewIssue): string {
+    if (issue.source === 'rule' && issue.ruleId) {
+      return ` | Rule: \`${issue.ruleId}\``;
+    }
+    if (issue.source === 'secrets') {
+      return ' | Source: secret scan';
+    }
+    if (issue.source === 'tests') {
+      return ' | Source: test check';
+    }
+    return '';
+  }
+
   private generateLabels(response: ReviewResponse, issues: ReviewIssue[]): string[] {
     if (!this.config.output.labels.enabled) {
       return [];
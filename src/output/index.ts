@@ -1 +1,5 @@
 export * from './formatter.js';
+export * from './markers.js';
+export * from './sticky.js';
+export * from './sarif.js';
+export * from './report.js';
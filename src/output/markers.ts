@@ -0,0 +1,87 @@
+/**
+ * Hidden HTML comment markers embedded in the comments Code Sentinel posts,
+ * so later runs can recognise their own output and pick up where they left off.
+ */
+
+export interface ReviewRunMarker {
+  /** Head commit SHA the review was produced for */
+  headSha: string;
+  effortScore?: number;
+  issues?: number;
+  critical?: number;
+  warnings?: number;
+}
+
+/** Identifies the single, self-updating summary comment */
+export const SUMMARY_MARKER = '<!-- code-sentinel:summary -->';
+
+/** Identifies the change requests submitted when the quality gate fails */
+export const CHANGE_REQUEST_MARKER = '<!-- code-sentinel:change-request -->';
+
+const FINGERPRINT_MARKER_PATTERN = /<!-- code-sentinel:fingerprint ([a-f0-9]+) -->/;
+const RUN_MARKER_PATTERN = /<!-- code-sentinel:run (\{.*?\}) -->/;
+const HISTORY_MARKER_PATTERN = /<!-- code-sentinel:history (\[.*?\]) -->/;
+
+export function formatRunMarker(run: ReviewRunMarker): string {
+  return `<!-- code-sentinel:run ${JSON.stringify(run)} -->`;
+}
+
+/**
+ * Extract the run marker from a comment body.
+ * Returns undefined when the body was not written by Code Sentinel or the marker is malformed.
+ */
+export function parseRunMarker(body: string | null | undefined): ReviewRunMarker | undefined {
+  const match = body?.match(RUN_MARKER_PATTERN);
+
+  if (!match) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(match[1]) as Partial<ReviewRunMarker>;
+    return isRunMarker(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function formatHistoryMarker(history: ReviewRunMarker[]): string {
+  return `<!-- code-sentinel:history ${JSON.stringify(history)} -->`;
+}
+
+/**
+ * Extract earlier runs recorded in a summary comment, most recent first.
+ */
+export function parseHistoryMarker(body: string | null | undefined): ReviewRunMarker[] {
+  const match = body?.match(HISTORY_MARKER_PATTERN);
+
+  if (!match) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(match[1]) as unknown;
+    return Array.isArray(parsed) ? parsed.filter(isRunMarker) : [];
+  } catch {
+    return [];
+  }
+}
+
+function isRunMarker(value: unknown): value is ReviewRunMarker {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ReviewRunMarker).headSha === 'string'
+  );
+}
+
+export function formatFingerprintMarker(fingerprint: string): string {
+  return `<!-- code-sentinel:fingerprint ${fingerprint} -->`;
+}
+
+/**
+ * Extract the issue fingerprint from an inline comment body.
+ */
+export function parseFingerprintMarker(body: string | null | undefined): string | undefined {
+  return body?.match(FINGERPRINT_MARKER_PATTERN)?.[1];
+}
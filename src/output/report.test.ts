@@ -0,0 +1,114 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { AnalysisResult } from '../engine/analyzer.js';
+import type { ReviewIssue } from '../llm/types.js';
+import { REPORT_VERSION, type ReportInput, buildReport, writeReportFile } from './report.js';
+
+const issue = (overrides: Partial<ReviewIssue> = {}): ReviewIssue => ({
+  file: 'src/db.ts',
+  line: 10,
+  severity: 'critical',
+  category: 'security',
+  title: 'SQL injection',
+  description: 'User input is concatenated into the query',
+  fingerprint: 'abc123',
+  ...overrides,
+});
+
+const createInput = (result: Partial<AnalysisResult> = {}): ReportInput => ({
+  pullRequest: {
+    id: 42,
+    title: 'Add users endpoint',
+    author: 'octocat',
+    baseBranch: 'main',
+    headBranch: 'feature/users',
+    baseSha: 'base123',
+    headSha: 'head456',
+  },
+  providers: [{ name: 'OpenAI', model: 'gpt-4o' }],
+  reviewMode: 'quick',
+  startedAt: new Date('2026-01-01T10:00:00.000Z'),
+  finishedAt: new Date('2026-01-01T10:00:12.500Z'),
+  result: {
+    response: { summary: 'Adds an endpoint', effortScore: 3, issues: [] },
+    filteredIssues: [],
+    skipped: false,
+    ...result,
+  },
+});
+
+describe('buildReport', () => {
+  it('should include version, provider, mode and timing', () => {
+    const report = buildReport(createInput());
+
+    expect(report.version).toBe(REPORT_VERSION);
+    expect(report.provider).toEqual({ name: 'OpenAI', model: 'gpt-4o' });
+    expect(report.reviewMode).toBe('quick');
+    expect(report.timing).toEqual({
+      startedAt: '2026-01-01T10:00:00.000Z',
+      finishedAt: '2026-01-01T10:00:12.500Z',
+      durationMs: 12500,
+    });
+    expect(report.pullRequest.headSha).toBe('head456');
+  });
+
+  it('should list every provider when groups were answered by different ones', () => {
+    const providers = [
+      { name: 'openai', model: 'gpt-4o' },
+      { name: 'ollama', model: 'llama3' },
+    ];
+
+    const report = buildReport({ ...createInput(), providers });
+
+    expect(report.provider).toEqual(providers[0]);
+    expect(report.providers).toEqual(providers);
+    expect(buildReport(createInput()).providers).toBeUndefined();
+  });
+
+  it('should count and list the reported issues', () => {
+    const critical = issue();
+    const warning = issue({ severity: 'warning', category: 'bugs', title: 'Missing null check' });
+    const nitpick = issue({ severity: 'nitpick', title: 'Naming' });
+
+    const report = buildReport(
+      createInput({
+        response: { summary: 'Needs work', effortScore: 4, issues: [critical, warning, nitpick] },
+        filteredIssues: [critical, warning],
+      })
+    );
+
+    expect(report.counts).toEqual({ total: 2, critical: 1, warning: 1, suggestion: 0, nitpick: 0 });
+    expect(report.issues.map((i) => i.title)).toEqual(['SQL injection', 'Missing null check']);
+    expect(report.issues[0].fingerprint).toBe('abc123');
+    expect(report.result.response.issues).toHaveLength(3);
+  });
+
+  it('should record the skip reason', () => {
+    const report = buildReport(
+      createInput({ skipped: true, skipReason: 'No reviewable files in PR' })
+    );
+
+    expect(report.skipped).toBe(true);
+    expect(report.skipReason).toBe('No reviewable files in PR');
+    expect(report.counts.total).toBe(0);
+  });
+});
+
+describe('writeReportFile', () => {
+  it('should write the report as JSON', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-report-'));
+    const filePath = path.join(dir, 'out', 'report.json');
+
+    try {
+      writeReportFile(filePath, buildReport(createInput({ filteredIssues: [issue()] })));
+
+      const written = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      expect(written.version).toBe(REPORT_VERSION);
+      expect(written.issues).toHaveLength(1);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { ReviewCategory, ReviewMode, Severity } from '../config/schema.js';
+import type { AnalysisResult } from '../engine/analyzer.js';
+import type { IssueSource, ProviderUsage } from '../llm/types.js';
+
+/** Bumped whenever a field is removed or changes meaning; additions keep the version */
+export const REPORT_VERSION = 1;
+
+/**
+ * Machine-readable review report written to `report_output`.
+ * Documented in README.md ("JSON Report").
+ */
+export interface SentinelReport {
+  version: typeof REPORT_VERSION;
+  /** ISO 8601 time the report was generated */
+  generatedAt: string;
+  pullRequest: {
+    id: number;
+    title: string;
+    author: string;
+    baseBranch: string;
+    headBranch: string;
+    baseSha: string;
+    headSha: string;
+  };
+  /** Provider that produced the review; the first of `providers` when there are several */
+  provider: ProviderUsage;
+  /** Every provider that answered, when a fallback chain answered groups of files differently */
+  providers?: ProviderUsage[];
+  reviewMode: ReviewMode;
+  timing: {
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+  };
+  skipped: boolean;
+  skipReason?: string;
+  /** Head SHA of the previous review when only newer commits were reviewed */
+  incrementalSince?: string;
+  summary: string;
+  effortScore: number;
+  counts: Record<Severity, number> & { total: number };
+  /** Issues that passed the severity filter, i.e. the ones that were reported */
+  issues: ReportIssue[];
+  /** Complete analysis result, including issues dropped by the severity filter */
+  result: AnalysisResult;
+}
+
+/** Compact per-issue data, also exposed as the `issues_json` action output */
+export interface ReportIssue {
+  file: string;
+  line?: number;
+  endLine?: number;
+  /** `old` when the lines refer to removed code in the old file */
+  side?: 'old' | 'new';
+  severity: Severity;
+  category: ReviewCategory;
+  title: string;
+  description: string;
+  suggestion?: string;
+  fingerprint?: string;
+  /** `llm`, `rule`, `secrets` or `tests` */
+  source?: IssueSource;
+  ruleId?: string;
+}
+
+export interface ReportInput {
+  pullRequest: SentinelReport['pullRequest'];
+  providers: ProviderUsage[];
+  reviewMode: ReviewMode;
+  startedAt: Date;
+  finishedAt: Date;
+  result: AnalysisResult;
+}
+
+/**
+ * Assemble the JSON report for a finished (or skipped) review.
+ */
+export function buildReport(input: ReportInput): SentinelReport {
+  const { result, startedAt, finishedAt } = input;
+  const issues = toReportIssues(result);
+
+  return {
+    version: REPORT_VERSION,
+    generatedAt: finishedAt.toISOString(),
+    pullRequest: input.pullRequest,
+    provider: input.providers[0],
+    ...(input.providers.length > 1 ? { providers: input.providers } : {}),
+    reviewMode: input.reviewMode,
+    timing: {
+      startedAt: startedAt.toISOString(),
+      finishedAt: finishedAt.toISOString(),
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+    },
+    skipped: result.skipped,
+    skipReason: result.skipReason,
+    incrementalSince: result.incrementalSince,
+    summary: result.response.summary,
+    effortScore: result.response.effortScore,
+    counts: {
+      total: issues.length,
+      critical: countSeverity(issues, 'critical'),
+      warning: countSeverity(issues, 'warning'),
+      suggestion: countSeverity(issues, 'suggestion'),
+      nitpick: countSeverity(issues, 'nitpick'),
+    },
+    issues,
+    result,
+  };
+}
+
+/**
+ * Reduce the reported issues to the compact form used by the report and the `issues_json` output.
+ */
+export function toReportIssues(result: AnalysisResult): ReportIssue[] {
+  return result.filteredIssues.map((issue) => ({
+    file: issue.file,
+    line: issue.line,
+    endLine: issue.endLine,
+    side: issue.side,
+    severity: issue.severity,
+    category: issue.category,
+    title: issue.title,
+    description: issue.description,
+    suggestion: issue.suggestion,
+    fingerprint: issue.fingerprint,
+    source: issue.source,
+    ruleId: issue.ruleId,
+  }));
+}
+
+/**
+ * Write the report to disk, creating parent directories as needed.
+ */
+export function writeReportFile(filePath: string, report: SentinelReport): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(report, null, 2)}\n`);
+}
+
+function countSeverity(issues: ReportIssue[], severity: Severity): number {
+  return issues.filter((i) => i.severity === severity).length;
+}
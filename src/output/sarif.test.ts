@@ -0,0 +1,120 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { ReviewIssue } from '../llm/types.js';
+import { buildSarifLog, writeSarifFile } from './sarif.js';
+
+const issue = (overrides: Partial<ReviewIssue> = {}): ReviewIssue => ({
+  file: 'src/db.ts',
+  line: 10,
+  severity: 'critical',
+  category: 'security',
+  title: 'SQL injection',
+  description: 'User input is concatenated into the query',
+  ...overrides,
+});
+
+describe('buildSarifLog', () => {
+  it('should produce an empty run when there are no issues', () => {
+    const log = buildSarifLog([]);
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs).toHaveLength(1);
+    expect(log.runs[0].results).toEqual([]);
+    expect(log.runs[0].tool.driver.rules).toEqual([]);
+  });
+
+  it('should map severities to SARIF levels', () => {
+    const log = buildSarifLog([
+      issue({ severity: 'critical' }),
+      issue({ severity: 'warning' }),
+      issue({ severity: 'suggestion' }),
+      issue({ severity: 'nitpick' }),
+    ]);
+
+    expect(log.runs[0].results.map((r) => r.level)).toEqual(['error', 'warning', 'note', 'note']);
+  });
+
+  it('should declare one rule per category', () => {
+    const log = buildSarifLog([
+      issue({ category: 'security' }),
+      issue({ category: 'bugs' }),
+      issue({ category: 'security' }),
+    ]);
+
+    expect(log.runs[0].tool.driver.rules.map((r) => r.id)).toEqual(['security', 'bugs']);
+    expect(log.runs[0].results.map((r) => r.ruleId)).toEqual(['security', 'bugs', 'security']);
+  });
+
+  it('should map file and line range to a region', () => {
+    const [result] = buildSarifLog([issue({ line: 10, endLine: 14 })]).runs[0].results;
+
+    expect(result.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/db.ts', uriBaseId: '%SRCROOT%' },
+      region: { startLine: 10, endLine: 14 },
+    });
+  });
+
+  it('should omit the region for file-level issues', () => {
+    const [result] = buildSarifLog([issue({ line: undefined })]).runs[0].results;
+
+    expect(result.locations[0].physicalLocation.region).toBeUndefined();
+  });
+
+  it('should include the suggestion in the message and as a fix', () => {
+    const [result] = buildSarifLog([
+      issue({
+        suggestion: 'Use a parameterized query',
+        codeBlock: 'db.query(sql, [id]);',
+        replacement: true,
+      }),
+    ]).runs[0].results;
+
+    expect(result.message.text).toContain('Suggestion: Use a parameterized query');
+    expect(result.fixes?.[0].description.text).toBe('Use a parameterized query');
+    expect(result.fixes?.[0].artifactChanges[0].replacements[0]).toEqual({
+      deletedRegion: { startLine: 10 },
+      insertedContent: { text: 'db.query(sql, [id]);' },
+    });
+  });
+
+  it('should not add a fix without a line to replace', () => {
+    const [result] = buildSarifLog([
+      issue({ line: undefined, codeBlock: 'fixed();', replacement: true }),
+    ]).runs[0].results;
+
+    expect(result.fixes).toBeUndefined();
+  });
+
+  it('should not add a fix for code blocks that do not replace the lines', () => {
+    const [result] = buildSarifLog([
+      issue({ suggestion: 'Validate the id first', codeBlock: 'if (!isUuid(id)) throw ...;' }),
+    ]).runs[0].results;
+
+    expect(result.message.text).toContain('Suggestion: Validate the id first');
+    expect(result.fixes).toBeUndefined();
+  });
+
+  it('should carry the issue fingerprint', () => {
+    const [result] = buildSarifLog([issue({ fingerprint: 'abc123' })]).runs[0].results;
+
+    expect(result.partialFingerprints).toEqual({ 'codeSentinel/v1': 'abc123' });
+  });
+});
+
+describe('writeSarifFile', () => {
+  it('should create parent directories and write valid JSON', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-sarif-'));
+    const filePath = path.join(dir, 'reports', 'sentinel.sarif');
+
+    try {
+      writeSarifFile(filePath, buildSarifLog([issue()]));
+
+      const written = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+      expect(written.runs[0].results).toHaveLength(1);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
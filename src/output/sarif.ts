@@ -0,0 +1,185 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { ReviewCategory, Severity } from '../config/schema.js';
+import type { IssueSource, ReviewIssue } from '../llm/types.js';
+
+/**
+ * Minimal SARIF 2.1.0 types covering what Code Sentinel emits.
+ * See https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: SarifRun[];
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      informationUri: string;
+      rules: SarifRule[];
+    };
+  };
+  results: SarifResult[];
+}
+
+export interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+}
+
+export type SarifLevel = 'error' | 'warning' | 'note';
+
+export interface SarifRegion {
+  startLine: number;
+  endLine?: number;
+}
+
+export interface SarifResult {
+  ruleId: string;
+  level: SarifLevel;
+  message: { text: string };
+  locations: {
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region?: SarifRegion;
+    };
+  }[];
+  partialFingerprints?: Record<string, string>;
+  fixes?: {
+    description: { text: string };
+    artifactChanges: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      replacements: {
+        deletedRegion: SarifRegion;
+        insertedContent: { text: string };
+      }[];
+    }[];
+  }[];
+  properties: {
+    severity: Severity;
+    category: ReviewCategory;
+    title: string;
+    source?: IssueSource;
+    sentinelRule?: string;
+  };
+}
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const INFORMATION_URI = 'https://github.com/sah1l/code-sentinel';
+/** Repository root, resolved by SARIF consumers such as GitHub code scanning */
+const SRCROOT = '%SRCROOT%';
+
+const SEVERITY_LEVELS: Record<Severity, SarifLevel> = {
+  critical: 'error',
+  warning: 'warning',
+  suggestion: 'note',
+  nitpick: 'note',
+};
+
+const CATEGORY_DESCRIPTIONS: Record<ReviewCategory, string> = {
+  security: 'Security vulnerabilities such as injection, leaked secrets or broken authentication',
+  architecture: 'Architecture and design problems such as layering violations or tight coupling',
+  performance: 'Performance problems such as N+1 queries, leaks or blocking operations',
+  'best-practices': 'Deviations from best practices and team conventions',
+  bugs: 'Logic errors, missing null checks, edge cases and race conditions',
+  testing: 'Missing or inadequate tests for changed code',
+};
+
+/**
+ * Convert review issues to a SARIF log with one rule per review category.
+ */
+export function buildSarifLog(issues: ReviewIssue[]): SarifLog {
+  const categories = [...new Set(issues.map((i) => i.category))];
+
+  const rules: SarifRule[] = categories.map((category) => ({
+    id: category,
+    name: category,
+    shortDescription: { text: CATEGORY_DESCRIPTIONS[category] || category },
+    defaultConfiguration: { level: 'warning' },
+  }));
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'Code Sentinel',
+            informationUri: INFORMATION_URI,
+            rules,
+          },
+        },
+        results: issues.map(toSarifResult),
+      },
+    ],
+  };
+}
+
+/**
+ * Write a SARIF log to disk, creating parent directories as needed.
+ */
+export function writeSarifFile(filePath: string, log: SarifLog): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(log, null, 2)}\n`);
+}
+
+function toSarifResult(issue: ReviewIssue): SarifResult {
+  const artifactLocation = { uri: issue.file, uriBaseId: SRCROOT };
+  const region = toRegion(issue);
+
+  const message = [`${issue.title}: ${issue.description}`];
+  if (issue.suggestion) {
+    message.push(`Suggestion: ${issue.suggestion}`);
+  }
+
+  const result: SarifResult = {
+    ruleId: issue.category,
+    level: SEVERITY_LEVELS[issue.severity] || 'warning',
+    message: { text: message.join('\n\n') },
+    locations: [{ physicalLocation: { artifactLocation, ...(region ? { region } : {}) } }],
+    properties: {
+      severity: issue.severity,
+      category: issue.category,
+      title: issue.title,
+      ...(issue.source ? { source: issue.source } : {}),
+      ...(issue.ruleId ? { sentinelRule: issue.ruleId } : {}),
+    },
+  };
+
+  if (issue.fingerprint) {
+    result.partialFingerprints = { 'codeSentinel/v1': issue.fingerprint };
+  }
+
+  // Only replacement code is a fix (other code blocks are examples), and it needs a region
+  if (issue.codeBlock && issue.replacement && issue.side !== 'old' && region) {
+    result.fixes = [
+      {
+        description: { text: issue.suggestion || issue.title },
+        artifactChanges: [
+          {
+            artifactLocation,
+            replacements: [{ deletedRegion: region, insertedContent: { text: issue.codeBlock } }],
+          },
+        ],
+      },
+    ];
+  }
+
+  return result;
+}
+
+function toRegion(issue: ReviewIssue): SarifRegion | undefined {
+  // Lines of removed code do not exist in the analyzed revision
+  if (issue.line === undefined || issue.side === 'old') {
+    return undefined;
+  }
+
+  return issue.endLine !== undefined && issue.endLine > issue.line
+    ? { startLine: issue.line, endLine: issue.endLine }
+    : { startLine: issue.line };
+}
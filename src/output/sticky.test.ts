@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { SUMMARY_MARKER, formatRunMarker, parseHistoryMarker, parseRunMarker } from './markers.js';
+import { buildStickySummary, isStickySummary } from './sticky.js';
+
+const summaryFor = (headSha: string, effortScore: number, issues: number) =>
+  [
+    '## Code Sentinel Review',
+    `Effort ${effortScore}`,
+    formatRunMarker({ headSha, effortScore, issues, critical: 1, warnings: 0 }),
+  ].join('\n');
+
+describe('buildStickySummary', () => {
+  it('should mark a first summary without history', () => {
+    const body = buildStickySummary(summaryFor('aaaaaaa111', 3, 2));
+
+    expect(isStickySummary(body)).toBe(true);
+    expect(body.startsWith(SUMMARY_MARKER)).toBe(true);
+    expect(body).not.toContain('Review history');
+    expect(parseHistoryMarker(body)).toEqual([]);
+  });
+
+  it('should move the previous run into the history', () => {
+    const first = buildStickySummary(summaryFor('aaaaaaa111', 3, 2));
+    const second = buildStickySummary(summaryFor('bbbbbbb222', 2, 1), first);
+
+    expect(parseRunMarker(second)?.headSha).toBe('bbbbbbb222');
+    expect(parseHistoryMarker(second).map((r) => r.headSha)).toEqual(['aaaaaaa111']);
+    expect(second).toContain('<summary>Review history (1 earlier run)</summary>');
+    expect(second).toContain('| `aaaaaaa` | 3/5 | 2 | 1 | 0 |');
+    expect(second).not.toContain('Effort 3');
+  });
+
+  it('should keep the most recent run first', () => {
+    const first = buildStickySummary(summaryFor('aaaaaaa111', 3, 2));
+    const second = buildStickySummary(summaryFor('bbbbbbb222', 2, 1), first);
+    const third = buildStickySummary(summaryFor('ccccccc333', 1, 0), second);
+
+    expect(parseHistoryMarker(third).map((r) => r.headSha)).toEqual(['bbbbbbb222', 'aaaaaaa111']);
+    expect(third).toContain('2 earlier runs');
+  });
+
+  it('should not add a history entry when re-running on the same commit', () => {
+    const first = buildStickySummary(summaryFor('aaaaaaa111', 3, 2));
+    const rerun = buildStickySummary(summaryFor('aaaaaaa111', 3, 2), first);
+
+    expect(parseHistoryMarker(rerun)).toEqual([]);
+  });
+
+  it('should cap the history length', () => {
+    let body = buildStickySummary(summaryFor('sha-0', 1, 0));
+
+    for (let i = 1; i <= 25; i++) {
+      body = buildStickySummary(summaryFor(`sha-${i}`, 1, 0), body);
+    }
+
+    expect(parseHistoryMarker(body)).toHaveLength(20);
+    expect(parseHistoryMarker(body)[0].headSha).toBe('sha-24');
+  });
+});
+
+describe('parseRunMarker', () => {
+  it('should ignore malformed markers', () => {
+    expect(parseRunMarker('<!-- code-sentinel:run {not json} -->')).toBeUndefined();
+    expect(parseRunMarker('<!-- code-sentinel:run {"effortScore":3} -->')).toBeUndefined();
+    expect(parseRunMarker(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  type ReviewRunMarker,
+  SUMMARY_MARKER,
+  formatHistoryMarker,
+  parseHistoryMarker,
+  parseRunMarker,
+} from './markers.js';
+
+/** Maximum number of earlier runs kept in the summary history */
+const MAX_HISTORY = 20;
+
+/**
+ * Build the body of the sticky summary comment.
+ *
+ * The run recorded in the previous body (if any) is moved into a collapsible
+ * history table, so reviewers see the current state and how it changed.
+ *
+ * @param summary - Freshly formatted summary, including its run marker
+ * @param previousBody - Body of the existing summary comment, if there is one
+ */
+export function buildStickySummary(summary: string, previousBody?: string): string {
+  const current = parseRunMarker(summary);
+  const previous = parseRunMarker(previousBody);
+  let history = parseHistoryMarker(previousBody);
+
+  // Re-running on the same commit replaces the entry instead of adding a new one
+  if (previous && previous.headSha !== current?.headSha) {
+    history = [previous, ...history];
+  }
+
+  history = history.filter((run) => run.headSha !== current?.headSha).slice(0, MAX_HISTORY);
+
+  const parts = [SUMMARY_MARKER, summary];
+
+  if (history.length > 0) {
+    parts.push(renderHistory(history));
+    parts.push(formatHistoryMarker(history));
+  }
+
+  return parts.join('\n\n');
+}
+
+export function isStickySummary(body: string | null | undefined): boolean {
+  return !!body?.includes(SUMMARY_MARKER);
+}
+
+function renderHistory(history: ReviewRunMarker[]): string {
+  const runs = history.length === 1 ? '1 earlier run' : `${history.length} earlier runs`;
+  const lines = [
+    '<details>',
+    `<summary>Review history (${runs})</summary>`,
+    '',
+    '| Commit | Effort | Issues | Critical | Warnings |',
+    '|--------|--------|--------|----------|----------|',
+  ];
+
+  for (const run of history) {
+    lines.push(
+      `| \`${run.headSha.substring(0, 7)}\` | ${formatStat(run.effortScore, '/5')} | ${formatStat(run.issues)} | ${formatStat(run.critical)} | ${formatStat(run.warnings)} |`
+    );
+  }
+
+  lines.push('', '</details>');
+
+  return lines.join('\n');
+}
+
+function formatStat(value: number | undefined, suffix = ''): string {
+  return value === undefined ? '-' : `${value}${suffix}`;
+}
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { formatSuggestionBlock, stripSuggestions, toGitLabSuggestions } from './suggestion.js';
+
+describe('suggestion blocks', () => {
+  const body = ['Fix this', '', ...formatSuggestionBlock('const x = 1;')].join('\n');
+
+  it('should turn suggestions into plain code blocks', () => {
+    expect(stripSuggestions(body)).toBe('Fix this\n\n```\nconst x = 1;\n```');
+  });
+
+  it('should add the covered lines for GitLab', () => {
+    expect(toGitLabSuggestions(body, 2)).toContain('```suggestion:-2+0\nconst x = 1;');
+  });
+});
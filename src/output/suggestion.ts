@@ -0,0 +1,26 @@
+/**
+ * GitHub and GitLab render a fenced block tagged `suggestion` as a change the
+ * author can apply with one click. It replaces exactly the lines the comment is on.
+ */
+
+const SUGGESTION_FENCE = /^```suggestion(?::\S+)?$/gm;
+
+export function formatSuggestionBlock(code: string): string[] {
+  return ['```suggestion', code, '```'];
+}
+
+/**
+ * Turn suggestion blocks into plain code blocks, for comments that could not
+ * be placed on exactly the lines the suggestion replaces.
+ */
+export function stripSuggestions(body: string): string {
+  return body.replace(SUGGESTION_FENCE, '```');
+}
+
+/**
+ * Rewrite suggestion blocks for GitLab, where a suggestion covers the commented
+ * line plus the given number of lines above it.
+ */
+export function toGitLabSuggestions(body: string, linesAbove: number): string {
+  return body.replace(SUGGESTION_FENCE, `\`\`\`suggestion:-${linesAbove}+0`);
+}
@@ -0,0 +1,24 @@
+import * as core from '@actions/core';
+import { GitHubAdapter } from './github/adapter.js';
+import { GitLabAdapter } from './gitlab/adapter.js';
+import type { PlatformAdapter } from './types.js';
+
+/**
+ * Pick the platform adapter for the CI environment we are running in.
+ * GitLab is detected from its predefined `GITLAB_CI` variable; GitHub is the default.
+ */
+export function createPlatformAdapter(workingDir: string): PlatformAdapter {
+  if (process.env.GITLAB_CI === 'true') {
+    const token = process.env.GITLAB_TOKEN || core.getInput('gitlab_token');
+
+    if (!token) {
+      throw new Error('GitLab token is required. Set the GITLAB_TOKEN variable in your pipeline.');
+    }
+
+    return GitLabAdapter.fromEnvironment(token, workingDir);
+  }
+
+  const githubToken = core.getInput('github_token', { required: true });
+
+  return new GitHubAdapter(githubToken, workingDir);
+}
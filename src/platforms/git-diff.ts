@@ -0,0 +1,53 @@
+import { execFileSync } from 'node:child_process';
+
+/** Maximum output buffered from a single git command (64MB) */
+const MAX_GIT_BUFFER = 64 * 1024 * 1024;
+
+export interface LocalPatch {
+  /** Hunk-only patch, undefined when git shows no textual changes */
+  patch?: string;
+  binary: boolean;
+}
+
+/**
+ * Diff a file between two commits in a local checkout.
+ * Throws when git fails, e.g. when a commit was not fetched.
+ *
+ * @param pathspec - The file, preceded by its previous path for renames
+ */
+export function readLocalPatch(
+  workingDir: string,
+  baseSha: string,
+  headSha: string,
+  pathspec: string[]
+): LocalPatch {
+  const diff = execFileSync(
+    'git',
+    ['diff', '--no-color', '-M', baseSha, headSha, '--', ...pathspec],
+    {
+      cwd: workingDir,
+      encoding: 'utf-8',
+      maxBuffer: MAX_GIT_BUFFER,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    }
+  );
+
+  return {
+    patch: extractPatch(diff),
+    binary: /^Binary files .* differ$/m.test(diff),
+  };
+}
+
+/**
+ * Strip the `diff --git` / `---` / `+++` headers so the patch matches the
+ * hunk-only format GitHub returns in `file.patch`.
+ */
+export function extractPatch(diff: string): string | undefined {
+  const hunkStart = diff.search(/^@@/m);
+
+  if (hunkStart === -1) {
+    return undefined;
+  }
+
+  return diff.slice(hunkStart).replace(/\n$/, '');
+}
@@ -0,0 +1,160 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CHANGE_REQUEST_MARKER,
+  SUMMARY_MARKER,
+  formatFingerprintMarker,
+  formatRunMarker,
+} from '../../output/markers.js';
+import type { ReviewComment } from '../types.js';
+import { GitHubAdapter } from './adapter.js';
+
+const octokit = {
+  paginate: vi.fn(),
+  graphql: vi.fn(),
+  rest: {
+    repos: {
+      compareCommitsWithBasehead: vi.fn(),
+    },
+    issues: {
+      listComments: vi.fn(),
+    },
+    pulls: {
+      get: vi.fn(),
+      listFiles: vi.fn(),
+      listReviews: vi.fn(),
+      createReview: vi.fn(),
+      dismissReview: vi.fn(),
+    },
+  },
+};
+
+vi.mock('@actions/github', () => ({
+  getOctokit: () => octokit,
+  context: {
+    repo: { owner: 'acme', repo: 'app' },
+    payload: { pull_request: { number: 7 } },
+  },
+}));
+
+const pullRequest = {
+  title: 'Add login endpoint',
+  body: '',
+  user: { login: 'alice' },
+  base: { ref: 'main', sha: 'base123' },
+  head: { ref: 'feature/login', sha: 'head123' },
+};
+
+const patch = `@@ -1,1 +1,6 @@\n const a = 1;\n${[2, 3, 4, 5, 6].map((n) => `+const v${n} = ${n};`).join('\n')}`;
+
+const comment = (line: number): ReviewComment => ({
+  path: 'src/login.ts',
+  line,
+  body: `Issue on line ${line}\n\n${formatFingerprintMarker(`f00${line}`)}`,
+  side: 'RIGHT',
+  fingerprint: `f00${line}`,
+});
+
+const openThread = (fingerprint: string) => ({
+  id: `thread-${fingerprint}`,
+  isResolved: false,
+  isOutdated: false,
+  comments: { nodes: [{ body: `Earlier\n\n${formatFingerprintMarker(fingerprint)}` }] },
+});
+
+describe('GitHubAdapter', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    octokit.rest.pulls.get.mockResolvedValue({ data: pullRequest });
+    octokit.paginate.mockResolvedValue([
+      { filename: 'src/login.ts', status: 'modified', additions: 5, deletions: 0, patch },
+    ]);
+  });
+
+  describe('postInlineComments', () => {
+    it('should apply the comment limit after skipping issues with open threads', async () => {
+      octokit.graphql.mockResolvedValue({
+        repository: {
+          pullRequest: {
+            reviewThreads: {
+              pageInfo: { hasNextPage: false, endCursor: null },
+              nodes: [openThread('f002'), openThread('f003')],
+            },
+          },
+        },
+      });
+      const adapter = new GitHubAdapter('token');
+      await adapter.getPullRequest();
+
+      await adapter.postInlineComments([comment(2), comment(3), comment(4), comment(5)], {
+        maxComments: 2,
+      });
+
+      expect(octokit.rest.pulls.createReview).toHaveBeenCalledOnce();
+      const review = octokit.rest.pulls.createReview.mock.calls[0][0];
+      expect(review.comments.map((c: { line: number }) => c.line)).toEqual([4, 5]);
+    });
+  });
+
+  describe('getIncrementalChanges', () => {
+    const summary = {
+      id: 11,
+      body: `${SUMMARY_MARKER}\nSummary\n${formatRunMarker({ headSha: 'old123' })}`,
+    };
+
+    it('should review only the files changed since the last reviewed commit', async () => {
+      const adapter = new GitHubAdapter('token');
+      const pr = await adapter.getPullRequest();
+      octokit.paginate.mockResolvedValue([summary]);
+      octokit.rest.repos.compareCommitsWithBasehead.mockResolvedValue({
+        data: {
+          status: 'ahead',
+          files: [
+            { filename: 'src/login.ts', status: 'modified', additions: 1, deletions: 0, patch },
+            { filename: 'src/merged.ts', status: 'modified', additions: 1, deletions: 0 },
+          ],
+        },
+      });
+
+      const changes = await adapter.getIncrementalChanges(pr);
+
+      expect(changes?.sinceRef).toBe('old123');
+      expect(changes?.files.map((f) => f.filename)).toEqual(['src/login.ts']);
+    });
+
+    it('should fall back to a full review when the compared files may be truncated', async () => {
+      const adapter = new GitHubAdapter('token');
+      const pr = await adapter.getPullRequest();
+      octokit.paginate.mockResolvedValue([summary]);
+      octokit.rest.repos.compareCommitsWithBasehead.mockResolvedValue({
+        data: {
+          status: 'ahead',
+          files: Array.from({ length: 300 }, (_, i) => ({
+            filename: i === 0 ? 'src/login.ts' : `src/file${i}.ts`,
+            status: 'modified',
+            additions: 1,
+            deletions: 0,
+          })),
+        },
+      });
+
+      expect(await adapter.getIncrementalChanges(pr)).toBeUndefined();
+    });
+  });
+
+  describe('dismissChangeRequests', () => {
+    it('should dismiss only the change requests Code Sentinel submitted', async () => {
+      octokit.paginate.mockResolvedValue([
+        { id: 1, state: 'CHANGES_REQUESTED', body: `Gate failed\n\n${CHANGE_REQUEST_MARKER}` },
+        { id: 2, state: 'CHANGES_REQUESTED', body: 'Please rename this' },
+        { id: 3, state: 'DISMISSED', body: `Gate failed\n\n${CHANGE_REQUEST_MARKER}` },
+      ]);
+
+      await new GitHubAdapter('token').dismissChangeRequests('Code Sentinel quality gate passed');
+
+      expect(octokit.rest.pulls.dismissReview).toHaveBeenCalledOnce();
+      expect(octokit.rest.pulls.dismissReview).toHaveBeenCalledWith(
+        expect.objectContaining({ review_id: 1, message: 'Code Sentinel quality gate passed' })
+      );
+    });
+  });
+});
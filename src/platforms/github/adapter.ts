@@ -1,13 +1,84 @@
-import * as fs from 'node:fs';
-import * as path from 'node:path';
 import * as core from '@actions/core';
 import * as github from '@actions/github';
-import { minimatch } from 'minimatch';
-import type { ChangedFile, PlatformAdapter, PullRequest, ReviewComment } from '../types.js';
-import { type ParsedDiff, findNearestValidLine, parsePatch } from './diff-parser.js';
+import {
+  CHANGE_REQUEST_MARKER,
+  parseFingerprintMarker,
+  parseRunMarker,
+} from '../../output/markers.js';
+import { buildStickySummary, isStickySummary } from '../../output/sticky.js';
+import { stripSuggestions } from '../../output/suggestion.js';
+import { readLocalPatch } from '../git-diff.js';
+import { listLocalFiles, readLocalFile } from '../local-files.js';
+import type {
+  ChangedFile,
+  IncrementalChanges,
+  InlineReviewOptions,
+  PlatformAdapter,
+  PullRequest,
+  ReviewComment,
+  SkippedFile,
+  StaleCommentResolution,
+} from '../types.js';
+import { type ParsedDiff, parsePatch, resolveCommentAnchor } from './diff-parser.js';
 
 type Octokit = ReturnType<typeof github.getOctokit>;
 
+/** Most files the pull request files API returns */
+const MAX_LISTED_FILES = 3000;
+
+/** Most files the compare API returns, however the response is paginated */
+const MAX_COMPARED_FILES = 300;
+
+/** A review thread started by Code Sentinel */
+interface SentinelThread {
+  id: string;
+  fingerprint: string;
+  isResolved: boolean;
+  isOutdated: boolean;
+}
+
+interface ReviewThreadsQuery {
+  repository: {
+    pullRequest: {
+      reviewThreads: {
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        nodes: {
+          id: string;
+          isResolved: boolean;
+          isOutdated: boolean;
+          comments: { nodes: { body: string }[] };
+        }[];
+      };
+    };
+  };
+}
+
+const REVIEW_THREADS_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviewThreads(first: 100, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            id
+            isResolved
+            isOutdated
+            comments(first: 1) { nodes { body } }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const RESOLVE_THREAD_MUTATION = `
+  mutation($threadId: ID!) {
+    resolveReviewThread(input: { threadId: $threadId }) {
+      thread { id }
+    }
+  }
+`;
+
 export class GitHubAdapter implements PlatformAdapter {
   readonly name = 'github';
   private octokit: Octokit;
@@ -34,27 +105,41 @@ export class GitHubAdapter implements PlatformAdapter {
       pull_number: prNumber,
     });
 
-    const { data: files } = await this.octokit.rest.pulls.listFiles({
+    const files = await this.octokit.paginate(this.octokit.rest.pulls.listFiles, {
       ...this.context.repo,
       pull_number: prNumber,
       per_page: 100,
     });
 
+    if (files.length >= MAX_LISTED_FILES) {
+      core.warning(
+        `GitHub lists at most ${MAX_LISTED_FILES} files per pull request - later files are not reviewed`
+      );
+    }
+
+    const skippedFiles: SkippedFile[] = [];
     const changedFiles: ChangedFile[] = files.map((f) => {
+      const file = toChangedFile(f);
+
+      // Binary and very large files come without a patch
+      if (!file.patch && hasContentChanges(f)) {
+        const skipReason = this.readMissingPatch(file, pr.base.sha, pr.head.sha);
+        if (skipReason) {
+          skippedFiles.push({ path: file.filename, reason: skipReason });
+        }
+      }
+
       // Parse and store the diff for each file for later comment validation
-      if (f.patch) {
-        this.fileDiffs.set(f.filename, parsePatch(f.patch));
-      }
-      return {
-        filename: f.filename,
-        status: f.status as ChangedFile['status'],
-        additions: f.additions,
-        deletions: f.deletions,
-        patch: f.patch,
-        previousFilename: f.previous_filename,
-      };
+      if (file.patch) {
+        this.fileDiffs.set(file.filename, parsePatch(file.patch));
+      }
+      return file;
     });
 
+    if (skippedFiles.length > 0) {
+      core.info(`${skippedFiles.length} file(s) have no reviewable diff`);
+    }
+
     return {
       id: prNumber,
       title: pr.title,
@@ -65,19 +150,99 @@ export class GitHubAdapter implements PlatformAdapter {
       baseRef: pr.base.sha,
       headRef: pr.head.sha,
       files: changedFiles,
+      skippedFiles,
     };
   }
 
+  /**
+   * Fill in the patch GitHub left out from the local checkout.
+   * Returns why the file cannot be reviewed when there is no usable patch.
+   */
+  private readMissingPatch(
+    file: ChangedFile,
+    baseSha: string,
+    headSha: string
+  ): string | undefined {
+    const pathspec = file.previousFilename
+      ? [file.previousFilename, file.filename]
+      : [file.filename];
+
+    try {
+      const { patch, binary } = readLocalPatch(this.workingDir, baseSha, headSha, pathspec);
+
+      if (binary) {
+        return 'binary file';
+      }
+      if (!patch) {
+        return 'no textual changes';
+      }
+
+      core.debug(`Read diff of ${file.filename} from the local checkout`);
+      file.patch = patch;
+      return undefined;
+    } catch (error) {
+      // Shallow checkouts usually lack the base commit
+      core.debug(`Failed to diff ${file.filename} locally: ${error}`);
+      return 'diff too large for the GitHub API and base commit not fetched locally (use fetch-depth: 0)';
+    }
+  }
+
+  async getIncrementalChanges(pr: PullRequest): Promise<IncrementalChanges | undefined> {
+    const lastReviewedSha = await this.findLastReviewedSha(pr.id);
+
+    if (!lastReviewedSha) {
+      core.info('No previous Code Sentinel review found - running full review');
+      return undefined;
+    }
+
+    if (lastReviewedSha === pr.headRef) {
+      core.info('Head commit was already reviewed - running full review');
+      return undefined;
+    }
+
+    try {
+      const { data: comparison } = await this.octokit.rest.repos.compareCommitsWithBasehead({
+        ...this.context.repo,
+        basehead: `${lastReviewedSha}...${pr.headRef}`,
+      });
+
+      // Anything but "ahead" means the reviewed commit is no longer an ancestor (force-push)
+      if (comparison.status !== 'ahead') {
+        core.info(`History changed since last review (${comparison.status}) - running full review`);
+        return undefined;
+      }
+
+      // A truncated file list would silently leave changes out of the review
+      const comparedFiles = comparison.files || [];
+      if (comparedFiles.length >= MAX_COMPARED_FILES) {
+        core.info(
+          `${MAX_COMPARED_FILES} or more files changed since last review - running full review`
+        );
+        return undefined;
+      }
+
+      // Ignore files that only changed through a merge from the base branch
+      const prFiles = new Set(pr.files.map((f) => f.filename));
+      const files = comparedFiles.filter((f) => prFiles.has(f.filename)).map(toChangedFile);
+
+      core.info(
+        `Incremental review: ${files.length} file(s) changed since ${lastReviewedSha.substring(0, 7)}`
+      );
+
+      return { sinceRef: lastReviewedSha, files };
+    } catch (error) {
+      // The reviewed commit no longer exists (force-push followed by gc)
+      core.info(`Could not compare with last reviewed commit - running full review: ${error}`);
+      return undefined;
+    }
+  }
+
   async getFileContent(filePath: string, ref?: string): Promise<string | null> {
     // First try to read from local filesystem (faster)
-    const localPath = path.join(this.workingDir, filePath);
+    const local = readLocalFile(this.workingDir, filePath);
 
-    if (fs.existsSync(localPath)) {
-      try {
-        return fs.readFileSync(localPath, 'utf-8');
-      } catch (error) {
-        core.debug(`Failed to read local file ${localPath}: ${error}`);
-      }
+    if (local !== null) {
+      return local;
     }
 
     // Fallback to GitHub API
@@ -100,40 +265,7 @@ export class GitHubAdapter implements PlatformAdapter {
   }
 
   async getFilesInDirectory(directory: string, pattern?: string): Promise<string[]> {
-    const dirPath = path.join(this.workingDir, directory);
-    const results: string[] = [];
-
-    if (!fs.existsSync(dirPath)) {
-      return results;
-    }
-
-    const scanDir = (dir: string) => {
-      const entries = fs.readdirSync(dir, { withFileTypes: true });
-
-      for (const entry of entries) {
-        const fullPath = path.join(dir, entry.name);
-        const relativePath = path.relative(this.workingDir, fullPath);
-
-        if (entry.isDirectory()) {
-          // Skip common non-code directories
-          if (!['node_modules', '.git', 'dist', 'build', 'coverage'].includes(entry.name)) {
-            scanDir(fullPath);
-          }
-        } else if (entry.isFile()) {
-          if (!pattern || minimatch(relativePath, pattern)) {
-            results.push(relativePath);
-          }
-        }
-      }
-    };
-
-    try {
-      scanDir(dirPath);
-    } catch (error) {
-      core.debug(`Failed to scan directory ${directory}: ${error}`);
-    }
-
-    return results;
+    return listLocalFiles(this.workingDir, directory, pattern);
   }
 
   async postReviewSummary(summary: string): Promise<void> {
@@ -143,24 +275,42 @@ export class GitHubAdapter implements PlatformAdapter {
       throw new Error('No pull request number found');
     }
 
-    await this.octokit.rest.pulls.createReview({
+    const existing = await this.findSummaryComment(prNumber);
+    const body = buildStickySummary(summary, existing?.body);
+
+    if (existing) {
+      await this.octokit.rest.issues.updateComment({
+        ...this.context.repo,
+        comment_id: existing.id,
+        body,
+      });
+
+      core.info('Updated review summary on PR');
+      return;
+    }
+
+    await this.octokit.rest.issues.createComment({
       ...this.context.repo,
-      pull_number: prNumber,
-      body: summary,
-      event: 'COMMENT',
+      issue_number: prNumber,
+      body,
     });
 
     core.info('Posted review summary to PR');
   }
 
-  async postInlineComments(comments: ReviewComment[]): Promise<void> {
+  async postInlineComments(
+    comments: ReviewComment[],
+    options: InlineReviewOptions = {}
+  ): Promise<void> {
     const prNumber = this.context.payload.pull_request?.number;
 
     if (!prNumber) {
       throw new Error('No pull request number found');
     }
 
-    if (comments.length === 0) {
+    const event = options.event || 'COMMENT';
+
+    if (comments.length === 0 && event === 'COMMENT') {
       core.info('No inline comments to post');
       return;
     }
@@ -171,11 +321,35 @@ export class GitHubAdapter implements PlatformAdapter {
       pull_number: prNumber,
     });
 
+    // Issues that already have an open Code Sentinel thread are not posted again
+    const openFingerprints = new Set(
+      (await this.listSentinelThreads(prNumber))
+        .filter((t) => !t.isResolved)
+        .map((t) => t.fingerprint)
+    );
+
     // Validate and filter comments to only include lines in the diff
-    const validComments: { path: string; line: number; body: string; side: string }[] = [];
+    const validComments: {
+      path: string;
+      start_line?: number;
+      start_side?: string;
+      line: number;
+      body: string;
+      side: string;
+    }[] = [];
     let skippedCount = 0;
+    let duplicateCount = 0;
 
     for (const comment of comments) {
+      if (comment.fingerprint) {
+        if (openFingerprints.has(comment.fingerprint)) {
+          core.debug(`Skipping comment on ${comment.path}:${comment.line} - already reported`);
+          duplicateCount++;
+          continue;
+        }
+        openFingerprints.add(comment.fingerprint);
+      }
+
       const parsedDiff = this.fileDiffs.get(comment.path);
 
       if (!parsedDiff) {
@@ -185,24 +359,34 @@ export class GitHubAdapter implements PlatformAdapter {
         continue;
       }
 
-      // Try to find a valid line (exact match or nearby)
-      const validLine = findNearestValidLine(comment.line, parsedDiff, 3);
+      // Keep the requested range if possible, otherwise find a valid line nearby
+      const anchor = resolveCommentAnchor(
+        comment.startLine,
+        comment.line,
+        parsedDiff,
+        3,
+        comment.side
+      );
 
-      if (validLine === undefined) {
+      if (anchor === undefined) {
         core.debug(`Skipping comment on ${comment.path}:${comment.line} - line not in diff`);
         skippedCount++;
         continue;
       }
 
-      // Adjust body if line was shifted
-      let body = comment.body;
-      if (validLine !== comment.line) {
-        body = `*(Note: Originally for line ${comment.line})*\n\n${comment.body}`;
+      // A suggestion would replace the wrong lines once the comment moved
+      let body = anchor.exact ? comment.body : stripSuggestions(comment.body);
+      const requestedLine = comment.startLine ?? comment.line;
+      if (anchor.line !== requestedLine && anchor.startLine === undefined) {
+        body = `*(Note: Originally for line ${requestedLine})*\n\n${body}`;
       }
 
       validComments.push({
         path: comment.path,
-        line: validLine,
+        ...(anchor.startLine !== undefined
+          ? { start_line: anchor.startLine, start_side: comment.side }
+          : {}),
+        line: anchor.line,
         body,
         side: comment.side,
       });
@@ -212,8 +396,20 @@ export class GitHubAdapter implements PlatformAdapter {
       core.warning(`Skipped ${skippedCount} comment(s) - line numbers not in PR diff`);
     }
 
-    if (validComments.length === 0) {
-      core.info('No valid inline comments to post (all lines were outside the diff)');
+    if (duplicateCount > 0) {
+      core.info(`Skipped ${duplicateCount} comment(s) already open from an earlier review`);
+    }
+
+    if (options.maxComments !== undefined && validComments.length > options.maxComments) {
+      core.info(
+        `Leaving out ${validComments.length - options.maxComments} comment(s) over the limit of ${options.maxComments}`
+      );
+      validComments.splice(options.maxComments);
+    }
+
+    // A change request is submitted even without new comments, so the PR stays blocked
+    if (validComments.length === 0 && event === 'COMMENT') {
+      core.info('No new inline comments to post');
       return;
     }
 
@@ -221,11 +417,159 @@ export class GitHubAdapter implements PlatformAdapter {
       ...this.context.repo,
       pull_number: prNumber,
       commit_id: pr.head.sha,
-      event: 'COMMENT',
+      event,
+      // Marked so the change request can be dismissed once the gate passes
+      body:
+        event === 'REQUEST_CHANGES'
+          ? [options.body, CHANGE_REQUEST_MARKER].filter(Boolean).join('\n\n')
+          : options.body,
       comments: validComments,
     });
 
-    core.info(`Posted ${validComments.length} inline comments to PR`);
+    core.info(
+      event === 'REQUEST_CHANGES'
+        ? `Requested changes with ${validComments.length} inline comments`
+        : `Posted ${validComments.length} inline comments to PR`
+    );
+  }
+
+  async dismissChangeRequests(message: string): Promise<void> {
+    const prNumber = this.context.payload.pull_request?.number;
+
+    if (!prNumber) {
+      throw new Error('No pull request number found');
+    }
+
+    const reviews = await this.octokit.paginate(this.octokit.rest.pulls.listReviews, {
+      ...this.context.repo,
+      pull_number: prNumber,
+      per_page: 100,
+    });
+    const changeRequests = reviews.filter(
+      (r) => r.state === 'CHANGES_REQUESTED' && r.body?.includes(CHANGE_REQUEST_MARKER)
+    );
+
+    let dismissedCount = 0;
+    for (const review of changeRequests) {
+      try {
+        await this.octokit.rest.pulls.dismissReview({
+          ...this.context.repo,
+          pull_number: prNumber,
+          review_id: review.id,
+          message,
+        });
+        dismissedCount++;
+      } catch (error) {
+        core.warning(`Failed to dismiss review ${review.id}: ${error}`);
+      }
+    }
+
+    if (dismissedCount > 0) {
+      core.info(`Dismissed ${dismissedCount} earlier change request(s)`);
+    }
+  }
+
+  async resolveStaleComments(resolution: StaleCommentResolution): Promise<void> {
+    const prNumber = this.context.payload.pull_request?.number;
+
+    if (!prNumber) {
+      throw new Error('No pull request number found');
+    }
+
+    const active = new Set(resolution.activeFingerprints);
+    const stale = (await this.listSentinelThreads(prNumber)).filter(
+      (t) =>
+        !t.isResolved && !active.has(t.fingerprint) && (!resolution.onlyOutdated || t.isOutdated)
+    );
+
+    for (const thread of stale) {
+      try {
+        await this.octokit.graphql(RESOLVE_THREAD_MUTATION, { threadId: thread.id });
+      } catch (error) {
+        core.warning(`Failed to resolve review thread ${thread.id}: ${error}`);
+      }
+    }
+
+    if (stale.length > 0) {
+      core.info(`Resolved ${stale.length} review thread(s) whose issue is no longer reported`);
+    }
+  }
+
+  /**
+   * List review threads started by Code Sentinel, identified by their fingerprint marker.
+   */
+  private async listSentinelThreads(prNumber: number): Promise<SentinelThread[]> {
+    const threads: SentinelThread[] = [];
+    let cursor: string | null = null;
+
+    do {
+      const result: ReviewThreadsQuery = await this.octokit.graphql<ReviewThreadsQuery>(
+        REVIEW_THREADS_QUERY,
+        { ...this.context.repo, number: prNumber, cursor }
+      );
+      const { nodes, pageInfo } = result.repository.pullRequest.reviewThreads;
+
+      for (const node of nodes) {
+        const fingerprint = parseFingerprintMarker(node.comments.nodes[0]?.body);
+        if (fingerprint) {
+          threads.push({
+            id: node.id,
+            fingerprint,
+            isResolved: node.isResolved,
+            isOutdated: node.isOutdated,
+          });
+        }
+      }
+
+      cursor = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+    } while (cursor);
+
+    return threads;
+  }
+
+  /**
+   * Find the sticky summary comment left by an earlier run.
+   */
+  private async findSummaryComment(
+    prNumber: number
+  ): Promise<{ id: number; body: string } | undefined> {
+    const comments = await this.octokit.paginate(this.octokit.rest.issues.listComments, {
+      ...this.context.repo,
+      issue_number: prNumber,
+      per_page: 100,
+    });
+
+    const comment = comments.find((c) => isStickySummary(c.body));
+
+    return comment ? { id: comment.id, body: comment.body || '' } : undefined;
+  }
+
+  /**
+   * Head SHA recorded by the most recent Code Sentinel summary on the PR.
+   */
+  private async findLastReviewedSha(prNumber: number): Promise<string | undefined> {
+    const summaryComment = await this.findSummaryComment(prNumber);
+    const stickyMarker = parseRunMarker(summaryComment?.body);
+
+    if (stickyMarker) {
+      return stickyMarker.headSha;
+    }
+
+    // Older versions posted the summary as a review on every run
+    const reviews = await this.octokit.paginate(this.octokit.rest.pulls.listReviews, {
+      ...this.context.repo,
+      pull_number: prNumber,
+      per_page: 100,
+    });
+
+    for (const review of [...reviews].reverse()) {
+      const marker = parseRunMarker(review.body);
+      if (marker) {
+        return marker.headSha;
+      }
+    }
+
+    return undefined;
   }
 
   async addLabels(labels: string[]): Promise<void> {
@@ -248,3 +592,31 @@ export class GitHubAdapter implements PlatformAdapter {
     core.info(`Added labels: ${labels.join(', ')}`);
   }
 }
+
+interface GitHubFile {
+  filename: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  patch?: string;
+  previous_filename?: string;
+}
+
+/** Whether the file changed content, as opposed to being deleted or renamed unchanged */
+function hasContentChanges(f: GitHubFile): boolean {
+  if (f.status === 'removed') {
+    return false;
+  }
+  return f.status !== 'renamed' || f.additions + f.deletions > 0;
+}
+
+function toChangedFile(f: GitHubFile): ChangedFile {
+  return {
+    filename: f.filename,
+    status: f.status as ChangedFile['status'],
+    additions: f.additions,
+    deletions: f.deletions,
+    patch: f.patch,
+    previousFilename: f.previous_filename,
+  };
+}
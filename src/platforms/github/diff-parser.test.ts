@@ -1,5 +1,10 @@
 import { describe, expect, it } from 'vitest';
-import { findNearestValidLine, isValidCommentLine, parsePatch } from './diff-parser';
+import {
+  findNearestValidLine,
+  isValidCommentLine,
+  parsePatch,
+  resolveCommentAnchor,
+} from './diff-parser';
 
 describe('parsePatch', () => {
   it('should parse a simple patch with additions', () => {
@@ -122,3 +127,50 @@ describe('findNearestValidLine', () => {
     expect(findNearestValidLine(10, parsed, 3)).toBeUndefined();
   });
 });
+
+describe('resolveCommentAnchor', () => {
+  const parsed = parsePatch(`@@ -1,3 +1,4 @@
+ line1
++added
+ line2
+ line3
+@@ -20,2 +21,2 @@
+ line21
+ line22`);
+
+  it('should keep a range within one hunk', () => {
+    expect(resolveCommentAnchor(1, 3, parsed)).toEqual({ startLine: 1, line: 3, exact: true });
+  });
+
+  it('should fall back to the first line when a range spans hunks', () => {
+    expect(resolveCommentAnchor(2, 21, parsed)).toEqual({ line: 2, exact: false });
+  });
+
+  it('should mark moved single-line comments as inexact', () => {
+    expect(resolveCommentAnchor(undefined, 2, parsed)).toEqual({ line: 2, exact: true });
+    expect(resolveCommentAnchor(undefined, 6, parsed)).toEqual({ line: 4, exact: false });
+    expect(resolveCommentAnchor(undefined, 40, parsed)).toBeUndefined();
+  });
+});
+
+describe('old side comments', () => {
+  const parsed = parsePatch(`@@ -10,4 +10,2 @@
+ keep
+-if (!isAdmin(user)) {
+-  throw new Forbidden();
+ rest`);
+
+  it('should validate removed lines against the old file', () => {
+    expect(isValidCommentLine(11, parsed, 'LEFT')).toBe(true);
+    expect(findNearestValidLine(12, parsed, 0, 'LEFT')).toBe(12);
+    expect(findNearestValidLine(12, parsed, 0, 'RIGHT')).toBeUndefined();
+  });
+
+  it('should keep old side ranges within one hunk', () => {
+    expect(resolveCommentAnchor(11, 12, parsed, 3, 'LEFT')).toEqual({
+      startLine: 11,
+      line: 12,
+      exact: true,
+    });
+  });
+});
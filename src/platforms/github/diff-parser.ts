@@ -15,6 +15,10 @@ export interface DiffLine {
 export interface DiffHunk {
   /** Lines in this hunk that are valid for commenting */
   lines: DiffLine[];
+  /** Starting line in old file */
+  oldStart: number;
+  /** Number of lines in old file */
+  oldCount: number;
   /** Starting line in new file */
   newStart: number;
   /** Number of lines in new file */
@@ -67,10 +71,13 @@ export function parsePatch(patch: string | undefined): ParsedDiff {
 
       oldLineNum = Number.parseInt(hunkMatch[1], 10);
       newLineNum = Number.parseInt(hunkMatch[3], 10);
+      const oldCount = hunkMatch[2] ? Number.parseInt(hunkMatch[2], 10) : 1;
       const newCount = hunkMatch[4] ? Number.parseInt(hunkMatch[4], 10) : 1;
 
       currentHunk = {
         lines: [],
+        oldStart: oldLineNum,
+        oldCount,
         newStart: newLineNum,
         newCount,
       };
@@ -122,11 +129,18 @@ export function parsePatch(patch: string | undefined): ParsedDiff {
   return result;
 }
 
+export type DiffSide = 'LEFT' | 'RIGHT';
+
 /**
- * Check if a line number is valid for posting a comment on the RIGHT (new) side.
+ * Check if a line number is valid for posting a comment on the given side
+ * (RIGHT for the new file, LEFT for the old file).
  */
-export function isValidCommentLine(line: number, parsedDiff: ParsedDiff): boolean {
-  return parsedDiff.validNewLines.has(line);
+export function isValidCommentLine(
+  line: number,
+  parsedDiff: ParsedDiff,
+  side: DiffSide = 'RIGHT'
+): boolean {
+  return validLines(parsedDiff, side).has(line);
 }
 
 /**
@@ -136,28 +150,80 @@ export function isValidCommentLine(line: number, parsedDiff: ParsedDiff): boolea
  * @param targetLine - The line number we want to comment on
  * @param parsedDiff - Parsed diff information
  * @param maxDistance - Maximum distance to search (default 3 lines)
+ * @param side - RIGHT to search the new file, LEFT for the old file
  */
 export function findNearestValidLine(
   targetLine: number,
   parsedDiff: ParsedDiff,
-  maxDistance = 3
+  maxDistance = 3,
+  side: DiffSide = 'RIGHT'
 ): number | undefined {
+  const valid = validLines(parsedDiff, side);
+
   // First check if exact line is valid
-  if (parsedDiff.validNewLines.has(targetLine)) {
+  if (valid.has(targetLine)) {
     return targetLine;
   }
 
   // Search nearby lines
   for (let offset = 1; offset <= maxDistance; offset++) {
     // Check line above
-    if (parsedDiff.validNewLines.has(targetLine - offset)) {
+    if (valid.has(targetLine - offset)) {
       return targetLine - offset;
     }
     // Check line below
-    if (parsedDiff.validNewLines.has(targetLine + offset)) {
+    if (valid.has(targetLine + offset)) {
       return targetLine + offset;
     }
   }
 
   return undefined;
 }
+
+export interface CommentAnchor {
+  /** First line of a multi-line comment */
+  startLine?: number;
+  /** Line the comment is attached to, the last line of a multi-line comment */
+  line: number;
+  /** Whether the anchor covers exactly the requested lines */
+  exact: boolean;
+}
+
+/**
+ * Place a comment on the requested lines of the new (RIGHT) or old (LEFT) file.
+ *
+ * A range is kept when both ends lie in the same hunk, as GitHub requires.
+ * Otherwise the comment falls back to a single line near the start of the
+ * range. Returns undefined if no valid line is close enough.
+ */
+export function resolveCommentAnchor(
+  startLine: number | undefined,
+  line: number,
+  parsedDiff: ParsedDiff,
+  maxDistance = 3,
+  side: DiffSide = 'RIGHT'
+): CommentAnchor | undefined {
+  if (startLine !== undefined && startLine < line) {
+    const hunk = parsedDiff.hunks.find((h) => {
+      const [start, count] = side === 'LEFT' ? [h.oldStart, h.oldCount] : [h.newStart, h.newCount];
+      return startLine >= start && line <= start + count - 1;
+    });
+
+    if (hunk) {
+      return { startLine, line, exact: true };
+    }
+  }
+
+  const target = startLine ?? line;
+  const validLine = findNearestValidLine(target, parsedDiff, maxDistance, side);
+
+  if (validLine === undefined) {
+    return undefined;
+  }
+
+  return { line: validLine, exact: validLine === target && (startLine ?? line) === line };
+}
+
+function validLines(parsedDiff: ParsedDiff, side: DiffSide): Set<number> {
+  return side === 'LEFT' ? parsedDiff.validOldLines : parsedDiff.validNewLines;
+}
@@ -0,0 +1,463 @@
+import * as http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import * as os from 'node:os';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CHANGE_REQUEST_MARKER,
+  SUMMARY_MARKER,
+  formatFingerprintMarker,
+  formatRunMarker,
+} from '../../output/markers.js';
+import { GitLabAdapter } from './adapter.js';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+const MR_PATH = '/api/v4/projects/group%2Fproject/merge_requests/7';
+
+const mergeRequest = {
+  iid: 7,
+  title: 'Add login endpoint',
+  description: 'Implements login',
+  author: { username: 'alice' },
+  source_branch: 'feature/login',
+  target_branch: 'main',
+  sha: 'head123',
+  diff_refs: { base_sha: 'base123', head_sha: 'head123', start_sha: 'start123' },
+};
+
+const diffsPage1 = [
+  {
+    old_path: 'src/login.ts',
+    new_path: 'src/login.ts',
+    diff: '@@ -1,3 +1,4 @@\n const a = 1;\n+const b = 2;\n const c = 3;\n const d = 4;',
+    new_file: false,
+    renamed_file: false,
+    deleted_file: false,
+  },
+];
+
+const diffsPage2 = [
+  {
+    old_path: 'src/old-name.ts',
+    new_path: 'src/new-name.ts',
+    diff: '@@ -1,2 +1,2 @@\n-export const x = 1;\n--- the old value\n+export const x = 2;\n+++ the new value',
+    new_file: false,
+    renamed_file: true,
+    deleted_file: false,
+  },
+];
+
+describe('GitLabAdapter', () => {
+  let server: http.Server;
+  let apiUrl: string;
+  let requests: RecordedRequest[];
+  let discussions: unknown[];
+  let notes: unknown[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => {
+        raw += chunk;
+      });
+      req.on('end', () => {
+        const url = req.url || '';
+        requests.push({
+          method: req.method || 'GET',
+          url,
+          headers: req.headers,
+          body: raw ? JSON.parse(raw) : undefined,
+        });
+
+        const json = (status: number, payload: unknown, headers: Record<string, string> = {}) => {
+          res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+          res.end(JSON.stringify(payload));
+        };
+
+        if (req.method === 'GET' && url === MR_PATH) {
+          return json(200, mergeRequest);
+        }
+        if (req.method === 'GET' && url.startsWith(`${MR_PATH}/diffs`)) {
+          return url.includes('page=2')
+            ? json(200, diffsPage2)
+            : json(200, diffsPage1, { 'x-next-page': '2' });
+        }
+        if (req.method === 'GET' && url.includes('/repository/files/')) {
+          res.writeHead(200, { 'Content-Type': 'text/plain' });
+          return res.end('remote content');
+        }
+        if (req.method === 'GET' && url.startsWith(`${MR_PATH}/notes?`)) {
+          return json(200, notes);
+        }
+        if (req.method === 'POST' && url === `${MR_PATH}/notes`) {
+          return json(201, { id: 1 });
+        }
+        if (req.method === 'PUT' && url.startsWith(`${MR_PATH}/notes/`)) {
+          return json(200, { id: 1 });
+        }
+        if (req.method === 'POST' && url === `${MR_PATH}/discussions`) {
+          return json(201, { id: 'abc' });
+        }
+        if (req.method === 'PUT' && url === MR_PATH) {
+          return json(200, mergeRequest);
+        }
+        if (req.method === 'GET' && url.startsWith(`${MR_PATH}/discussions?`)) {
+          return json(200, discussions);
+        }
+        if (url.startsWith(`${MR_PATH}/discussions/`)) {
+          return json(req.method === 'POST' ? 201 : 200, { id: 'note' });
+        }
+
+        json(404, { message: '404 Not Found' });
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    apiUrl = `http://127.0.0.1:${port}/api/v4`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    discussions = [];
+    notes = [];
+  });
+
+  const sentinelDiscussion = (id: string, fingerprint: string, resolved: boolean) => ({
+    id,
+    notes: [
+      { body: `Issue\n\n${formatFingerprintMarker(fingerprint)}`, resolvable: true, resolved },
+    ],
+  });
+
+  const createAdapter = () =>
+    new GitLabAdapter({
+      token: 'secret-token',
+      apiUrl,
+      projectId: 'group/project',
+      mergeRequestIid: 7,
+      workingDir: os.tmpdir(),
+    });
+
+  describe('getPullRequest', () => {
+    it('should map the merge request and its paginated diffs', async () => {
+      const adapter = createAdapter();
+
+      const pr = await adapter.getPullRequest();
+
+      expect(pr.id).toBe(7);
+      expect(pr.title).toBe('Add login endpoint');
+      expect(pr.author).toBe('alice');
+      expect(pr.baseBranch).toBe('main');
+      expect(pr.headBranch).toBe('feature/login');
+      expect(pr.baseRef).toBe('base123');
+      expect(pr.headRef).toBe('head123');
+      expect(pr.files).toHaveLength(2);
+      expect(pr.files[0]).toMatchObject({
+        filename: 'src/login.ts',
+        status: 'modified',
+        additions: 1,
+        deletions: 0,
+      });
+      expect(pr.files[1]).toMatchObject({
+        filename: 'src/new-name.ts',
+        status: 'renamed',
+        previousFilename: 'src/old-name.ts',
+        additions: 2,
+        deletions: 2,
+      });
+    });
+
+    it('should authenticate with the private token header', async () => {
+      const adapter = createAdapter();
+
+      await adapter.getPullRequest();
+
+      expect(requests[0].headers['private-token']).toBe('secret-token');
+    });
+  });
+
+  describe('getFileContent', () => {
+    it('should fall back to the repository files API', async () => {
+      const adapter = createAdapter();
+      await adapter.getPullRequest();
+
+      const content = await adapter.getFileContent('does/not/exist-locally.ts');
+
+      expect(content).toBe('remote content');
+      const fileRequest = requests.find((r) => r.url.includes('/repository/files/'));
+      expect(fileRequest?.url).toContain('does%2Fnot%2Fexist-locally.ts/raw?ref=head123');
+    });
+  });
+
+  describe('postReviewSummary', () => {
+    it('should post the summary as a merge request note', async () => {
+      const adapter = createAdapter();
+
+      await adapter.postReviewSummary('## Code Sentinel Review');
+
+      expect(requests[1]).toMatchObject({
+        method: 'POST',
+        url: `${MR_PATH}/notes`,
+        body: { body: `${SUMMARY_MARKER}\n\n## Code Sentinel Review` },
+      });
+    });
+
+    it('should update the summary of an earlier run and keep its history', async () => {
+      notes = [
+        { id: 3, body: 'LGTM' },
+        {
+          id: 2,
+          body: `${SUMMARY_MARKER}\n\nOld review\n${formatRunMarker({ headSha: 'aaa1111', issues: 3 })}`,
+        },
+      ];
+
+      await createAdapter().postReviewSummary(
+        `New review\n${formatRunMarker({ headSha: 'bbb2222', issues: 1 })}`
+      );
+
+      expect(requests).toHaveLength(2);
+      expect(requests[1]).toMatchObject({ method: 'PUT', url: `${MR_PATH}/notes/2` });
+      const { body } = requests[1].body as { body: string };
+      expect(body).toContain('New review');
+      expect(body).toContain('Review history (1 earlier run)');
+      expect(body).toContain('`aaa1111`');
+    });
+  });
+
+  describe('postInlineComments', () => {
+    const posted = () => requests.filter((r) => r.method === 'POST');
+
+    it('should post discussions with diff positions', async () => {
+      const adapter = createAdapter();
+      await adapter.getPullRequest();
+      requests = [];
+
+      await adapter.postInlineComments([
+        { path: 'src/login.ts', line: 2, body: 'Added line issue', side: 'RIGHT' },
+        { path: 'src/login.ts', line: 3, body: 'Context line issue', side: 'RIGHT' },
+      ]);
+
+      expect(posted()).toHaveLength(2);
+      expect(posted()[0].body).toEqual({
+        body: 'Added line issue',
+        position: {
+          position_type: 'text',
+          base_sha: 'base123',
+          start_sha: 'start123',
+          head_sha: 'head123',
+          old_path: 'src/login.ts',
+          new_path: 'src/login.ts',
+          new_line: 2,
+        },
+      });
+      expect(posted()[1].body).toMatchObject({
+        position: { new_line: 3, old_line: 2 },
+      });
+    });
+
+    it('should anchor multi-line suggestions on the last line', async () => {
+      const adapter = createAdapter();
+      await adapter.getPullRequest();
+      requests = [];
+
+      await adapter.postInlineComments([
+        {
+          path: 'src/login.ts',
+          startLine: 2,
+          line: 3,
+          body: '```suggestion\nconst b = 3;\nconst c = 4;\n```',
+          side: 'RIGHT',
+        },
+      ]);
+
+      expect(posted()[0].body).toMatchObject({
+        body: '```suggestion:-1+0\nconst b = 3;\nconst c = 4;\n```',
+        position: { new_line: 3 },
+      });
+    });
+
+    it('should use the previous path for renamed files', async () => {
+      const adapter = createAdapter();
+      await adapter.getPullRequest();
+      requests = [];
+
+      await adapter.postInlineComments([
+        { path: 'src/new-name.ts', line: 1, body: 'Renamed file issue', side: 'RIGHT' },
+      ]);
+
+      expect(posted()[0].body).toMatchObject({
+        position: { old_path: 'src/old-name.ts', new_path: 'src/new-name.ts', new_line: 1 },
+      });
+    });
+
+    it('should post comments on removed lines of renamed files with the old line', async () => {
+      const adapter = createAdapter();
+      await adapter.getPullRequest();
+      requests = [];
+
+      await adapter.postInlineComments([
+        { path: 'src/new-name.ts', line: 1, body: 'Removed export', side: 'LEFT' },
+      ]);
+
+      const { position } = posted()[0].body as { position: Record<string, unknown> };
+      expect(position).toMatchObject({
+        old_path: 'src/old-name.ts',
+        new_path: 'src/new-name.ts',
+        old_line: 1,
+      });
+      expect(position.new_line).toBeUndefined();
+    });
+
+    it('should skip comments outside the diff', async () => {
+      const adapter = createAdapter();
+      await adapter.getPullRequest();
+      requests = [];
+
+      await adapter.postInlineComments([
+        { path: 'src/login.ts', line: 50, body: 'Far away', side: 'RIGHT' },
+        { path: 'src/unknown.ts', line: 1, body: 'Not in MR', side: 'RIGHT' },
+      ]);
+
+      expect(posted()).toHaveLength(0);
+    });
+
+    it('should stop at the comment limit without counting skipped comments', async () => {
+      const adapter = createAdapter();
+      await adapter.getPullRequest();
+      requests = [];
+
+      await adapter.postInlineComments(
+        [
+          { path: 'src/login.ts', line: 50, body: 'Far away', side: 'RIGHT' },
+          { path: 'src/login.ts', line: 2, body: 'First', side: 'RIGHT' },
+          { path: 'src/login.ts', line: 3, body: 'Second', side: 'RIGHT' },
+        ],
+        { maxComments: 1 }
+      );
+
+      expect(posted().map((r) => (r.body as { body: string }).body)).toEqual(['First']);
+    });
+
+    it('should skip issues that already have an open discussion', async () => {
+      discussions = [
+        sentinelDiscussion('d1', 'f002', false),
+        sentinelDiscussion('d2', 'f003', true),
+      ];
+      const adapter = createAdapter();
+      await adapter.getPullRequest();
+      requests = [];
+
+      await adapter.postInlineComments([
+        { path: 'src/login.ts', line: 2, body: 'Open', side: 'RIGHT', fingerprint: 'f002' },
+        { path: 'src/login.ts', line: 3, body: 'Resolved', side: 'RIGHT', fingerprint: 'f003' },
+      ]);
+
+      expect(posted().map((r) => (r.body as { body: string }).body)).toEqual(['Resolved']);
+    });
+  });
+
+  describe('change requests', () => {
+    const changeRequest = (id: string, resolved: boolean) => ({
+      id,
+      notes: [{ body: `Gate failed\n\n${CHANGE_REQUEST_MARKER}`, resolvable: true, resolved }],
+    });
+
+    it('should open a thread and withdraw approval when changes are requested', async () => {
+      const adapter = createAdapter();
+      await adapter.getPullRequest();
+      requests = [];
+
+      await adapter.postInlineComments([], {
+        event: 'REQUEST_CHANGES',
+        body: 'Code Sentinel quality gate failed',
+      });
+
+      expect(requests.map((r) => `${r.method} ${r.url.split('?')[0]}`)).toEqual([
+        `GET ${MR_PATH}/discussions`,
+        `POST ${MR_PATH}/discussions`,
+        `POST ${MR_PATH}/unapprove`,
+      ]);
+      expect(requests[1].body).toEqual({
+        body: `Code Sentinel quality gate failed\n\n${CHANGE_REQUEST_MARKER}`,
+      });
+    });
+
+    it('should reply to an open change request thread instead of opening another', async () => {
+      discussions = [changeRequest('d1', true), changeRequest('d2', false)];
+
+      await createAdapter().postInlineComments([], { event: 'REQUEST_CHANGES', body: 'Failed' });
+
+      expect(requests[1].method).toBe('POST');
+      expect(requests[1].url).toBe(`${MR_PATH}/discussions/d2/notes`);
+    });
+
+    it('should resolve open change request threads once the gate passes', async () => {
+      discussions = [
+        changeRequest('d1', true),
+        changeRequest('d2', false),
+        { id: 'd3', notes: [{ body: 'Human comment', resolvable: true, resolved: false }] },
+      ];
+
+      await createAdapter().dismissChangeRequests('Code Sentinel quality gate passed');
+
+      expect(requests.slice(1).map((r) => `${r.method} ${r.url}`)).toEqual([
+        `POST ${MR_PATH}/discussions/d2/notes`,
+        `PUT ${MR_PATH}/discussions/d2?resolved=true`,
+      ]);
+      expect(requests[1].body).toEqual({ body: 'Code Sentinel quality gate passed' });
+    });
+  });
+
+  describe('resolveStaleComments', () => {
+    it('should resolve open discussions whose issue is no longer reported', async () => {
+      discussions = [
+        sentinelDiscussion('d1', 'f001', false),
+        sentinelDiscussion('d2', 'f002', false),
+        sentinelDiscussion('d3', 'f003', true),
+      ];
+
+      await createAdapter().resolveStaleComments({
+        activeFingerprints: ['f001'],
+        onlyOutdated: false,
+      });
+
+      expect(requests.slice(1).map((r) => `${r.method} ${r.url}`)).toEqual([
+        `PUT ${MR_PATH}/discussions/d2?resolved=true`,
+      ]);
+    });
+  });
+
+  describe('addLabels', () => {
+    it('should add labels through the merge request update endpoint', async () => {
+      const adapter = createAdapter();
+
+      await adapter.addLabels(['security', 'effort:3']);
+
+      expect(requests[0]).toMatchObject({
+        method: 'PUT',
+        url: MR_PATH,
+        body: { add_labels: 'security,effort:3' },
+      });
+    });
+  });
+
+  describe('fromEnvironment', () => {
+    it('should require merge request pipeline variables', () => {
+      vi.stubEnv('CI_MERGE_REQUEST_IID', '');
+
+      expect(() => GitLabAdapter.fromEnvironment('token')).toThrow(/merge request/);
+
+      vi.unstubAllEnvs();
+    });
+  });
+});
@@ -0,0 +1,505 @@
+import * as core from '@actions/core';
+import { CHANGE_REQUEST_MARKER, parseFingerprintMarker } from '../../output/markers.js';
+import { buildStickySummary, isStickySummary } from '../../output/sticky.js';
+import { stripSuggestions, toGitLabSuggestions } from '../../output/suggestion.js';
+import { type ParsedDiff, parsePatch, resolveCommentAnchor } from '../github/diff-parser.js';
+import { listLocalFiles, readLocalFile } from '../local-files.js';
+import type {
+  ChangedFile,
+  InlineReviewOptions,
+  PlatformAdapter,
+  PullRequest,
+  ReviewComment,
+  StaleCommentResolution,
+} from '../types.js';
+
+export interface GitLabAdapterOptions {
+  /** Personal, project or group access token with `api` scope */
+  token: string;
+  /** Base URL of the REST API, e.g. https://gitlab.example.com/api/v4 */
+  apiUrl: string;
+  /** Numeric project ID or URL-encoded `namespace/project` path */
+  projectId: string;
+  /** Merge request IID (the number shown in the UI) */
+  mergeRequestIid: number;
+  workingDir?: string;
+}
+
+/** Subset of the merge request payload we rely on */
+interface GitLabMergeRequest {
+  iid: number;
+  title: string;
+  description: string | null;
+  author?: { username: string };
+  source_branch: string;
+  target_branch: string;
+  sha: string;
+  diff_refs: {
+    base_sha: string;
+    head_sha: string;
+    start_sha: string;
+  } | null;
+}
+
+/** Single entry of `GET /merge_requests/:iid/diffs` */
+interface GitLabDiff {
+  old_path: string;
+  new_path: string;
+  diff: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+}
+
+interface GitLabNote {
+  id: number;
+  body: string;
+}
+
+interface GitLabDiscussion {
+  id: string;
+  notes: { body: string; resolvable: boolean; resolved?: boolean }[];
+}
+
+/** Page size for paginated list endpoints (GitLab's maximum) */
+const PER_PAGE = 100;
+
+export class GitLabAdapter implements PlatformAdapter {
+  readonly name = 'gitlab';
+  private token: string;
+  private apiUrl: string;
+  private projectId: string;
+  private mrIid: number;
+  private workingDir: string;
+  /** SHAs required to anchor discussions to diff positions */
+  private diffRefs?: GitLabMergeRequest['diff_refs'];
+  /** Map of file path to parsed diff for validating comment line numbers */
+  private fileDiffs: Map<string, ParsedDiff> = new Map();
+  /** Map of new file path to old path, needed for renamed files */
+  private oldPaths: Map<string, string> = new Map();
+
+  constructor(options: GitLabAdapterOptions) {
+    this.token = options.token;
+    this.apiUrl = options.apiUrl.replace(/\/+$/, '');
+    this.projectId = options.projectId;
+    this.mrIid = options.mergeRequestIid;
+    this.workingDir = options.workingDir || process.cwd();
+  }
+
+  /**
+   * Build an adapter from the predefined variables of a GitLab CI merge request pipeline.
+   */
+  static fromEnvironment(token: string, workingDir?: string): GitLabAdapter {
+    const apiUrl = process.env.CI_API_V4_URL;
+    const projectId = process.env.CI_PROJECT_ID;
+    const mrIid = process.env.CI_MERGE_REQUEST_IID;
+
+    if (!apiUrl || !projectId || !mrIid) {
+      throw new Error(
+        'GitLab merge request variables not found. Run this job in a merge request pipeline.'
+      );
+    }
+
+    return new GitLabAdapter({
+      token,
+      apiUrl,
+      projectId,
+      mergeRequestIid: Number.parseInt(mrIid, 10),
+      workingDir: workingDir || process.env.CI_PROJECT_DIR,
+    });
+  }
+
+  async getPullRequest(): Promise<PullRequest> {
+    const mr = await this.request<GitLabMergeRequest>('GET', this.mrPath());
+    this.diffRefs = mr.diff_refs;
+
+    const diffs = await this.listDiffs();
+
+    const changedFiles: ChangedFile[] = diffs.map((d) => {
+      // Parse and store the diff for each file for later comment validation
+      if (d.diff) {
+        this.fileDiffs.set(d.new_path, parsePatch(d.diff));
+      }
+      this.oldPaths.set(d.new_path, d.old_path);
+
+      const { additions, deletions } = countChanges(d.diff);
+
+      return {
+        filename: d.new_path,
+        status: fileStatus(d),
+        additions,
+        deletions,
+        patch: d.diff || undefined,
+        previousFilename: d.renamed_file ? d.old_path : undefined,
+      };
+    });
+
+    return {
+      id: mr.iid,
+      title: mr.title,
+      body: mr.description || '',
+      author: mr.author?.username || 'unknown',
+      baseBranch: mr.target_branch,
+      headBranch: mr.source_branch,
+      baseRef: mr.diff_refs?.base_sha || '',
+      headRef: mr.diff_refs?.head_sha || mr.sha,
+      files: changedFiles,
+    };
+  }
+
+  async getFileContent(filePath: string, ref?: string): Promise<string | null> {
+    // First try to read from local filesystem (faster)
+    const local = readLocalFile(this.workingDir, filePath);
+
+    if (local !== null) {
+      return local;
+    }
+
+    // Fallback to GitLab API
+    const fileRef = ref || this.diffRefs?.head_sha || 'HEAD';
+
+    try {
+      return await this.request<string>(
+        'GET',
+        `${this.projectPath()}/repository/files/${encodeURIComponent(filePath)}/raw?ref=${encodeURIComponent(fileRef)}`,
+        undefined,
+        'text'
+      );
+    } catch (error) {
+      core.debug(`Failed to fetch file ${filePath} from GitLab: ${error}`);
+      return null;
+    }
+  }
+
+  async getFilesInDirectory(directory: string, pattern?: string): Promise<string[]> {
+    return listLocalFiles(this.workingDir, directory, pattern);
+  }
+
+  async postReviewSummary(summary: string): Promise<void> {
+    const notes = await this.listPages<GitLabNote>(`${this.mrPath()}/notes`);
+    const existing = notes.find((n) => isStickySummary(n.body));
+    const body = buildStickySummary(summary, existing?.body);
+
+    if (existing) {
+      await this.request('PUT', `${this.mrPath()}/notes/${existing.id}`, { body });
+
+      core.info('Updated review summary on merge request');
+      return;
+    }
+
+    await this.request('POST', `${this.mrPath()}/notes`, { body });
+
+    core.info('Posted review summary to merge request');
+  }
+
+  async postInlineComments(
+    comments: ReviewComment[],
+    options: InlineReviewOptions = {}
+  ): Promise<void> {
+    if (options.event === 'REQUEST_CHANGES') {
+      await this.requestChanges(options.body);
+    }
+
+    if (comments.length === 0) {
+      core.info('No inline comments to post');
+      return;
+    }
+
+    if (!this.diffRefs) {
+      throw new Error('Merge request diff refs not loaded. Call getPullRequest() first.');
+    }
+
+    // Issues that already have an open Code Sentinel thread are not posted again
+    const openFingerprints = new Set(
+      (await this.listSentinelDiscussions()).filter((d) => !d.resolved).map((d) => d.fingerprint)
+    );
+
+    let postedCount = 0;
+    let skippedCount = 0;
+    let duplicateCount = 0;
+
+    for (const comment of comments) {
+      if (options.maxComments !== undefined && postedCount >= options.maxComments) {
+        core.info(`Reached the limit of ${options.maxComments} inline comments`);
+        break;
+      }
+
+      if (comment.fingerprint) {
+        if (openFingerprints.has(comment.fingerprint)) {
+          core.debug(`Skipping comment on ${comment.path}:${comment.line} - already reported`);
+          duplicateCount++;
+          continue;
+        }
+        openFingerprints.add(comment.fingerprint);
+      }
+
+      const parsedDiff = this.fileDiffs.get(comment.path);
+
+      if (!parsedDiff) {
+        core.debug(`Skipping comment on ${comment.path}:${comment.line} - no diff info`);
+        skippedCount++;
+        continue;
+      }
+
+      // Keep the requested range if possible, otherwise find a valid line nearby
+      const anchor = resolveCommentAnchor(
+        comment.startLine,
+        comment.line,
+        parsedDiff,
+        3,
+        comment.side
+      );
+
+      if (anchor === undefined) {
+        core.debug(`Skipping comment on ${comment.path}:${comment.line} - line not in diff`);
+        skippedCount++;
+        continue;
+      }
+
+      // The comment is attached to the last line; suggestions reach up to the first
+      const validLine = anchor.line;
+      let body = anchor.exact
+        ? toGitLabSuggestions(comment.body, validLine - (anchor.startLine ?? validLine))
+        : stripSuggestions(comment.body);
+      const requestedLine = comment.startLine ?? comment.line;
+      if (validLine !== requestedLine && anchor.startLine === undefined) {
+        body = `*(Note: Originally for line ${requestedLine})*\n\n${body}`;
+      }
+
+      const position = {
+        position_type: 'text',
+        base_sha: this.diffRefs.base_sha,
+        start_sha: this.diffRefs.start_sha,
+        head_sha: this.diffRefs.head_sha,
+        old_path: this.oldPaths.get(comment.path) || comment.path,
+        new_path: comment.path,
+        ...toLinePosition(parsedDiff, validLine, comment.side),
+      };
+
+      try {
+        await this.request('POST', `${this.mrPath()}/discussions`, { body, position });
+        postedCount++;
+      } catch (error) {
+        core.warning(`Failed to post comment on ${comment.path}:${validLine}: ${error}`);
+        skippedCount++;
+      }
+    }
+
+    if (skippedCount > 0) {
+      core.warning(`Skipped ${skippedCount} comment(s) - line numbers not in MR diff`);
+    }
+
+    if (duplicateCount > 0) {
+      core.info(`Skipped ${duplicateCount} comment(s) already open from an earlier review`);
+    }
+
+    core.info(`Posted ${postedCount} inline comments to merge request`);
+  }
+
+  async resolveStaleComments(resolution: StaleCommentResolution): Promise<void> {
+    // GitLab does not report whether a thread's code changed since it was posted
+    if (resolution.onlyOutdated) {
+      core.debug('Not resolving threads of an incremental review on GitLab');
+      return;
+    }
+
+    const active = new Set(resolution.activeFingerprints);
+    const stale = (await this.listSentinelDiscussions()).filter(
+      (d) => !d.resolved && !active.has(d.fingerprint)
+    );
+
+    for (const discussion of stale) {
+      try {
+        await this.request('PUT', `${this.mrPath()}/discussions/${discussion.id}?resolved=true`);
+      } catch (error) {
+        core.warning(`Failed to resolve discussion ${discussion.id}: ${error}`);
+      }
+    }
+
+    if (stale.length > 0) {
+      core.info(`Resolved ${stale.length} discussion(s) whose issue is no longer reported`);
+    }
+  }
+
+  async dismissChangeRequests(message: string): Promise<void> {
+    const open = await this.listOpenChangeRequests();
+
+    for (const discussion of open) {
+      const discussionPath = `${this.mrPath()}/discussions/${discussion.id}`;
+      await this.request('POST', `${discussionPath}/notes`, { body: message });
+      await this.request('PUT', `${discussionPath}?resolved=true`);
+    }
+
+    if (open.length > 0) {
+      core.info(`Resolved ${open.length} earlier change request thread(s)`);
+    }
+  }
+
+  async addLabels(labels: string[]): Promise<void> {
+    if (labels.length === 0) {
+      return;
+    }
+
+    await this.request('PUT', this.mrPath(), { add_labels: labels.join(',') });
+
+    core.info(`Added labels: ${labels.join(', ')}`);
+  }
+
+  /**
+   * GitLab reviews have no blocking event, so changes are requested with an
+   * unresolved thread (which blocks merging when the project requires threads
+   * to be resolved) and by withdrawing the token user's approval.
+   */
+  private async requestChanges(body = 'Code Sentinel requested changes'): Promise<void> {
+    const note = `${body}\n\n${CHANGE_REQUEST_MARKER}`;
+    const [open] = await this.listOpenChangeRequests();
+
+    // Keep one thread per merge request and add later failures to it
+    if (open) {
+      await this.request('POST', `${this.mrPath()}/discussions/${open.id}/notes`, { body: note });
+    } else {
+      await this.request('POST', `${this.mrPath()}/discussions`, { body: note });
+    }
+
+    try {
+      await this.request('POST', `${this.mrPath()}/unapprove`);
+    } catch (error) {
+      core.debug(`Merge request was not approved by the token user: ${error}`);
+    }
+
+    core.info('Requested changes with an unresolved merge request thread');
+  }
+
+  /**
+   * List discussions started by Code Sentinel, identified by their fingerprint marker.
+   */
+  private async listSentinelDiscussions(): Promise<
+    { id: string; fingerprint: string; resolved: boolean }[]
+  > {
+    const discussions = await this.listPages<GitLabDiscussion>(`${this.mrPath()}/discussions`);
+
+    return discussions.flatMap((d) => {
+      const fingerprint = parseFingerprintMarker(d.notes[0]?.body);
+      return fingerprint ? [{ id: d.id, fingerprint, resolved: !!d.notes[0].resolved }] : [];
+    });
+  }
+
+  /** Unresolved threads opened by earlier change requests */
+  private async listOpenChangeRequests(): Promise<GitLabDiscussion[]> {
+    const discussions = await this.listPages<GitLabDiscussion>(`${this.mrPath()}/discussions`);
+
+    return discussions.filter((d) => {
+      const first = d.notes[0];
+      return first?.resolvable && !first.resolved && first.body.includes(CHANGE_REQUEST_MARKER);
+    });
+  }
+
+  private async listDiffs(): Promise<GitLabDiff[]> {
+    return this.listPages<GitLabDiff>(`${this.mrPath()}/diffs`);
+  }
+
+  private async listPages<T>(apiPath: string): Promise<T[]> {
+    const items: T[] = [];
+    let page: string | null = '1';
+
+    while (page) {
+      const response = await this.fetch('GET', `${apiPath}?per_page=${PER_PAGE}&page=${page}`);
+      items.push(...((await response.json()) as T[]));
+      page = response.headers.get('x-next-page') || null;
+    }
+
+    return items;
+  }
+
+  private projectPath(): string {
+    return `/projects/${encodeURIComponent(this.projectId)}`;
+  }
+
+  private mrPath(): string {
+    return `${this.projectPath()}/merge_requests/${this.mrIid}`;
+  }
+
+  private async request<T = unknown>(
+    method: string,
+    apiPath: string,
+    body?: unknown,
+    responseType: 'json' | 'text' = 'json'
+  ): Promise<T> {
+    const response = await this.fetch(method, apiPath, body);
+
+    if (responseType === 'text') {
+      return (await response.text()) as T;
+    }
+
+    return (await response.json()) as T;
+  }
+
+  private async fetch(method: string, apiPath: string, body?: unknown): Promise<Response> {
+    const response = await fetch(`${this.apiUrl}${apiPath}`, {
+      method,
+      headers: {
+        'PRIVATE-TOKEN': this.token,
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      throw new Error(`GitLab API ${method} ${apiPath} failed (${response.status}): ${text}`);
+    }
+
+    return response;
+  }
+}
+
+function fileStatus(diff: GitLabDiff): ChangedFile['status'] {
+  if (diff.new_file) return 'added';
+  if (diff.deleted_file) return 'deleted';
+  if (diff.renamed_file) return 'renamed';
+  return 'modified';
+}
+
+/**
+ * Line fields of a GitLab diff position. Unchanged lines need both the old and
+ * the new line number; added lines only the new one, removed lines only the old one.
+ */
+function toLinePosition(
+  parsedDiff: ParsedDiff,
+  line: number,
+  side: ReviewComment['side']
+): { new_line?: number; old_line?: number } {
+  const diffLine = parsedDiff.hunks
+    .flatMap((h) => h.lines)
+    .find((l) =>
+      side === 'LEFT'
+        ? l.type !== 'add' && l.oldLine === line
+        : l.type !== 'remove' && l.newLine === line
+    );
+
+  if (diffLine?.type === 'context' && diffLine.oldLine !== null) {
+    return { new_line: diffLine.newLine, old_line: diffLine.oldLine };
+  }
+
+  return side === 'LEFT' ? { old_line: line } : { new_line: line };
+}
+
+/**
+ * GitLab does not report per-file line counts, so derive them from the patch.
+ * Its diffs start at the first hunk, without `---`/`+++` file headers, so a
+ * removed `-- comment` or an added `++i` line counts like any other.
+ */
+function countChanges(patch: string): { additions: number; deletions: number } {
+  let additions = 0;
+  let deletions = 0;
+
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('+')) {
+      additions++;
+    } else if (line.startsWith('-')) {
+      deletions++;
+    }
+  }
+
+  return { additions, deletions };
+}
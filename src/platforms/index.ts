@@ -1,2 +1,5 @@
 export * from './types.js';
 export * from './github/adapter.js';
+export * from './gitlab/adapter.js';
+export * from './factory.js';
+export * from './local/adapter.js';
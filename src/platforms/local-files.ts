@@ -0,0 +1,73 @@
+/**
+ * Helpers for reading the checked-out working tree.
+ * Shared by platform adapters that run inside a CI checkout.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as core from '@actions/core';
+import { minimatch } from 'minimatch';
+
+/** Directories never worth scanning for source files */
+const SKIP_DIRS = ['node_modules', '.git', 'dist', 'build', 'coverage'];
+
+/**
+ * Read a file relative to the working directory.
+ * Returns null when the file does not exist locally or cannot be read.
+ */
+export function readLocalFile(workingDir: string, filePath: string): string | null {
+  const localPath = path.join(workingDir, filePath);
+
+  if (!fs.existsSync(localPath)) {
+    return null;
+  }
+
+  try {
+    return fs.readFileSync(localPath, 'utf-8');
+  } catch (error) {
+    core.debug(`Failed to read local file ${localPath}: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Recursively list files under a directory, relative to the working directory.
+ *
+ * @param pattern - Optional glob matched against the relative path
+ */
+export function listLocalFiles(workingDir: string, directory: string, pattern?: string): string[] {
+  const dirPath = path.join(workingDir, directory);
+  const results: string[] = [];
+
+  if (!fs.existsSync(dirPath)) {
+    return results;
+  }
+
+  const scanDir = (dir: string) => {
+    const entries = fs.readdirSync(dir, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      const relativePath = path.relative(workingDir, fullPath);
+
+      if (entry.isDirectory()) {
+        // Skip common non-code directories
+        if (!SKIP_DIRS.includes(entry.name)) {
+          scanDir(fullPath);
+        }
+      } else if (entry.isFile()) {
+        if (!pattern || minimatch(relativePath, pattern)) {
+          results.push(relativePath);
+        }
+      }
+    }
+  };
+
+  try {
+    scanDir(dirPath);
+  } catch (error) {
+    core.debug(`Failed to scan directory ${directory}: ${error}`);
+  }
+
+  return results;
+}
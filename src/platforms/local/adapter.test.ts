@@ -0,0 +1,123 @@
+import { execFileSync } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { PassThrough } from 'node:stream';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LocalGitAdapter } from './adapter.js';
+
+const git = (cwd: string, ...args: string[]) =>
+  execFileSync('git', ['-c', 'user.name=Test User', '-c', 'user.email=test@example.com', ...args], {
+    cwd,
+    encoding: 'utf-8',
+  });
+
+const write = (cwd: string, file: string, content: string) => {
+  fs.mkdirSync(path.dirname(path.join(cwd, file)), { recursive: true });
+  fs.writeFileSync(path.join(cwd, file), content);
+};
+
+describe('LocalGitAdapter', () => {
+  let repo: string;
+
+  beforeEach(() => {
+    repo = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-local-'));
+    git(repo, 'init', '-q', '-b', 'main');
+    write(repo, 'src/keep.ts', 'export const keep = 1;\n');
+    write(repo, 'src/remove.ts', 'export const remove = 1;\n');
+    write(repo, 'src/old-name.ts', 'export const renamed = 1;\nexport const other = 2;\n');
+    git(repo, 'add', '-A');
+    git(repo, 'commit', '-q', '-m', 'initial');
+
+    git(repo, 'checkout', '-q', '-b', 'feature/login');
+    write(repo, 'src/keep.ts', 'export const keep = 2;\nexport const added = 3;\n');
+    write(repo, 'src/new.ts', 'export const fresh = true;\n');
+    fs.rmSync(path.join(repo, 'src/remove.ts'));
+    git(repo, 'mv', 'src/old-name.ts', 'src/new-name.ts');
+    git(repo, 'add', '-A');
+    git(repo, 'commit', '-q', '-m', 'Add login flow');
+  });
+
+  afterEach(() => {
+    fs.rmSync(repo, { recursive: true, force: true });
+  });
+
+  it('should build the pull request from git diff base...head', async () => {
+    const adapter = new LocalGitAdapter({ base: 'main', workingDir: repo });
+
+    const pr = await adapter.getPullRequest();
+
+    expect(pr.title).toBe('Add login flow');
+    expect(pr.author).toBe('Test User');
+    expect(pr.baseBranch).toBe('main');
+    expect(pr.headBranch).toBe('feature/login');
+    expect(pr.baseRef).toBe(git(repo, 'rev-parse', 'main').trim());
+    expect(pr.headRef).toBe(git(repo, 'rev-parse', 'HEAD').trim());
+
+    const byName = Object.fromEntries(pr.files.map((f) => [f.filename, f]));
+    expect(byName['src/keep.ts']).toMatchObject({ status: 'modified', additions: 2, deletions: 1 });
+    expect(byName['src/new.ts']).toMatchObject({ status: 'added', additions: 1 });
+    expect(byName['src/remove.ts']).toMatchObject({ status: 'deleted', deletions: 1 });
+    expect(byName['src/new-name.ts']).toMatchObject({
+      status: 'renamed',
+      previousFilename: 'src/old-name.ts',
+    });
+  });
+
+  it('should produce hunk-only patches', async () => {
+    const adapter = new LocalGitAdapter({ base: 'main', workingDir: repo });
+
+    const pr = await adapter.getPullRequest();
+    const patch = pr.files.find((f) => f.filename === 'src/keep.ts')?.patch;
+
+    expect(patch?.startsWith('@@ -1 +1,2 @@')).toBe(true);
+    expect(patch).toContain('+export const added = 3;');
+    expect(patch).not.toContain('diff --git');
+  });
+
+  it('should report binary files as skipped', async () => {
+    fs.writeFileSync(path.join(repo, 'logo.png'), Buffer.from([0x89, 0x50, 0x00, 0x01, 0x02]));
+    git(repo, 'add', '-A');
+    git(repo, 'commit', '-q', '-m', 'Add logo');
+    const adapter = new LocalGitAdapter({ base: 'main', workingDir: repo });
+
+    const pr = await adapter.getPullRequest();
+
+    expect(pr.files.find((f) => f.filename === 'logo.png')?.patch).toBeUndefined();
+    expect(pr.skippedFiles).toEqual([{ path: 'logo.png', reason: 'binary file' }]);
+  });
+
+  it('should only include commits after the merge base', async () => {
+    git(repo, 'checkout', '-q', 'main');
+    write(repo, 'src/main-only.ts', 'export const mainOnly = 1;\n');
+    git(repo, 'add', '-A');
+    git(repo, 'commit', '-q', '-m', 'main moves on');
+
+    const adapter = new LocalGitAdapter({ base: 'main', head: 'feature/login', workingDir: repo });
+    const pr = await adapter.getPullRequest();
+
+    expect(pr.files.map((f) => f.filename)).not.toContain('src/main-only.ts');
+  });
+
+  it('should read file content at the head commit', async () => {
+    const adapter = new LocalGitAdapter({ base: 'main', workingDir: repo });
+    await adapter.getPullRequest();
+
+    // Uncommitted edits are not part of the reviewed range
+    write(repo, 'src/keep.ts', 'dirty working tree\n');
+
+    expect(await adapter.getFileContent('src/keep.ts')).toBe(
+      'export const keep = 2;\nexport const added = 3;\n'
+    );
+    expect(await adapter.getFileContent('src/keep.ts', 'main')).toBe('export const keep = 1;\n');
+  });
+
+  it('should print the summary instead of posting it', async () => {
+    const output = new PassThrough();
+    const adapter = new LocalGitAdapter({ base: 'main', workingDir: repo, output });
+
+    await adapter.postReviewSummary('## Code Sentinel Review');
+
+    expect(output.read().toString()).toBe('## Code Sentinel Review\n');
+  });
+});
@@ -0,0 +1,186 @@
+import { execFileSync } from 'node:child_process';
+import * as core from '@actions/core';
+import { readLocalPatch } from '../git-diff.js';
+import { listLocalFiles, readLocalFile } from '../local-files.js';
+import type {
+  ChangedFile,
+  InlineReviewOptions,
+  PlatformAdapter,
+  PullRequest,
+  ReviewComment,
+  SkippedFile,
+} from '../types.js';
+
+export interface LocalGitAdapterOptions {
+  /** Branch or commit the changes are compared against, e.g. `main` */
+  base: string;
+  /** Branch or commit being reviewed (default: HEAD) */
+  head?: string;
+  workingDir?: string;
+  /** Where post* methods write their output (default: stdout) */
+  output?: NodeJS.WritableStream;
+}
+
+/** Maximum output buffered from a single git command (64MB) */
+const MAX_GIT_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * Platform adapter that reviews `git diff base...head` in a local working tree,
+ * so Code Sentinel can run before a pull request exists.
+ */
+export class LocalGitAdapter implements PlatformAdapter {
+  readonly name = 'local';
+  private base: string;
+  private head: string;
+  private workingDir: string;
+  private output: NodeJS.WritableStream;
+  /** Resolved head commit, set by getPullRequest() */
+  private headSha?: string;
+
+  constructor(options: LocalGitAdapterOptions) {
+    this.base = options.base;
+    this.head = options.head || 'HEAD';
+    this.workingDir = options.workingDir || process.cwd();
+    this.output = options.output || process.stdout;
+  }
+
+  async getPullRequest(): Promise<PullRequest> {
+    const headSha = this.git(['rev-parse', '--verify', `${this.head}^{commit}`]).trim();
+    const mergeBase = this.git(['merge-base', this.base, headSha]).trim();
+    this.headSha = headSha;
+
+    const { files, skippedFiles } = this.listChangedFiles(mergeBase, headSha);
+
+    // Commits on the branch stand in for the PR title and description
+    const subjects = this.git(['log', '--format=%s', `${mergeBase}..${headSha}`])
+      .split('\n')
+      .filter(Boolean);
+    const headBranch = this.git(['rev-parse', '--abbrev-ref', this.head]).trim();
+
+    return {
+      id: 0,
+      title: subjects[0] || `Changes on ${headBranch}`,
+      body: subjects.length > 1 ? subjects.map((s) => `- ${s}`).join('\n') : '',
+      author: this.git(['log', '-1', '--format=%an', headSha]).trim() || 'unknown',
+      baseBranch: this.base,
+      headBranch,
+      baseRef: mergeBase,
+      headRef: headSha,
+      files,
+      skippedFiles,
+    };
+  }
+
+  async getFileContent(filePath: string, ref?: string): Promise<string | null> {
+    const fileRef = ref || this.headSha;
+
+    if (fileRef) {
+      try {
+        return this.git(['show', `${fileRef}:${filePath}`]);
+      } catch (error) {
+        core.debug(`Failed to read ${filePath} at ${fileRef}: ${error}`);
+      }
+    }
+
+    return readLocalFile(this.workingDir, filePath);
+  }
+
+  async getFilesInDirectory(directory: string, pattern?: string): Promise<string[]> {
+    return listLocalFiles(this.workingDir, directory, pattern);
+  }
+
+  async postReviewSummary(summary: string): Promise<void> {
+    this.output.write(`${summary}\n`);
+  }
+
+  async postInlineComments(
+    comments: ReviewComment[],
+    options: InlineReviewOptions = {}
+  ): Promise<void> {
+    for (const comment of comments.slice(0, options.maxComments)) {
+      const lines =
+        comment.startLine !== undefined ? `${comment.startLine}-${comment.line}` : comment.line;
+      this.output.write(`\n${comment.path}:${lines}\n${comment.body}\n`);
+    }
+  }
+
+  private listChangedFiles(
+    baseSha: string,
+    headSha: string
+  ): { files: ChangedFile[]; skippedFiles: SkippedFile[] } {
+    // -z output: status, then one path (or two for renames/copies), NUL separated
+    const nameStatus = this.git(['diff', '--name-status', '-z', '-M', baseSha, headSha]).split(
+      '\0'
+    );
+    const files: ChangedFile[] = [];
+    const skippedFiles: SkippedFile[] = [];
+
+    for (let i = 0; i < nameStatus.length - 1; ) {
+      const status = nameStatus[i++];
+      const code = status.charAt(0);
+      const hasTwoPaths = code === 'R' || code === 'C';
+      const previousFilename = hasTwoPaths ? nameStatus[i++] : undefined;
+      const filename = nameStatus[i++];
+
+      const pathspec = previousFilename ? [previousFilename, filename] : [filename];
+      const { patch, binary } = readLocalPatch(this.workingDir, baseSha, headSha, pathspec);
+      const { additions, deletions } = this.countChanges(baseSha, headSha, pathspec);
+
+      files.push({
+        filename,
+        status: fileStatus(code),
+        additions,
+        deletions,
+        patch,
+        previousFilename,
+      });
+
+      if (binary) {
+        skippedFiles.push({ path: filename, reason: 'binary file' });
+      }
+    }
+
+    return { files, skippedFiles };
+  }
+
+  private countChanges(
+    baseSha: string,
+    headSha: string,
+    pathspec: string[]
+  ): { additions: number; deletions: number } {
+    const numstat = this.git(['diff', '--numstat', '-M', baseSha, headSha, '--', ...pathspec]);
+    const [added, deleted] = numstat.split('\t');
+
+    // Binary files report "-" for both counts
+    return {
+      additions: Number.parseInt(added, 10) || 0,
+      deletions: Number.parseInt(deleted, 10) || 0,
+    };
+  }
+
+  private git(args: string[]): string {
+    return execFileSync('git', args, {
+      cwd: this.workingDir,
+      encoding: 'utf-8',
+      maxBuffer: MAX_GIT_BUFFER,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+  }
+}
+
+function fileStatus(code: string): ChangedFile['status'] {
+  switch (code) {
+    case 'A':
+      return 'added';
+    case 'D':
+      return 'deleted';
+    case 'R':
+      return 'renamed';
+    case 'C':
+      return 'copied';
+    case 'M':
+      return 'modified';
+    default:
+      return 'changed';
+  }
+}
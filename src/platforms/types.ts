@@ -9,6 +9,13 @@ export interface ChangedFile {
   previousFilename?: string;
 }
 
+/** A changed file that could not be reviewed */
+export interface SkippedFile {
+  path: string;
+  /** Why the file was skipped, e.g. "binary file" */
+  reason: string;
+}
+
 export interface PullRequest {
   id: number;
   title: string;
@@ -19,13 +26,49 @@ export interface PullRequest {
   baseRef: string;
   headRef: string;
   files: ChangedFile[];
+  /** Changed files without a reviewable diff, listed in the summary */
+  skippedFiles?: SkippedFile[];
+  /** Set when only the commits pushed since the last review should be reviewed */
+  incremental?: IncrementalChanges;
+}
+
+export interface IncrementalChanges {
+  /** Head SHA of the previous Code Sentinel review */
+  sinceRef: string;
+  /** Files changed between sinceRef and the current head, with patches relative to sinceRef */
+  files: ChangedFile[];
 }
 
 export interface ReviewComment {
   path: string;
+  /** First line of a multi-line comment */
+  startLine?: number;
+  /** Line the comment is attached to, the last line of a multi-line comment */
   line: number;
   body: string;
+  /** RIGHT for lines of the new file, LEFT for lines of the old file (removed code) */
   side: 'LEFT' | 'RIGHT';
+  /** Fingerprint of the issue, also embedded in the body */
+  fingerprint?: string;
+}
+
+export interface InlineReviewOptions {
+  /** Review event; REQUEST_CHANGES blocks merging until the review is dismissed */
+  event?: 'COMMENT' | 'REQUEST_CHANGES';
+  /** Review body, e.g. why changes are requested */
+  body?: string;
+  /** Most comments to post, counted after comments whose issue is already open are skipped */
+  maxComments?: number;
+}
+
+export interface StaleCommentResolution {
+  /** Fingerprints of every issue reported by the current run */
+  activeFingerprints: string[];
+  /**
+   * Only resolve threads whose code changed since they were posted.
+   * Used for incremental reviews, where unchanged code was not re-reviewed.
+   */
+  onlyOutdated: boolean;
 }
 
 export interface FileContent {
@@ -38,13 +81,26 @@ export interface PlatformAdapter {
 
   getPullRequest(): Promise<PullRequest>;
 
+  /**
+   * Find the changes pushed since the last Code Sentinel review.
+   * Returns undefined when a full review is needed (no earlier review, rewritten history).
+   */
+  getIncrementalChanges?(pr: PullRequest): Promise<IncrementalChanges | undefined>;
+
   getFileContent(path: string, ref?: string): Promise<string | null>;
 
   getFilesInDirectory(directory: string, extension?: string): Promise<string[]>;
 
   postReviewSummary(summary: string): Promise<void>;
 
-  postInlineComments(comments: ReviewComment[]): Promise<void>;
+  /** Post inline comments, skipping issues that already have an open thread */
+  postInlineComments(comments: ReviewComment[], options?: InlineReviewOptions): Promise<void>;
+
+  /** Resolve earlier Code Sentinel threads whose issue is no longer reported */
+  resolveStaleComments?(resolution: StaleCommentResolution): Promise<void>;
+
+  /** Withdraw the change requests of earlier runs, once the quality gate passes */
+  dismissChangeRequests?(message: string): Promise<void>;
 
   addLabels?(labels: string[]): Promise<void>;
 }
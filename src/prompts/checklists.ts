@@ -0,0 +1,147 @@
+import type { CodebaseStack } from '../llm/types.js';
+
+/** Checklists for the whole review are capped so they do not crowd out the code */
+const MAX_CHECKLISTS = 4;
+
+/**
+ * Review checklists for common languages and frameworks, keyed by the names
+ * the stack detector reports. Frameworks come first as they are more specific.
+ */
+const CHECKLISTS: Record<string, string[]> = {
+  'Next.js': [
+    'Server-only code and secrets are not imported into client components',
+    "Data fetching uses the right rendering mode and caching (`'use client'`, `revalidate`, `cache`)",
+    'API routes and server actions validate input and check authorization',
+  ],
+  React: [
+    'Hooks follow the rules of hooks and effect dependency arrays are complete',
+    'List items have stable keys; state is not mutated in place',
+    '`dangerouslySetInnerHTML` and URLs from user input are sanitized',
+  ],
+  'React Native': [
+    'Platform-specific code is handled for both iOS and Android',
+    'Long lists use `FlatList` and avoid re-rendering every row',
+  ],
+  Vue: [
+    'Reactive state is not destructured in a way that loses reactivity',
+    '`v-html` is not used with user input',
+  ],
+  Angular: [
+    'Subscriptions are unsubscribed or use the `async` pipe',
+    '`bypassSecurityTrust*` is not used with user input',
+  ],
+  Svelte: [
+    'Reactive statements do not create update loops',
+    '`{@html}` is not used with user input',
+  ],
+  NestJS: [
+    'DTOs are validated with pipes and guards protect new routes',
+    'Providers are injected rather than instantiated',
+  ],
+  Express: [
+    'Request input is validated and errors reach the error middleware (async handlers included)',
+    'New routes apply authentication and rate limiting where needed',
+  ],
+  Fastify: [
+    'Routes declare request and response schemas',
+    'Hooks and plugins respect encapsulation',
+  ],
+  Prisma: [
+    'Queries in loops are replaced by `include`, `in` filters or batching',
+    '`$queryRawUnsafe` is not used with user input',
+  ],
+  Django: [
+    'Querysets in loops use `select_related`/`prefetch_related` (no N+1 queries)',
+    'Raw SQL and `extra()` do not interpolate user input; `mark_safe` is not used on it',
+    'Views enforce permissions and CSRF protection is not disabled',
+    'Model changes come with a migration',
+  ],
+  Flask: [
+    'Request data is validated and templates do not disable autoescaping',
+    'Secrets and `debug=True` are not hard-coded',
+  ],
+  FastAPI: [
+    'Endpoints use Pydantic models for input and declare response models',
+    'Blocking I/O is not called from `async` endpoints',
+    'Dependencies enforce authentication on new routes',
+  ],
+  SQLAlchemy: [
+    'Sessions are closed or scoped, and relationships in loops are eager-loaded',
+    '`text()` queries bind parameters instead of formatting strings',
+  ],
+  Gin: ['Handlers return after writing an error response', 'Bound input is validated'],
+  Echo: ['Handlers return the errors they write', 'Bound input is validated'],
+  Fiber: ['Values from the request context are not kept after the handler returns'],
+  GORM: ['Queries in loops use `Preload` or joins', 'Raw SQL binds parameters'],
+  'Spring Boot': [
+    'Request bodies are validated (`@Valid`) and endpoints are covered by security config',
+    '`@Transactional` is on public methods called through the proxy',
+    'Lazy-loaded relations are not accessed in loops (N+1 queries)',
+  ],
+  Spring: [
+    '`@Transactional` is on public methods called through the proxy',
+    'Beans are injected through constructors',
+  ],
+  Quarkus: ['Blocking calls are not made on the event loop'],
+  Rails: [
+    'Controllers use strong parameters',
+    'Associations in loops use `includes` (no N+1 queries)',
+    'Schema changes come with a reversible migration',
+  ],
+  Sinatra: ['Request parameters are validated and output is escaped'],
+  Laravel: [
+    'Mass assignment is guarded (`$fillable`) and requests are validated',
+    'Relations in loops are eager-loaded with `with()`',
+  ],
+  Symfony: ['Forms and requests are validated; voters check access'],
+  'Actix Web': ['Blocking work runs in `web::block`', 'Extractors validate input'],
+  Axum: ['Blocking work runs in `spawn_blocking`', 'Extractors validate input'],
+  Rocket: ['Request guards enforce authentication'],
+  Tokio: [
+    'Blocking calls are not made inside async tasks',
+    'Locks are not held across `.await` points',
+  ],
+  TypeScript: [
+    'No `any`, non-null assertions or casts hide possible `undefined` values',
+    'Promises are awaited or their rejections handled',
+  ],
+  JavaScript: [
+    'Promises are awaited or their rejections handled',
+    'Equality checks use `===` and `undefined`/`null` are handled',
+  ],
+  Python: [
+    'No mutable default arguments; exceptions are not silently swallowed',
+    'Files and connections are closed with context managers',
+  ],
+  Go: [
+    'Errors are checked and wrapped with context; no ignored `err`',
+    'Goroutines can exit (context cancellation) and shared state is synchronized',
+    '`defer` in loops and unclosed response bodies are avoided',
+  ],
+  Rust: [
+    '`unwrap`/`expect` are not used on fallible input; errors propagate with `?`',
+    '`unsafe` blocks document their invariants',
+  ],
+  Java: ['Resources use try-with-resources; `Optional` is not dereferenced blindly'],
+  Kotlin: ['`!!` is not used on values that may be null', 'Coroutines use structured concurrency'],
+  Ruby: ['`send`/`eval` are not called with user input'],
+  PHP: ['Queries use prepared statements and output is escaped'],
+  'C#': ['`IDisposable` objects are disposed and async code is not blocked on with `.Result`'],
+};
+
+export interface StackChecklist {
+  name: string;
+  items: string[];
+}
+
+/**
+ * Checklists for the detected frameworks, then the main languages, most specific first.
+ *
+ * @param exclude - Names whose checklists are covered elsewhere, e.g. by a prompt pack
+ */
+export function getStackChecklists(stack: CodebaseStack, exclude: string[] = []): StackChecklist[] {
+  return [...stack.frameworks, ...stack.languages]
+    .filter((name) => CHECKLISTS[name] && !exclude.includes(name))
+    .slice(0, MAX_CHECKLISTS)
+    .map((name) => ({ name, items: CHECKLISTS[name] }));
+}
@@ -1 +1,4 @@
 export * from './review.js';
+export * from './checklists.js';
+export * from './packs.js';
+export * from './templates.js';
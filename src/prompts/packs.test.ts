@@ -0,0 +1,156 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { type PromptPack, PromptPacksConfigSchema } from '../config/schema.js';
+import {
+  BUILTIN_PROMPT_PACKS,
+  formatPromptPacks,
+  parsePromptPack,
+  readPromptPackFiles,
+  resolvePromptPacks,
+  selectPromptPacks,
+} from './packs.js';
+
+const teamPack = `
+id: payments
+name: Payments service
+files: ["services/payments/**"]
+checklist:
+  - Amounts are integer cents, never floats
+examples:
+  - language: ts
+    code: "const total = price * 1.2;"
+    issue:
+      severity: warning
+      category: bugs
+      title: Money stored as a float
+      description: Floating-point arithmetic loses cents.
+`;
+
+const ids = (packs: PromptPack[]) => packs.map((p) => p.id);
+
+describe('resolvePromptPacks', () => {
+  it('should use the built-in packs except disabled ones, replaced by team packs with the same id', () => {
+    const config = PromptPacksConfigSchema.parse({ disable: ['terraform'] });
+    const go = { ...parsePromptPack(teamPack), id: 'go' };
+
+    const packs = resolvePromptPacks(config, [go, parsePromptPack(teamPack)]);
+
+    expect(ids(packs)).toEqual([
+      'typescript-react',
+      'python-django',
+      'go',
+      'java-spring',
+      'sql-migrations',
+      'payments',
+    ]);
+    expect(packs[2].name).toBe('Payments service');
+  });
+
+  it('should only use team packs when built-in packs are turned off', () => {
+    const config = PromptPacksConfigSchema.parse({ builtin: false });
+
+    expect(ids(resolvePromptPacks(config, [parsePromptPack(teamPack)]))).toEqual(['payments']);
+  });
+});
+
+describe('selectPromptPacks', () => {
+  it('should select packs by file extension and path', () => {
+    const packs = selectPromptPacks(BUILTIN_PROMPT_PACKS, [
+      'infra/main.tf',
+      'db/migrations/0042_add_index.sql',
+      'web/src/App.tsx',
+    ]);
+
+    expect(ids(packs)).toEqual(['typescript-react', 'sql-migrations', 'terraform']);
+  });
+
+  it('should not select the React pack for TypeScript without React', () => {
+    const stack = { languages: ['TypeScript'], frameworks: ['Express'], testRunners: ['Vitest'] };
+
+    expect(ids(selectPromptPacks(BUILTIN_PROMPT_PACKS, ['src/server.ts'], stack))).toEqual([]);
+    expect(
+      ids(
+        selectPromptPacks(BUILTIN_PROMPT_PACKS, ['src/App.tsx'], {
+          ...stack,
+          frameworks: ['React'],
+        })
+      )
+    ).toEqual(['typescript-react']);
+  });
+
+  it('should require one of the pack stack names when a stack was detected', () => {
+    const stack = { languages: ['Python'], frameworks: ['Flask'], testRunners: [] };
+
+    expect(ids(selectPromptPacks(BUILTIN_PROMPT_PACKS, ['app/views.py'], stack))).toEqual([]);
+    expect(
+      ids(
+        selectPromptPacks(BUILTIN_PROMPT_PACKS, ['app/views.py'], {
+          ...stack,
+          frameworks: ['Django'],
+        })
+      )
+    ).toEqual(['python-django']);
+  });
+});
+
+describe('formatPromptPacks', () => {
+  it('should list each pack with its files, checklist and examples', () => {
+    const text = formatPromptPacks([parsePromptPack(teamPack)]);
+
+    expect(text).toContain('## Review Packs');
+    expect(text).toContain('### Payments service');
+    expect(text).toContain('Files: `services/payments/**`');
+    expect(text).toContain('- Amounts are integer cents, never floats');
+    expect(text).toContain('```ts\nconst total = price * 1.2;\n```');
+    expect(text).toContain('"title":"Money stored as a float"');
+  });
+});
+
+describe('parsePromptPack', () => {
+  it('should reject packs without an id or name', () => {
+    expect(() => parsePromptPack('checklist: ["Check things"]')).toThrow();
+  });
+});
+
+describe('readPromptPackFiles', () => {
+  it('should read pack files from directories and skip invalid ones', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-packs-'));
+
+    try {
+      fs.mkdirSync(path.join(dir, 'packs'));
+      fs.writeFileSync(path.join(dir, 'packs', 'payments.yml'), teamPack);
+      fs.writeFileSync(path.join(dir, 'packs', 'broken.yaml'), 'name: [');
+      fs.writeFileSync(path.join(dir, 'packs', 'notes.md'), '# Notes');
+
+      const packs = readPromptPackFiles(['packs', 'missing.yml'], dir);
+
+      expect(ids(packs)).toEqual(['payments']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should skip pack paths that lead outside the repository', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-packs-'));
+    const outside = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-outside-'));
+
+    try {
+      fs.writeFileSync(path.join(outside, 'external.yml'), teamPack);
+      fs.mkdirSync(path.join(dir, 'packs'));
+      fs.symlinkSync(path.join(outside, 'external.yml'), path.join(dir, 'packs', 'linked.yml'));
+      fs.symlinkSync(outside, path.join(dir, 'shared'));
+
+      const packs = readPromptPackFiles(
+        ['packs', 'shared', path.relative(dir, path.join(outside, 'external.yml')), outside],
+        dir
+      );
+
+      expect(packs).toEqual([]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+      fs.rmSync(outside, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,333 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as core from '@actions/core';
+import { minimatch } from 'minimatch';
+import { parse as parseYaml } from 'yaml';
+import { type PromptPack, PromptPackSchema, type PromptPacksConfig } from '../config/schema.js';
+import type { CodebaseStack } from '../llm/types.js';
+import { isInside } from './templates.js';
+
+const JS_FILES = '**/*.{ts,tsx,mts,cts,js,jsx,mjs,cjs}';
+
+export const BUILTIN_PROMPT_PACKS: PromptPack[] = [
+  {
+    id: 'typescript-react',
+    name: 'TypeScript / React',
+    files: [JS_FILES],
+    // Only for React code, not every TypeScript or JavaScript repository
+    stack: ['React', 'Next.js', 'React Native'],
+    checklist: [
+      'No `any`, non-null assertions or casts that hide possible `undefined` values',
+      'Promises are awaited or their rejections handled; no floating promises in event handlers',
+      'Hooks are called unconditionally and effect dependency arrays list every value they use',
+      'Effects that subscribe, start timers or fetch clean up after themselves',
+      'List items have stable keys and state is updated immutably',
+      'User input does not reach `dangerouslySetInnerHTML`, `href` or `eval` unsanitized',
+    ],
+    examples: [
+      {
+        language: 'tsx',
+        code: [
+          'useEffect(() => {',
+          '  const id = setInterval(() => setCount(count + 1), 1000);',
+          '}, []);',
+        ].join('\n'),
+        issue: {
+          severity: 'warning',
+          category: 'bugs',
+          title: 'Interval is never cleared and reads a stale count',
+          description:
+            'The effect starts an interval without returning a cleanup, so it keeps running after unmount, and `count` is captured from the first render so the value never passes 1.',
+          suggestion:
+            'Return `() => clearInterval(id)` and use the updater form `setCount((c) => c + 1)`.',
+        },
+      },
+    ],
+  },
+  {
+    id: 'python-django',
+    name: 'Python / Django',
+    files: ['**/*.py'],
+    stack: ['Django'],
+    checklist: [
+      'Querysets used in loops or templates use `select_related`/`prefetch_related` (no N+1 queries)',
+      'Raw SQL, `extra()` and `RawSQL` bind parameters instead of formatting user input',
+      '`mark_safe`, `|safe` and `csrf_exempt` are not applied to user-controlled content',
+      'Views check permissions and querysets are scoped to the requesting user',
+      'Model changes come with a migration; data migrations are reversible',
+      'No mutable default arguments; exceptions are not silently swallowed',
+    ],
+    examples: [
+      {
+        language: 'python',
+        code: [
+          'def order_list(request):',
+          '    orders = Order.objects.filter(user=request.user)',
+          '    return [{"id": o.id, "customer": o.customer.name} for o in orders]',
+        ].join('\n'),
+        issue: {
+          severity: 'warning',
+          category: 'performance',
+          title: 'N+1 query on order customer',
+          description:
+            'Each `o.customer` access runs a separate query, so listing 100 orders makes 101 queries.',
+          suggestion: 'Use `Order.objects.filter(user=request.user).select_related("customer")`.',
+        },
+      },
+    ],
+  },
+  {
+    id: 'go',
+    name: 'Go',
+    files: ['**/*.go'],
+    stack: ['Go'],
+    checklist: [
+      'Every returned `err` is checked, and wrapped with `%w` when passed up',
+      'Goroutines have a way to exit (context cancellation, closed channel) and shared state is synchronized',
+      '`defer` is not used inside loops; response bodies and rows are closed',
+      'Contexts are passed down instead of using `context.Background()` in request paths',
+      'Loop variables captured by goroutines or closures are copied (before Go 1.22)',
+    ],
+    examples: [
+      {
+        language: 'go',
+        code: [
+          'resp, err := http.Get(url)',
+          'if err != nil {',
+          '    return err',
+          '}',
+          'body, _ := io.ReadAll(resp.Body)',
+        ].join('\n'),
+        issue: {
+          severity: 'warning',
+          category: 'bugs',
+          title: 'Response body is never closed and read errors are ignored',
+          description:
+            'Without `resp.Body.Close()` the connection is not reused and leaks, and a failed read returns a truncated body as if it succeeded.',
+          suggestion:
+            'Add `defer resp.Body.Close()` after the error check and handle the error from `io.ReadAll`.',
+        },
+      },
+    ],
+  },
+  {
+    id: 'java-spring',
+    name: 'Java / Spring',
+    files: ['**/*.{java,kt}'],
+    stack: ['Java', 'Kotlin', 'Spring', 'Spring Boot'],
+    checklist: [
+      'Request bodies are validated with `@Valid` and new endpoints are covered by the security configuration',
+      '`@Transactional` is on public methods called through the Spring proxy, not on self-invocations',
+      'Lazy-loaded relations are not accessed in loops (N+1 queries) or outside a transaction',
+      'Beans are injected through constructors; no mutable state in singleton beans',
+      'Resources use try-with-resources and `Optional` is not dereferenced with `get()` unchecked',
+    ],
+    examples: [
+      {
+        language: 'java',
+        code: [
+          'public void importAll(List<Row> rows) {',
+          '    rows.forEach(this::importRow);',
+          '}',
+          '',
+          '@Transactional',
+          'public void importRow(Row row) { ... }',
+        ].join('\n'),
+        issue: {
+          severity: 'warning',
+          category: 'bugs',
+          title: '@Transactional is bypassed on self-invocation',
+          description:
+            '`importRow` is called on `this`, not through the Spring proxy, so no transaction is started and a failing row leaves partial writes.',
+          suggestion:
+            'Move `importRow` to another bean or annotate `importAll` with `@Transactional`.',
+        },
+      },
+    ],
+  },
+  {
+    id: 'sql-migrations',
+    name: 'SQL migrations',
+    files: ['**/*.sql', '**/migrations/**', '**/migrate/**'],
+    stack: [],
+    checklist: [
+      'Migrations that lock large tables (adding a column with a default, creating an index, changing a type) are safe to run on production data',
+      'Indexes on large tables are created concurrently where the database supports it',
+      'New `NOT NULL` columns have a default or a backfill, and existing rows satisfy new constraints',
+      'Destructive changes (dropping or renaming columns and tables) are not deployed together with code that still uses them',
+      'Every migration has a working rollback, or states why it cannot',
+    ],
+    examples: [
+      {
+        language: 'sql',
+        code: 'CREATE INDEX idx_orders_user_id ON orders (user_id);',
+        issue: {
+          severity: 'warning',
+          category: 'performance',
+          title: 'Index creation blocks writes to orders',
+          description:
+            'On PostgreSQL `CREATE INDEX` holds a lock that blocks inserts and updates for the whole build, which can take minutes on a large table.',
+          suggestion:
+            'Use `CREATE INDEX CONCURRENTLY` in a migration that does not run inside a transaction.',
+        },
+      },
+    ],
+  },
+  {
+    id: 'terraform',
+    name: 'Terraform',
+    files: ['**/*.tf', '**/*.tfvars'],
+    stack: [],
+    checklist: [
+      'Security groups, buckets and databases are not opened to `0.0.0.0/0` or made public unintentionally',
+      'Secrets are not hard-coded in variables, defaults or `.tfvars` files; sensitive outputs are marked `sensitive`',
+      'Changes that force resource replacement (renames, immutable attributes) are intended; stateful resources use `prevent_destroy`',
+      'Storage and databases have encryption, backups and deletion protection enabled',
+      'Provider and module versions are pinned',
+    ],
+    examples: [
+      {
+        language: 'hcl',
+        code: [
+          'ingress {',
+          '  from_port   = 22',
+          '  to_port     = 22',
+          '  protocol    = "tcp"',
+          '  cidr_blocks = ["0.0.0.0/0"]',
+          '}',
+        ].join('\n'),
+        issue: {
+          severity: 'critical',
+          category: 'security',
+          title: 'SSH open to the internet',
+          description: 'Port 22 accepts connections from any address.',
+          suggestion: 'Restrict `cidr_blocks` to the VPN or bastion range.',
+        },
+      },
+    ],
+  },
+];
+
+/**
+ * Combine the enabled built-in packs with the team's packs. A team pack
+ * with the id of a built-in pack replaces it.
+ */
+export function resolvePromptPacks(config: PromptPacksConfig, custom: PromptPack[]): PromptPack[] {
+  const packs = new Map<string, PromptPack>();
+
+  if (config.builtin) {
+    for (const pack of BUILTIN_PROMPT_PACKS) {
+      if (!config.disable.includes(pack.id)) {
+        packs.set(pack.id, pack);
+      }
+    }
+  }
+
+  for (const pack of custom) {
+    packs.set(pack.id, pack);
+  }
+
+  return [...packs.values()];
+}
+
+export function packAppliesTo(pack: PromptPack, file: string): boolean {
+  return pack.files.some((pattern) => minimatch(file, pattern, { dot: true }));
+}
+
+/**
+ * Packs for the files under review. A pack is used when one of the files
+ * matches it and, if it names a stack, when one of those languages or
+ * frameworks was detected. Without a detected stack only files are matched.
+ */
+export function selectPromptPacks(
+  packs: PromptPack[],
+  files: string[],
+  stack?: CodebaseStack
+): PromptPack[] {
+  const detected = stack
+    ? new Set([...stack.languages, ...stack.frameworks, ...stack.testRunners])
+    : undefined;
+
+  return packs.filter(
+    (pack) =>
+      (!detected || pack.stack.length === 0 || pack.stack.some((name) => detected.has(name))) &&
+      files.some((file) => packAppliesTo(pack, file))
+  );
+}
+
+/** Render packs as a system prompt section with their checklists and example issues */
+export function formatPromptPacks(packs: PromptPack[]): string {
+  const sections = ['## Review Packs', 'Apply these checks to the files each pack covers.'];
+
+  for (const pack of packs) {
+    const lines = [`### ${pack.name}`, `Files: ${pack.files.map((f) => `\`${f}\``).join(', ')}`];
+
+    lines.push(...pack.checklist.map((item) => `- ${item}`));
+
+    for (const example of pack.examples) {
+      lines.push(
+        '',
+        'Example:',
+        `\`\`\`${example.language ?? ''}\n${example.code}\n\`\`\``,
+        `Reported as: ${JSON.stringify(example.issue)}`
+      );
+    }
+
+    sections.push(lines.join('\n'));
+  }
+
+  return sections.join('\n\n');
+}
+
+/** Parse a team pack file (YAML); throws when it does not describe a pack */
+export function parsePromptPack(content: string): PromptPack {
+  return PromptPackSchema.parse(parseYaml(content));
+}
+
+/**
+ * Read the team's pack files. Directories are searched for `.yml` and `.yaml`
+ * files; missing paths are skipped, and paths outside the repository and invalid
+ * files are reported and skipped.
+ */
+export function readPromptPackFiles(paths: string[], workingDir: string): PromptPack[] {
+  const packs: PromptPack[] = [];
+  const root = path.resolve(workingDir);
+
+  for (const configured of paths) {
+    const fullPath = path.resolve(workingDir, configured);
+    if (path.isAbsolute(configured) || !isInside(root, fullPath)) {
+      core.warning(`Ignoring prompt pack path ${configured}: must be a path inside the repository`);
+      continue;
+    }
+
+    if (!fs.existsSync(fullPath)) {
+      continue;
+    }
+
+    const files = fs.statSync(fullPath).isDirectory()
+      ? fs
+          .readdirSync(fullPath)
+          .filter((name) => /\.ya?ml$/.test(name))
+          .sort()
+          .map((name) => path.join(fullPath, name))
+      : [fullPath];
+
+    for (const file of files) {
+      try {
+        // Symbolic links must not lead out of the repository either
+        if (!isInside(fs.realpathSync(root), fs.realpathSync(file))) {
+          core.warning(`Ignoring prompt pack ${file}: must be a path inside the repository`);
+          continue;
+        }
+
+        const pack = parsePromptPack(fs.readFileSync(file, 'utf-8'));
+        packs.push(pack);
+        core.info(`Loaded prompt pack ${pack.id} from ${file}`);
+      } catch (error) {
+        core.warning(`Ignoring invalid prompt pack ${file}: ${error}`);
+      }
+    }
+  }
+
+  return packs;
+}
@@ -1,6 +1,31 @@
 import { describe, expect, it } from 'vitest';
 import type { ReviewRequest } from '../llm/types.js';
-import { buildReviewPrompt, getSystemPrompt } from './review.js';
+import { BUILTIN_PROMPT_PACKS } from './packs.js';
+import { buildReviewPrompt, getDeepReviewSystemPrompt, getSystemPrompt } from './review.js';
+
+const createMockRequest = (overrides: Partial<ReviewRequest> = {}): ReviewRequest => ({
+  pr: {
+    title: 'Add user authentication',
+    body: 'This PR adds JWT-based authentication',
+    author: 'testuser',
+  },
+  diff: '@@ -1,0 +1,10 @@\n+const auth = () => {};',
+  changedFiles: [
+    {
+      path: 'src/auth.ts',
+      content: 'export const auth = () => {};',
+      role: 'changed',
+    },
+  ],
+  relatedFiles: [],
+  context: {
+    contextFiles: [],
+    instructions: [],
+    patterns: [],
+  },
+  categories: ['security', 'bugs'],
+  ...overrides,
+});
 
 describe('getSystemPrompt', () => {
   it('should return a non-empty system prompt', () => {
@@ -36,33 +61,40 @@ describe('getSystemPrompt', () => {
     expect(prompt).toContain('suggestion');
     expect(prompt).toContain('nitpick');
   });
-});
 
-describe('buildReviewPrompt', () => {
-  const createMockRequest = (overrides: Partial<ReviewRequest> = {}): ReviewRequest => ({
-    pr: {
-      title: 'Add user authentication',
-      body: 'This PR adds JWT-based authentication',
-      author: 'testuser',
-    },
-    diff: '@@ -1,0 +1,10 @@\n+const auth = () => {};',
-    changedFiles: [
-      {
-        path: 'src/auth.ts',
-        content: 'export const auth = () => {};',
-        role: 'changed',
+  it('should include the checklists and examples of the given prompt packs', () => {
+    const request = createMockRequest({
+      packs: BUILTIN_PROMPT_PACKS.filter((p) => p.id === 'go'),
+    });
+
+    for (const prompt of [getSystemPrompt(request), getDeepReviewSystemPrompt(request)]) {
+      expect(prompt).toContain('## Review Packs');
+      expect(prompt).toContain('### Go');
+      expect(prompt).toContain('defer resp.Body.Close()');
+      expect(prompt.indexOf('## Review Packs')).toBeLessThan(prompt.indexOf('## Response Format'));
+    }
+    expect(getSystemPrompt()).not.toContain('## Review Packs');
+  });
+
+  it('should render the team template with the default prompt parts', () => {
+    const request = createMockRequest({
+      templates: {
+        system: 'Review {{ pr.title }} tersely.\n\n{{packs}}\n\n{{response_format}}',
+        deep_system: 'Explore first.\n\n{{default}}',
       },
-    ],
-    relatedFiles: [],
-    context: {
-      contextFiles: [],
-      instructions: [],
-      patterns: [],
-    },
-    categories: ['security', 'bugs'],
-    ...overrides,
+    });
+
+    const system = getSystemPrompt(request);
+    expect(system).toMatch(/^Review Add user authentication tersely\./);
+    expect(system).not.toContain('You are Code Sentinel');
+    expect(system).toContain('You MUST respond with valid JSON');
+
+    const deep = getDeepReviewSystemPrompt(request);
+    expect(deep).toMatch(/^Explore first\.\n\nYou are Code Sentinel/);
   });
+});
 
+describe('buildReviewPrompt', () => {
   it('should include PR information', () => {
     const request = createMockRequest();
     const prompt = buildReviewPrompt(request);
@@ -146,6 +178,71 @@ describe('buildReviewPrompt', () => {
     expect(prompt).toContain('architecture');
   });
 
+  it('should include the detected stack and its review checklists', () => {
+    const request = createMockRequest({
+      context: {
+        contextFiles: [],
+        instructions: [],
+        patterns: [],
+        stack: { languages: ['Python'], frameworks: ['Django'], testRunners: ['pytest'] },
+      },
+    });
+    const prompt = buildReviewPrompt(request);
+
+    expect(prompt).toContain('## Technology Stack');
+    expect(prompt).toContain('**Languages:** Python');
+    expect(prompt).toContain('**Frameworks:** Django');
+    expect(prompt).toContain('**Test runners:** pytest');
+    expect(prompt).toContain('### Review Checklist');
+    expect(prompt).toContain('**Django**');
+    expect(prompt).toContain('`select_related`/`prefetch_related`');
+    expect(prompt.indexOf('**Django**')).toBeLessThan(prompt.indexOf('**Python**'));
+  });
+
+  it('should leave out stack checklists covered by a prompt pack', () => {
+    const request = createMockRequest({
+      context: {
+        contextFiles: [],
+        instructions: [],
+        patterns: [],
+        stack: { languages: ['Python'], frameworks: ['Django'], testRunners: [] },
+      },
+      packs: BUILTIN_PROMPT_PACKS.filter((p) => p.id === 'python-django'),
+    });
+    const prompt = buildReviewPrompt(request);
+
+    expect(prompt).toContain('**Frameworks:** Django');
+    expect(prompt).not.toContain('**Django**');
+    expect(prompt).toContain('**Python**');
+  });
+
+  it('should replace sections with their templates and leave out empty ones', () => {
+    const request = createMockRequest({
+      templates: {
+        focus: 'Only look at {{ categories }}.',
+        instructions: '{{default}}\n\nAnswer in a friendly tone.',
+        pull_request: '',
+        patterns: 'Team patterns: {{patterns}}',
+      },
+    });
+    const prompt = buildReviewPrompt(request);
+
+    expect(prompt).not.toContain('## Pull Request');
+    expect(prompt).not.toContain('Team patterns');
+    expect(prompt).toContain('Only look at security, bugs.');
+    expect(prompt).not.toContain('## Focus Areas');
+    expect(prompt).toMatch(/Return your analysis as JSON\.\n\nAnswer in a friendly tone\.$/);
+  });
+
+  it('should not expand placeholders inside inserted values', () => {
+    const request = createMockRequest({
+      diff: '+const t = `{{diff}}`;',
+      templates: { diff: 'Changes:\n{{diff}}' },
+    });
+
+    expect(buildReviewPrompt(request)).toContain('Changes:\n+const t = `{{diff}}`;');
+  });
+
   it('should include related files', () => {
     const request = createMockRequest({
       relatedFiles: [
@@ -163,14 +260,24 @@ describe('buildReviewPrompt', () => {
     expect(prompt).toContain('sibling');
   });
 
-  it('should truncate long content', () => {
+  it('should not cut content mid-file', () => {
     const longContent = 'x'.repeat(10000);
     const request = createMockRequest({
       diff: longContent,
     });
     const prompt = buildReviewPrompt(request);
 
-    expect(prompt).toContain('truncated');
-    expect(prompt.length).toBeLessThan(longContent.length);
+    expect(prompt).toContain(longContent);
+    expect(prompt).not.toContain('truncated');
+  });
+
+  it('should list content omitted to fit the context window', () => {
+    const request = createMockRequest({
+      omittedContext: ['src/big.ts: 2 of 5 diff hunks omitted'],
+    });
+    const prompt = buildReviewPrompt(request);
+
+    expect(prompt).toContain('## Omitted Context');
+    expect(prompt).toContain('- src/big.ts: 2 of 5 diff hunks omitted');
   });
 });
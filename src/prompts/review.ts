@@ -1,7 +1,45 @@
-import type { FileContext, ReviewRequest } from '../llm/types.js';
+import type { PromptSection } from '../config/schema.js';
+import type { CodebaseStack, FileContext, ReviewContext, ReviewRequest } from '../llm/types.js';
+import { getStackChecklists } from './checklists.js';
+import { formatPromptPacks } from './packs.js';
+import { renderTemplate } from './templates.js';
+
+/** JSON structure both system prompts ask the model to answer with */
+const RESPONSE_SCHEMA = `{
+  "summary": "Brief overview of the changes and assessment",
+  "effortScore": 1-5,
+  "issues": [
+    {
+      "severity": "critical|warning|suggestion|nitpick",
+      "category": "security|architecture|performance|best-practices|bugs|testing",
+      "file": "path/to/file.ts",
+      "line": 42,
+      "endLine": "last line when the issue spans several lines (optional)",
+      "side": "new|old - old when flagging removed code, with line numbers of the old file (optional, default new)",
+      "snippet": "the code at line, copied verbatim (optional)",
+      "title": "Short issue title",
+      "description": "Detailed explanation of the issue",
+      "suggestion": "How to fix it (optional)",
+      "codeBlock": "suggested code fix (optional)",
+      "replacement": "true when codeBlock replaces lines line..endLine exactly (optional)"
+    }
+  ]
+}`;
+
+/**
+ * System prompt for quick reviews, or the team's `prompts.system` template.
+ *
+ * @param request - Review the prompt is for, with the selected prompt packs and templates
+ */
+export function getSystemPrompt(request?: ReviewRequest): string {
+  const packs = formatPackSection(request);
+  const responseFormat = `## Response Format
+
+You MUST respond with valid JSON matching this structure:
+
+${RESPONSE_SCHEMA}`;
 
-export function getSystemPrompt(): string {
-  return `You are Code Sentinel, an expert AI code reviewer. Your role is to analyze pull request changes and provide actionable, high-quality feedback focused on:
+  const prompt = `You are Code Sentinel, an expert AI code reviewer. Your role is to analyze pull request changes and provide actionable, high-quality feedback focused on:
 
 1. **Security**: Identify vulnerabilities like SQL injection, XSS, hardcoded secrets, insecure authentication, and OWASP Top 10 issues.
 
@@ -13,39 +51,37 @@ export function getSystemPrompt(): string {
 
 5. **Best Practices**: Note code style inconsistencies, missing error handling, and deviations from team conventions.
 
+6. **Testing**: Point out changed behaviour that the tests shown do not cover, and tests that no longer match the code.
+
 ## Guidelines
 
 - Focus on substantive issues, not style nitpicks (unless they affect readability significantly)
 - Consider the context of the codebase and team conventions provided
 - Provide specific, actionable suggestions with code examples when helpful
-- Reference line numbers when possible for inline comments
+- Reference line numbers when possible for inline comments, and copy the code at that line verbatim into "snippet" so the comment lands on the right line
+- Flag dangerous deletions (e.g. a removed auth check) on the removed lines with "side": "old"
+- When codeBlock is a drop-in replacement for the referenced lines, set "replacement": true and keep their indentation so it can be applied as is
 - Be constructive and educational in tone
 - Prioritize issues by severity: critical > warning > suggestion > nitpick
 
-## Response Format
+${packs ? `${packs}\n\n` : ''}${responseFormat}`;
 
-You MUST respond with valid JSON matching this structure:
-
-{
-  "summary": "Brief overview of the changes and assessment",
-  "effortScore": 1-5,
-  "issues": [
-    {
-      "severity": "critical|warning|suggestion|nitpick",
-      "category": "security|architecture|performance|best-practices|bugs",
-      "file": "path/to/file.ts",
-      "line": 42,
-      "title": "Short issue title",
-      "description": "Detailed explanation of the issue",
-      "suggestion": "How to fix it (optional)",
-      "codeBlock": "suggested code fix (optional)"
-    }
-  ]
-}`;
+  return applySystemTemplate(request, 'system', prompt, packs, responseFormat);
 }
 
-export function getDeepReviewSystemPrompt(): string {
-  return `You are Code Sentinel, an expert AI code reviewer with access to tools for exploring the codebase.
+/**
+ * System prompt for deep reviews, or the team's `prompts.deep_system` template.
+ *
+ * @param request - Review the prompt is for, with the selected prompt packs and templates
+ */
+export function getDeepReviewSystemPrompt(request?: ReviewRequest): string {
+  const packs = formatPackSection(request);
+  const responseFormat = `## Response Format
+After gathering context, respond with valid JSON:
+
+${RESPONSE_SCHEMA}`;
+
+  const prompt = `You are Code Sentinel, an expert AI code reviewer with access to tools for exploring the codebase.
 
 ## Your Goal
 Analyze pull request changes and provide actionable, high-quality feedback focused on security, architecture, performance, bugs, and best practices.
@@ -72,113 +108,191 @@ Don't over-use tools - only request what you need for a thorough review.
 3. **Performance**: N+1 queries, memory leaks, blocking operations
 4. **Bugs**: Logic errors, null checks, edge cases
 5. **Best Practices**: Consistency, error handling, conventions
+6. **Testing**: Changed behaviour the tests do not cover
 
-## Response Format
-After gathering context, respond with valid JSON:
+${packs ? `${packs}\n\n` : ''}${responseFormat}`;
 
-{
-  "summary": "Brief overview of changes and assessment",
-  "effortScore": 1-5,
-  "issues": [
-    {
-      "severity": "critical|warning|suggestion|nitpick",
-      "category": "security|architecture|performance|best-practices|bugs",
-      "file": "path/to/file.ts",
-      "line": 42,
-      "title": "Short issue title",
-      "description": "Detailed explanation",
-      "suggestion": "How to fix it (optional)",
-      "codeBlock": "suggested code (optional)"
-    }
-  ]
-}`;
+  return applySystemTemplate(request, 'deep_system', prompt, packs, responseFormat);
 }
 
-export function buildReviewPrompt(request: ReviewRequest): string {
-  const sections: string[] = [];
-
-  // PR Information
-  sections.push(`## Pull Request
-**Title:** ${request.pr.title}
-**Author:** ${request.pr.author}
-${request.pr.body ? `**Description:**\n${request.pr.body}` : ''}`);
+function applySystemTemplate(
+  request: ReviewRequest | undefined,
+  name: 'system' | 'deep_system',
+  prompt: string,
+  packs: string,
+  responseFormat: string
+): string {
+  const template = request?.templates?.[name];
+  if (!request || template === undefined) {
+    return prompt;
+  }
 
-  // Codebase Context
-  const hasContextFiles = request.context.contextFiles && request.context.contextFiles.length > 0;
-  const hasInstructions = request.context.instructions.length > 0;
+  return renderTemplate(template, {
+    ...templateValues(request),
+    default: prompt,
+    packs,
+    response_format: responseFormat,
+  });
+}
 
-  if (hasContextFiles || hasInstructions) {
-    sections.push('## Codebase Context');
+function formatPackSection(request?: ReviewRequest): string {
+  return request?.packs && request.packs.length > 0 ? formatPromptPacks(request.packs) : '';
+}
 
-    if (request.context.stack) {
-      sections.push(`**Technology Stack:** ${request.context.stack.frameworks.join(', ')}`);
-    }
+/**
+ * Build the review prompt from its sections. A section with a template in
+ * `prompts.sections` is replaced by the rendered template; sections without
+ * content in this review are left out along with their templates.
+ */
+export function buildReviewPrompt(request: ReviewRequest): string {
+  const { context } = request;
+  const conventions = formatConventions(context);
+  const values = templateValues(request);
+
+  const sections: [PromptSection, string | undefined][] = [
+    [
+      'pull_request',
+      `## Pull Request
+**Title:** ${request.pr.title}
+**Author:** ${request.pr.author}
+${request.pr.body ? `**Description:**\n${request.pr.body}` : ''}`,
+    ],
+    ['context', conventions ? `## Codebase Context\n\n${conventions}` : undefined],
+    ['stack', context.stack ? formatStack(context.stack, request) : undefined],
+    [
+      'patterns',
+      context.patterns.length > 0 ? `### Team Patterns\n${formatPatterns(context)}` : undefined,
+    ],
+    // Code the changes use, code that uses them, and pattern references
+    [
+      'related_files',
+      request.relatedFiles.length > 0
+        ? `## Related Files\n\n${formatRelatedFiles(request.relatedFiles)}`
+        : undefined,
+    ],
+    ['changed_files', `## Changed Files\n\n${formatChangedFiles(request.changedFiles)}`],
+    [
+      'incremental',
+      request.incrementalSince
+        ? `## Incremental Review
+This pull request was already reviewed at commit ${request.incrementalSince.substring(0, 7)}. The diff below only contains the commits pushed since then. Only report issues in these new changes.`
+        : undefined,
+    ],
+    ['diff', `## Diff\n\`\`\`diff\n${request.diff}\n\`\`\``],
+    [
+      'omitted_context',
+      request.omittedContext && request.omittedContext.length > 0
+        ? `## Omitted Context
+The following did not fit in the context window and is not shown above. Do not report issues in code you cannot see.
+${request.omittedContext.map((o) => `- ${o}`).join('\n')}`
+        : undefined,
+    ],
+    [
+      'focus',
+      `## Focus Areas
+Please focus your review on these categories: ${request.categories.join(', ')}`,
+    ],
+    [
+      'instructions',
+      `## Instructions
+Review the code changes above. Consider:
+1. The team's established conventions and patterns
+2. Consistency with related files shown
+3. Security, performance, and correctness concerns
+4. Best practices for the technology stack
 
-    // Include all AI context files (CLAUDE.md, AGENTS.md, etc.)
-    if (hasContextFiles) {
-      for (const ctxFile of request.context.contextFiles) {
-        sections.push(
-          `### Team Conventions (from ${ctxFile.name})\n${truncate(ctxFile.content, 2000)}`
-        );
-      }
-    }
+Return your analysis as JSON.`,
+    ],
+  ];
 
-    if (hasInstructions) {
-      sections.push(
-        `### Custom Instructions\n${request.context.instructions.map((i) => `- ${i}`).join('\n')}`
-      );
-    }
-  }
+  return sections
+    .filter((section): section is [PromptSection, string] => section[1] !== undefined)
+    .map(([name, text]) => {
+      const template = request.templates?.[name];
+      return template !== undefined ? renderTemplate(template, { ...values, default: text }) : text;
+    })
+    .filter((text) => text.trim().length > 0)
+    .join('\n\n');
+}
 
-  // Team Patterns
-  if (request.context.patterns.length > 0) {
-    const patternLines = request.context.patterns.map((p) => `- **${p.category}**: ${p.pattern}`);
-    sections.push(`### Team Patterns\n${patternLines.join('\n')}`);
-  }
+/** Values of the template placeholders, apart from `default` and the system prompt parts */
+function templateValues(request: ReviewRequest): Record<string, string> {
+  const { stack } = request.context;
+
+  return {
+    'pr.title': request.pr.title,
+    'pr.author': request.pr.author,
+    'pr.body': request.pr.body,
+    categories: request.categories.join(', '),
+    conventions: formatConventions(request.context),
+    stack: stack ? [...stack.languages, ...stack.frameworks].join(', ') : '',
+    patterns: formatPatterns(request.context),
+    diff: request.diff,
+    changed_files: formatChangedFiles(request.changedFiles),
+    related_files: formatRelatedFiles(request.relatedFiles),
+  };
+}
 
-  // Related Files (for pattern reference)
-  if (request.relatedFiles.length > 0) {
-    sections.push('## Related Files (for pattern reference)');
+/** AI context files (CLAUDE.md, AGENTS.md, etc.) and custom instructions */
+function formatConventions(context: ReviewContext): string {
+  const parts = (context.contextFiles ?? []).map(
+    (ctxFile) => `### Team Conventions (from ${ctxFile.name})\n${ctxFile.content}`
+  );
 
-    for (const file of request.relatedFiles.slice(0, 3)) {
-      const excerpt = truncate(file.content, 1000);
-      sections.push(`### ${file.path} (${file.role})\n\`\`\`\n${excerpt}\n\`\`\``);
-    }
+  if (context.instructions.length > 0) {
+    parts.push(`### Custom Instructions\n${context.instructions.map((i) => `- ${i}`).join('\n')}`);
   }
 
-  // Changed Files with full content
-  sections.push('## Changed Files');
-
-  for (const file of request.changedFiles) {
-    sections.push(`### ${file.path}\n\`\`\`\n${truncate(file.content, 3000)}\n\`\`\``);
-  }
+  return parts.join('\n\n');
+}
 
-  // Diff
-  sections.push(`## Diff\n\`\`\`diff\n${truncate(request.diff, 8000)}\n\`\`\``);
+function formatPatterns(context: ReviewContext): string {
+  return context.patterns.map((p) => `- **${p.category}**: ${p.pattern}`).join('\n');
+}
 
-  // Review Categories
-  sections.push(`## Focus Areas
-Please focus your review on these categories: ${request.categories.join(', ')}`);
+function formatRelatedFiles(files: FileContext[]): string {
+  return files
+    .map((file) => {
+      const label = file.reason ? `${file.role}: ${file.reason}` : file.role;
+      return `### ${file.path} (${label})\n\`\`\`\n${file.content}\n\`\`\``;
+    })
+    .join('\n\n');
+}
 
-  // Instructions
-  sections.push(`## Instructions
-Review the code changes above. Consider:
-1. The team's established conventions and patterns
-2. Consistency with related files shown
-3. Security, performance, and correctness concerns
-4. Best practices for the technology stack
+function formatChangedFiles(files: FileContext[]): string {
+  return files.map((file) => `### ${file.path}\n\`\`\`\n${file.content}\n\`\`\``).join('\n\n');
+}
 
-Return your analysis as JSON.`);
+/**
+ * @param request - Its selected prompt packs replace the checklists of the stack they name
+ */
+function formatStack(stack: CodebaseStack, request: ReviewRequest): string {
+  const lines = ['## Technology Stack'];
 
-  return sections.join('\n\n');
-}
+  if (stack.languages.length > 0) {
+    lines.push(`**Languages:** ${stack.languages.join(', ')}`);
+  }
+  if (stack.frameworks.length > 0) {
+    lines.push(`**Frameworks:** ${stack.frameworks.join(', ')}`);
+  }
+  if (stack.testRunners.length > 0) {
+    lines.push(`**Test runners:** ${stack.testRunners.join(', ')}`);
+  }
 
-function truncate(text: string, maxLength: number): string {
-  if (text.length <= maxLength) {
-    return text;
+  const covered = (request.packs ?? []).flatMap((p) => p.stack);
+  const checklists = getStackChecklists(stack, covered);
+  if (checklists.length > 0) {
+    lines.push(
+      '',
+      '### Review Checklist',
+      'Check the changes against these points where they apply:'
+    );
+    for (const checklist of checklists) {
+      lines.push(`**${checklist.name}**`, ...checklist.items.map((item) => `- ${item}`));
+    }
   }
 
-  return `${text.substring(0, maxLength)}\n... (truncated, ${text.length - maxLength} more characters)`;
+  return lines.join('\n');
 }
 
 export function formatFileContext(files: FileContext[]): string {
@@ -0,0 +1,148 @@
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { PromptsConfigSchema } from '../config/schema.js';
+import {
+  PromptTemplateError,
+  loadPromptTemplates,
+  renderTemplate,
+  validateTemplate,
+} from './templates.js';
+
+describe('validateTemplate', () => {
+  it('should accept known placeholders with or without spaces', () => {
+    expect(validateTemplate('diff', 'PR {{pr.title}} by {{ pr.author }}\n{{ diff }}')).toEqual([]);
+    expect(validateTemplate('system', 'Be brief.\n\n{{default}}')).toEqual([]);
+  });
+
+  it('should report unknown placeholders with their line', () => {
+    const problems = validateTemplate('focus', 'Focus on\n{{ categorys }} and {{response_format}}');
+
+    expect(problems).toHaveLength(2);
+    expect(problems[0]).toMatch(/^unknown placeholder \{\{ categorys \}\} on line 2 \(available: /);
+    expect(problems[1]).toContain('{{response_format}}');
+  });
+
+  it('should only offer packed content in the section that shows it', () => {
+    expect(validateTemplate('related_files', 'See also:\n{{related_files}}')).toEqual([]);
+    expect(validateTemplate('context', '{{conventions}}')).toEqual([]);
+
+    const problems = validateTemplate('focus', '{{diff}}\n{{related_files}}\n{{conventions}}');
+    expect(problems).toHaveLength(3);
+    expect(problems[0]).toMatch(/^unknown placeholder \{\{diff\}\} on line 1/);
+    expect(validateTemplate('system', '{{changed_files}}{{default}}')[0]).toMatch(
+      /^unknown placeholder \{\{changed_files\}\}/
+    );
+  });
+
+  it('should report required placeholders the template leaves out', () => {
+    expect(validateTemplate('system', 'You review code.')).toEqual([
+      'missing placeholder {{response_format}} (or {{default}})',
+    ]);
+    expect(validateTemplate('diff', 'Here is the change.')).toEqual([
+      'missing placeholder {{diff}} (or {{default}})',
+    ]);
+  });
+
+  it('should report malformed placeholders', () => {
+    expect(validateTemplate('focus', 'Focus on {{categories}.')).toEqual([
+      'malformed placeholder on line 1',
+    ]);
+    expect(validateTemplate('focus', 'Focus on {{}}.')[0]).toMatch(/^unknown placeholder \{\{\}\}/);
+  });
+});
+
+describe('renderTemplate', () => {
+  it('should replace placeholders with their values', () => {
+    expect(renderTemplate('{{ a }} and {{b}}{{c}}', { a: '1', b: '2' })).toBe('1 and 2');
+  });
+});
+
+describe('loadPromptTemplates', () => {
+  it('should read the configured templates', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-templates-'));
+
+    try {
+      fs.writeFileSync(path.join(dir, 'system.md'), 'Be terse.\n{{default}}');
+      fs.writeFileSync(path.join(dir, 'focus.md'), 'Look at {{categories}}.');
+      const config = PromptsConfigSchema.parse({
+        system: 'system.md',
+        sections: { focus: 'focus.md' },
+      });
+
+      expect(loadPromptTemplates(config, dir)).toEqual({
+        system: 'Be terse.\n{{default}}',
+        focus: 'Look at {{categories}}.',
+      });
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should list every problem in one error', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-templates-'));
+
+    try {
+      fs.writeFileSync(path.join(dir, 'diff.md'), 'Changes: {{patch}}');
+      const config = PromptsConfigSchema.parse({
+        deep_system: 'missing.md',
+        sections: { diff: 'diff.md' },
+      });
+
+      let error: unknown;
+      try {
+        loadPromptTemplates(config, dir);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(PromptTemplateError);
+      expect((error as PromptTemplateError).problems).toEqual([
+        'missing.md (deep_system): file not found',
+        expect.stringMatching(/^diff\.md \(diff\): unknown placeholder \{\{patch\}\}/),
+        'diff.md (diff): missing placeholder {{diff}} (or {{default}})',
+      ]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject templates outside the repository', () => {
+    const parent = fs.mkdtempSync(path.join(os.tmpdir(), 'sentinel-templates-'));
+    const dir = path.join(parent, 'repo');
+
+    try {
+      fs.mkdirSync(dir);
+      fs.writeFileSync(path.join(parent, 'outside.md'), '{{default}}');
+      fs.symlinkSync(path.join(parent, 'outside.md'), path.join(dir, 'link.md'));
+      const config = PromptsConfigSchema.parse({
+        system: '../outside.md',
+        deep_system: path.join(parent, 'outside.md'),
+        sections: { focus: 'link.md' },
+      });
+
+      let error: unknown;
+      try {
+        loadPromptTemplates(config, dir);
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(PromptTemplateError);
+      expect((error as PromptTemplateError).problems).toEqual([
+        '../outside.md (system): must be a path inside the repository',
+        `${path.join(parent, 'outside.md')} (deep_system): must be a path inside the repository`,
+        'link.md (focus): must be a path inside the repository',
+      ]);
+    } finally {
+      fs.rmSync(parent, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject templates for unknown sections in the config', () => {
+    expect(PromptsConfigSchema.safeParse({ sections: { summary: 'summary.md' } }).success).toBe(
+      false
+    );
+  });
+});
@@ -0,0 +1,166 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as core from '@actions/core';
+import type { PromptSection, PromptsConfig } from '../config/schema.js';
+
+/** The system prompts and the sections of the review prompt that templates can replace */
+export type PromptTemplateName = 'system' | 'deep_system' | PromptSection;
+
+/** Template content by what it replaces */
+export type PromptTemplates = Partial<Record<PromptTemplateName, string>>;
+
+/** `{{ name }}`, with optional spaces inside the braces */
+const PLACEHOLDER = /\{\{\s*([\w.]*)\s*\}\}/g;
+
+/** Placeholders every template can use; `default` is the text the template replaces */
+const COMMON_VARIABLES = [
+  'default',
+  'pr.title',
+  'pr.author',
+  'pr.body',
+  'categories',
+  'stack',
+  'patterns',
+];
+
+const SYSTEM_VARIABLES = [...COMMON_VARIABLES, 'packs', 'response_format'];
+
+/**
+ * Placeholders for the content the prompt is packed from, by the section that
+ * shows it. Using them elsewhere would repeat content the packer counted once.
+ */
+const PACKED_VARIABLES: Partial<Record<PromptSection, string>> = {
+  context: 'conventions',
+  related_files: 'related_files',
+  changed_files: 'changed_files',
+  diff: 'diff',
+};
+
+/** Placeholders a template must use unless it includes the replaced text with `{{default}}` */
+const REQUIRED_VARIABLES: Partial<Record<PromptTemplateName, string[]>> = {
+  system: ['response_format'],
+  deep_system: ['response_format'],
+  changed_files: ['changed_files'],
+  diff: ['diff'],
+};
+
+/**
+ * Thrown when configured prompt templates cannot be used: a file is missing
+ * or a template uses unknown placeholders or leaves out required ones.
+ */
+export class PromptTemplateError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid prompt templates:\n${problems.map((p) => `- ${p}`).join('\n')}`);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+export function templateVariables(name: PromptTemplateName): string[] {
+  if (name === 'system' || name === 'deep_system') {
+    return SYSTEM_VARIABLES;
+  }
+
+  const packed = PACKED_VARIABLES[name];
+  return packed ? [...COMMON_VARIABLES, packed] : COMMON_VARIABLES;
+}
+
+/**
+ * Check a template's placeholders. Returns a description of each problem,
+ * empty when the template is valid.
+ */
+export function validateTemplate(name: PromptTemplateName, content: string): string[] {
+  const problems: string[] = [];
+  const allowed = templateVariables(name);
+  const used = new Set<string>();
+  const lineOf = (index: number) => content.slice(0, index).split('\n').length;
+
+  for (const match of content.matchAll(PLACEHOLDER)) {
+    used.add(match[1]);
+    if (!allowed.includes(match[1])) {
+      problems.push(
+        `unknown placeholder ${match[0]} on line ${lineOf(match.index)} (available: ${allowed.join(', ')})`
+      );
+    }
+  }
+
+  // Braces left once the placeholders are removed are typos such as `{{diff}` or `{ {diff}}`
+  const malformed = /\{\{|\}\}/.exec(content.replace(PLACEHOLDER, (m) => ' '.repeat(m.length)));
+  if (malformed) {
+    problems.push(`malformed placeholder on line ${lineOf(malformed.index)}`);
+  }
+
+  if (!used.has('default')) {
+    for (const variable of REQUIRED_VARIABLES[name] ?? []) {
+      if (!used.has(variable)) {
+        problems.push(`missing placeholder {{${variable}}} (or {{default}})`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/** Replace the placeholders of a validated template; values are inserted as is */
+export function renderTemplate(content: string, values: Record<string, string>): string {
+  return content.replace(PLACEHOLDER, (_, name: string) => values[name] ?? '');
+}
+
+/**
+ * Read and validate the templates configured under `prompts`. Templates must
+ * be files inside the repository.
+ *
+ * @throws PromptTemplateError listing every problem found, when any template is invalid
+ */
+export function loadPromptTemplates(config: PromptsConfig, workingDir: string): PromptTemplates {
+  const configured: [PromptTemplateName, string | undefined][] = [
+    ['system', config.system],
+    ['deep_system', config.deep_system],
+    ...(Object.entries(config.sections) as [PromptSection, string | undefined][]),
+  ];
+  const templates: PromptTemplates = {};
+  const problems: string[] = [];
+
+  for (const [name, file] of configured) {
+    if (!file) {
+      continue;
+    }
+
+    const fullPath = path.resolve(workingDir, file);
+    if (path.isAbsolute(file) || !isInside(path.resolve(workingDir), fullPath)) {
+      problems.push(`${file} (${name}): must be a path inside the repository`);
+      continue;
+    }
+
+    if (!fs.existsSync(fullPath)) {
+      problems.push(`${file} (${name}): file not found`);
+      continue;
+    }
+
+    // Symbolic links must not lead out of the repository either
+    if (!isInside(fs.realpathSync(workingDir), fs.realpathSync(fullPath))) {
+      problems.push(`${file} (${name}): must be a path inside the repository`);
+      continue;
+    }
+
+    const content = fs.readFileSync(fullPath, 'utf-8');
+    problems.push(...validateTemplate(name, content).map((p) => `${file} (${name}): ${p}`));
+    templates[name] = content;
+  }
+
+  if (problems.length > 0) {
+    throw new PromptTemplateError(problems);
+  }
+
+  const names = Object.keys(templates);
+  if (names.length > 0) {
+    core.info(`Using prompt templates for: ${names.join(', ')}`);
+  }
+
+  return templates;
+}
+
+/** Whether `fullPath` is `root` itself or lies below it */
+export function isInside(root: string, fullPath: string): boolean {
+  const relative = path.relative(root, fullPath);
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
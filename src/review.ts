@@ -0,0 +1,121 @@
+import * as path from 'node:path';
+import * as core from '@actions/core';
+import type { ContextFile, ProviderInputs } from './config/index.js';
+import type { SentinelConfig } from './config/schema.js';
+import { type AnalysisResult, ReviewAnalyzer, readBaselineFile } from './engine/index.js';
+import { createLLMProvider } from './llm/index.js';
+import {
+  type FormattedOutput,
+  OutputFormatter,
+  type SentinelReport,
+  buildReport,
+} from './output/index.js';
+import type { PlatformAdapter, PullRequest } from './platforms/index.js';
+import { loadPromptTemplates, readPromptPackFiles, resolvePromptPacks } from './prompts/index.js';
+import { ToolExecutor } from './tools/executor.js';
+
+export interface ReviewOptions {
+  platform: PlatformAdapter;
+  config: SentinelConfig;
+  contextFiles: ContextFile[];
+  workingDir: string;
+  /** Provider credentials; defaults to the GitHub Action inputs */
+  inputs?: ProviderInputs;
+}
+
+export interface ReviewRun {
+  pr: PullRequest;
+  result: AnalysisResult;
+  /** Formatted review, absent when the review was skipped */
+  output?: FormattedOutput;
+  providerName: string;
+  /** Machine-readable report of the run */
+  report: SentinelReport;
+}
+
+/**
+ * Fetch the pull request from the platform, analyze it and format the result.
+ * Posting the output is left to the caller (GitHub Action, CLI, ...).
+ */
+export async function reviewPullRequest(options: ReviewOptions): Promise<ReviewRun> {
+  const { platform, config, contextFiles, workingDir, inputs } = options;
+  const startedAt = new Date();
+
+  // Invalid templates fail the run before anything is fetched or sent
+  const promptTemplates = loadPromptTemplates(config.prompts, workingDir);
+
+  // Get PR information
+  core.info('Fetching pull request information...');
+  const pr = await platform.getPullRequest();
+  core.info(`Reviewing PR #${pr.id}: ${pr.title}`);
+  core.info(`Files changed: ${pr.files.length}`);
+
+  if (config.review.incremental && platform.getIncrementalChanges) {
+    pr.incremental = await platform.getIncrementalChanges(pr);
+  }
+
+  // Initialize LLM provider
+  const llmProvider = createLLMProvider(config, inputs);
+
+  // Set up tool executor for deep mode
+  if (config.review.mode === 'deep' && llmProvider.setToolExecutor) {
+    const toolExecutor = new ToolExecutor(workingDir, config.secrets);
+    llmProvider.setToolExecutor(toolExecutor);
+    core.info('Deep review mode enabled - LLM will explore codebase with tools');
+  }
+
+  // Analyze the PR
+  const baseline = readBaselineFile(path.resolve(workingDir, config.baseline.path));
+  const promptPacks = resolvePromptPacks(
+    config.prompt_packs,
+    readPromptPackFiles(config.prompt_packs.paths, workingDir)
+  );
+  const analyzer = new ReviewAnalyzer(platform, llmProvider, config, contextFiles, {
+    baseline,
+    promptPacks,
+    promptTemplates,
+  });
+  const result = await analyzer.analyze(pr);
+
+  // A fallback chain names the providers that answered with the response
+  const providers = result.response.providers ?? [
+    { name: llmProvider.name, model: llmProvider.model ?? config.llm.model },
+  ];
+  const providerName = [...new Set(providers.map((p) => p.name))].join(', ');
+
+  const report = buildReport({
+    pullRequest: {
+      id: pr.id,
+      title: pr.title,
+      author: pr.author,
+      baseBranch: pr.baseBranch,
+      headBranch: pr.headBranch,
+      baseSha: pr.baseRef,
+      headSha: pr.headRef,
+    },
+    providers,
+    reviewMode: config.review.mode,
+    startedAt,
+    finishedAt: new Date(),
+    result,
+  });
+
+  if (result.skipped) {
+    return { pr, result, providerName, report };
+  }
+
+  // Format output
+  const formatter = new OutputFormatter(config, providerName);
+  const output = formatter.format(result.response, result.filteredIssues, {
+    headSha: pr.headRef,
+    incrementalSince: result.incrementalSince,
+    omittedContext: result.packing?.omitted,
+    skippedFiles: result.skippedFiles,
+    suppressedCount: result.suppressed
+      ? result.suppressed.inline.length + result.suppressed.baseline.length
+      : 0,
+    verification: result.verification,
+  });
+
+  return { pr, result, output, providerName, report };
+}
@@ -7,6 +7,8 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as core from '@actions/core';
 import { minimatch } from 'minimatch';
+import type { SecretsConfig } from '../config/schema.js';
+import { redactText } from '../engine/secrets.js';
 import type { ToolCall, ToolResult } from './definitions.js';
 
 /** Maximum file size to read (500KB) */
@@ -31,7 +33,11 @@ const SKIP_DIRS = [
 ];
 
 export class ToolExecutor {
-  constructor(private workingDir: string) {}
+  constructor(
+    private workingDir: string,
+    /** Credentials found in tool results are redacted before they reach the model */
+    private secrets?: SecretsConfig
+  ) {}
 
   /**
    * Execute a tool call and return the result.
@@ -64,6 +70,10 @@ export class ToolExecutor {
           return { name, result: '', error: `Unknown tool: ${name}` };
       }
 
+      if (this.secrets?.enabled) {
+        result = redactText(result, this.secrets);
+      }
+
       return { name, result };
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);